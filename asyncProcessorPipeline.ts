@@ -0,0 +1,222 @@
+import { Processor, isConcurrentProcessor } from "./processor";
+import Optional from "./optional";
+import { Function } from "./functions";
+import { AsyncSource } from "./asyncSource";
+
+/**
+ * a Processor that can be added to an AsyncProcessorPipeline, its outputs may be values or Promises of values
+ */
+export type AsyncPipelineProcessor<I, O> = Processor<I, O> | Processor<I, Promise<O>> | Processor<I, O | Promise<O>>;
+
+/**
+ * The async counterpart of the ProcessorPipeline, a linked list of processor nodes fed from an AsyncSource.
+ * The same Processors used by the synchronous pipeline are used here, values are pulled through the pipeline
+ * asynchronously, and any Promise produced by a processor (i.e. a mapper returning a Promise) is resolved 
+ * before the value is passed on to the next node in the pipeline.
+ */
+export class AsyncProcessorPipeline<S, F> {
+
+    private initialFeed: AsyncInitialFeedProcessorNode<S>;
+    private headProcessor: AsyncProcessorNode<S, any>;
+    private tailProcessor: AsyncProcessorNode<any, F>;
+
+    private constructor(initialFeed: AsyncInitialFeedProcessorNode<S>, headNode: AsyncProcessorNode<S, any>, tailNode: AsyncProcessorNode<any, F>) {
+        this.initialFeed = initialFeed;
+        this.headProcessor = headNode;
+        this.tailProcessor = tailNode;
+        this.headProcessor.addPreviousNode(this.initialFeed);
+    }
+
+    /**
+     * resolves to true if there is still unprocessed items or items still remaining in the 
+     * processing queue. hasNext = true does not garentee that getNextResult will be a 
+     * non-empty value.
+     */
+    public hasNext(): Promise<boolean> {
+        return this.tailProcessor.hasNext();
+    }
+
+    /**
+     * creates a new Pipeline pulling values from the given source
+     * @param source 
+     */
+    public static create<S>(source: AsyncSource<S>): AsyncProcessorPipeline<S, S> {
+        const initialNode = new AsyncInitialFeedProcessorNode<S>(source);
+        const node = new AsyncProcessorNode<S, S>(Processor.mapProcessor(Function.identity()));
+        return new AsyncProcessorPipeline(initialNode, node, node);
+    }
+
+    /**
+     * adds a new processor to the end of the pipeline, returning a new pipeline, outputs of the 
+     * processor may be Promises, they will be resolved before being passed on.
+     * @param addedProcessor 
+     */
+    public addProcessor<NF>(addedProcessor: AsyncPipelineProcessor<F, NF>): AsyncProcessorPipeline<S, NF> {
+        const newNode = new AsyncProcessorNode<F, NF>(addedProcessor);
+        newNode.addPreviousNode(this.tailProcessor);
+
+        return new AsyncProcessorPipeline<S, NF>(this.initialFeed, this.headProcessor, newNode);
+    }
+
+    /**
+     * Resolves to the next real value to come out of the back of the pipeline (wrapped in an optional)
+     * if there is no more elements in the in the queue or pipeline, this will resolve to optional empty.
+     */
+    public async getNextResult(): Promise<Optional<F>> {
+        while (await this.hasNext()) {
+            const possibleValue: Optional<F> = await this.tailProcessor.getProcessedValue();
+            if (possibleValue.isPresent()) {
+                return possibleValue;
+            }
+        }
+        return Optional.empty();
+    }
+}
+
+/**
+ * represents a node in the async processing pipeline, may or may not have a node before it.
+ */
+export class AsyncProcessorNode<I, O> {
+    private previousNode: Optional<AsyncProcessorNode<any, I>>;
+    private thisProcessor: Processor<I, O | Promise<O>>;
+
+    constructor(processor: AsyncPipelineProcessor<I, O>) {
+        this.previousNode = Optional.empty();
+        this.thisProcessor = <Processor<I, O | Promise<O>>>processor;
+    }
+
+    addPreviousNode(previousProcessor: AsyncProcessorNode<any, I>): void {
+        this.previousNode = Optional.of(previousProcessor);
+    }
+
+    getPreviousNode(): Optional<AsyncProcessorNode<any, I>> {
+        return this.previousNode;
+    }
+
+    addInput(input: I): void {
+        this.thisProcessor.add(input);
+    }
+
+    isStateless(): boolean {
+        return this.thisProcessor.isStateless();
+    }
+
+    /**
+     * only asks the previous node for values when the answer can not be determined from this
+     * processor alone, as asking an async source may trigger a fetch of more data.
+     */
+    async hasNext(): Promise<boolean> {
+        const processorHasNext = this.thisProcessor.hasNext();
+        if (this.thisProcessor.isShortCircuting() && !processorHasNext) {
+            return false;
+        } else if (!this.thisProcessor.isShortCircuting() && processorHasNext) {
+            return true;
+        }
+        const previousHasNext = this.previousNode.isPresent() ? await this.previousNode.get().hasNext() : false;
+        if (!previousHasNext) {
+            this.thisProcessor.endOfInput();
+            return !this.thisProcessor.isShortCircuting() && this.thisProcessor.hasNext();
+        }
+        return true;
+    }
+
+    /**
+     * waits for the processed output if the processor produced a Promise
+     */
+    private async resolve(output: Optional<O | Promise<O>>): Promise<Optional<O>> {
+        if (output.isPresent()) {
+            const value: O = await output.get();
+            return Optional.ofNullable(value);
+        }
+        return Optional.empty();
+    }
+
+    /**
+     * pulls all the values out of the previous processor, if one exists
+     * and add them into the current processor;
+     */
+    async statefulPullAndGet(): Promise<Optional<O>> {
+        if (this.previousNode.isPresent()) {
+            const previousNode = this.previousNode.get();
+            while (await previousNode.hasNext()) {
+                const previousVal: Optional<I> = await previousNode.getProcessedValue();
+                if (previousVal.isPresent()) {
+                    this.addInput(previousVal.get());
+                }
+            }
+        }
+        return this.resolve(this.thisProcessor.processAndGetNext());
+    }
+
+    /**
+     * if the current processor is a ConcurrentProcessor, pulls values from the previous processor
+     * until the current processor has no capacity for more inputs, or the previous processor is exhausted.
+     */
+    async fillConcurrentProcessor(): Promise<void> {
+        const processor = this.thisProcessor;
+        if (isConcurrentProcessor(processor) && this.previousNode.isPresent()) {
+            const previousNode = this.previousNode.get();
+            while (processor.canAcceptInput() && await previousNode.hasNext()) {
+                const previousVal: Optional<I> = await previousNode.getProcessedValue();
+                if (previousVal.isPresent()) {
+                    this.addInput(previousVal.get());
+                }
+            }
+        }
+    }
+
+    /**
+     * goes to the current processor, pulling values out of it first, if there is nothing left in the 
+     * current processor, attempt to add new items to the current processor from the previous upstream processor.
+     */
+    async statelessGet(): Promise<Optional<O>> {
+        await this.fillConcurrentProcessor();
+        if (this.thisProcessor.hasNext() && !this.thisProcessor.isShortCircuting()) {
+            return this.resolve(this.thisProcessor.processAndGetNext());
+        } else if (this.previousNode.isPresent()) {
+            const processedValue: Optional<I> = await this.previousNode.get().getProcessedValue();
+            if (processedValue.isPresent()) {
+                this.addInput(processedValue.get());
+                return this.resolve(this.thisProcessor.processAndGetNext());
+            }
+        }
+        return Optional.empty();
+    }
+
+    /**
+     * Resolves to a value that has been processed by this processor, 
+     * if no items exist in the processor, it attempts to run more items
+     * through from the previous node in the pipeline.
+     * 
+     * if the current processor is a stateful processor, this function 
+     * will greedily pull all items from the previous node into itself 
+     * before processing and returning any values. 
+     */
+    getProcessedValue(): Promise<Optional<O>> {
+        return this.isStateless()
+            ? this.statelessGet()
+            : this.statefulPullAndGet();
+    }
+}
+
+/**
+ * a special processor node that acts as a supplier for the rest of the pipeline
+ * pulling from an AsyncSource
+ */
+class AsyncInitialFeedProcessorNode<I> extends AsyncProcessorNode<I, I> {
+
+    private source: AsyncSource<I>;
+
+    constructor(source: AsyncSource<I>) {
+        super(Processor.mapProcessor(Function.identity()));
+        this.source = source;
+    }
+
+    public hasNext(): Promise<boolean> {
+        return this.source.hasNext();
+    }
+
+    public async getProcessedValue(): Promise<Optional<I>> {
+        return Optional.ofNullable(await this.source.get());
+    }
+}
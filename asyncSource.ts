@@ -0,0 +1,124 @@
+import { Supplier } from "./functions";
+import Optional from "./optional";
+import AsyncStream, { AsyncStreamIterator } from "./asyncStream";
+
+/**
+ * Defines the basic outline of an asynchronous stream source, the async counterpart of Source. 
+ * Both the retrieval of values and the check for further values may need to wait on
+ * some outside resource (a paged API, a file, a database cursor), so both return Promises.
+ */
+export interface AsyncSource<T> {
+    /**
+     * Resolves to a value if one exists in the source, otherwise undefined. hasNext() can be
+     * used to reliably check if a value exists.
+     */
+    get(): Promise<T | undefined>;
+
+    /**
+     * resolves to true if more values can be retrieved from this source through get();
+     */
+    hasNext(): Promise<boolean>;
+}
+
+export const AsyncSource = {
+    /**
+     * a source backed by an AsyncIterable (async generators, readable streams etc.) or a regular Iterable,
+     * values (and Promises of values) are pulled from the iterator only when needed, one value is looked ahead 
+     * in order to answer hasNext()
+     */
+    iterableSource: <S>(iterable: AsyncIterable<S> | Iterable<S | Promise<S>>): AsyncSource<S> => new AsyncIterableSource(iterable),
+
+    /**
+     * basic infinite AsyncSource coming from a Supplier function, the supplier may return Promises
+     */
+    supplierSource: <S>(supplier: Supplier<S | Promise<S>>): AsyncSource<S> => new AsyncSupplierSource(supplier),
+
+    /**
+     * source of values that draws all the values from each of the inner streams, one stream at a time
+     */
+    flatMapSource: <S>(streams: AsyncStream<AsyncStream<S>>): AsyncSource<S> => new AsyncFlatMapSource(streams),
+}
+
+class AsyncIterableSource<S> implements AsyncSource<S> {
+    private iterator: AsyncIterator<S | Promise<S>> | Iterator<S | Promise<S>>;
+    private lookAhead: Optional<Promise<IteratorResult<S | Promise<S>>>>;
+
+    constructor(iterable: AsyncIterable<S> | Iterable<S | Promise<S>>) {
+        this.iterator = isAsyncIterable<S>(iterable)
+            ? iterable[Symbol.asyncIterator]()
+            : iterable[Symbol.iterator]();
+        this.lookAhead = Optional.empty();
+    }
+
+    private peek(): Promise<IteratorResult<S | Promise<S>>> {
+        if (!this.lookAhead.isPresent()) {
+            this.lookAhead = Optional.of(Promise.resolve(this.iterator.next()));
+        }
+        return this.lookAhead.get();
+    }
+
+    public async get(): Promise<S | undefined> {
+        const result = await this.peek();
+        if (!result.done) {
+            this.lookAhead = Optional.empty();
+            return result.value;
+        }
+    }
+
+    public async hasNext(): Promise<boolean> {
+        const result = await this.peek();
+        return !result.done;
+    }
+}
+
+class AsyncSupplierSource<S> implements AsyncSource<S> {
+    private supplier: Supplier<S | Promise<S>>;
+
+    constructor(supplier: Supplier<S | Promise<S>>) {
+        this.supplier = supplier;
+    }
+
+    public async get(): Promise<S> {
+        return this.supplier();
+    }
+
+    public async hasNext(): Promise<boolean> {
+        return true;
+    }
+}
+
+class AsyncFlatMapSource<S> implements AsyncSource<S> {
+    private outerIterator: AsyncStreamIterator<AsyncStream<S>>;
+    private innerIterator: Optional<AsyncStreamIterator<S>>;
+
+    constructor(streams: AsyncStream<AsyncStream<S>>) {
+        this.outerIterator = streams.streamIterator();
+        this.innerIterator = Optional.empty();
+    }
+
+    public async get(): Promise<S | undefined> {
+        if (await this.hasNext()) {
+            const next: Optional<S> = await this.innerIterator.get().getNext();
+            return next.isPresent() ? next.get() : undefined;
+        }
+    }
+
+    /**
+     * moves on to the next inner stream until one with values is found or the 
+     * outer stream is exhausted.
+     */
+    public async hasNext(): Promise<boolean> {
+        while (!this.innerIterator.isPresent() || !(await this.innerIterator.get().hasNext())) {
+            const nextStream: Optional<AsyncStream<S>> = await this.outerIterator.getNext();
+            if (!nextStream.isPresent()) {
+                return false;
+            }
+            this.innerIterator = Optional.of(nextStream.get().streamIterator());
+        }
+        return true;
+    }
+}
+
+function isAsyncIterable<S>(iterable: object): iterable is AsyncIterable<S> {
+    return Symbol.asyncIterator in iterable;
+}
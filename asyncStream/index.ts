@@ -0,0 +1,427 @@
+import { Function, Supplier, BiConsumer, Consumer, Predicate, BiPredicate, Comparator, BiFunction } from "../functions";
+import Collectors, { Collector } from "../collectors";
+import Optional from "../optional";
+import { AsyncProcessorPipeline, AsyncPipelineProcessor } from "../asyncProcessorPipeline";
+import { Processor, MapAsyncOptions } from "../processor";
+import { AsyncSource } from "../asyncSource";
+import { toReadable, pipeTo } from "../nodeStreams";
+import { Readable, Writable } from "stream";
+
+/**
+ * An AsyncStream is the asynchronous counterpart of a Stream, it is a sequence of elements with possibly
+ * unlimited length, whose elements may only become available over time (paged API results, lines of a file,
+ * database cursors etc.), and a sequence of 0 or more operations to be undertaken on the elements.
+ *
+ * Just as with a Stream, intermediate operations are lazy and are not envoked until a terminal operation
+ * is called, mapping functions passed into an AsyncStream may return Promises, which will be resolved
+ * before the values are passed on through the pipeline. Terminal operations return Promises
+ * that resolve once the pipeline has been processed.
+ *
+ * AsyncStreams are AsyncIterables, and so can be used in for await...of loops.
+ */
+interface AsyncStream<T> extends AsyncIterable<T> {
+
+    /**
+     * Terminal Operation:
+     * resolves to the count of all the elements of the stream.
+     */
+    count(): Promise<number>;
+
+    /**
+     * Terminal Operation:
+     * applies a mutable reduction operation to the elements in the collection using the given items,
+     * use of the combiner is not garenteed
+     * @param supplier: supplies a mutable collection of type R
+     * @param accumulator adds an element T to a given collection of type R
+     * @param combiner combines all the values in the second collection into the first
+     */
+    collect<R>(supplier: Supplier<R>, accumulator: BiConsumer<R, T>, combiner: BiConsumer<R, R>): Promise<R>;
+
+    /**
+     * Terminal Operation:
+     * applies a mutable reduction operation to the elements in the collection using the given collector,
+     * if the accumulator returns a Promise (i.e. Collectors.toWritable waiting for its writable to drain)
+     * the next element is not accumulated until the Promise resolves.
+     * @param collector a Collector used to apply the mutable reduction.
+     */
+    collect<R, A>(collector: Collector<T, A, R>): Promise<R>;
+
+    /**
+     * Intermediate Operation:
+     * returns a stream of the first occurrence of each distinct element. Without an equality function each element
+     * is hashed with its hash code (the same hashing used by Map) and only compared, with BiPredicate.defaultEquality() (===),
+     * to the previous elements with the same hash code. With an equality function each element is compared against
+     * every previous distinct element instead.
+     * @param equalsFunction function that takes two parameters, returns true if they are equal, false otherwise
+     */
+    distinct(equalsFunction?: BiPredicate<T, T>): AsyncStream<T>;
+
+    /**
+     * Intermediate Operation:
+     * returns a stream whose elements are those from the current stream that match the given predicate
+     * function. Keep all elements who match the given predicate.
+     * @param predicate
+     */
+    filter(predicate: Predicate<T>): AsyncStream<T>;
+
+    /**
+     * Terminal Operation: Short Circuiting:
+     * Resolves to an optional describing the first element of the stream, if the stream is empty,
+     * resolves to an empty Optional.
+     */
+    findFirst(): Promise<Optional<T>>;
+
+    /**
+     * Intermediate Operation:
+     * A one to many mapping Function, returns a stream whos elements consist of the
+     * elements of all the output streams of the Function function.
+     * @param Function
+     */
+    flatMap<U>(Function: Function<T, AsyncStream<U>>): AsyncStream<U>;
+
+    /**
+     * Terminal Operation:
+     * applies a given consumer to each entity in the stream, elements are processed in sequental order,
+     * resolves once all elements have been consumed.
+     * @param consumer: applies the consuming function to all elements in the stream;
+     */
+    forEach(consumer: Consumer<T>): Promise<void>;
+
+    /**
+     * Intermediate Operation - Short Circuiting
+     * returns a stream that consists of less than or equal to maxSize elements
+     * will create finite stream out of infinite stream.
+     * @param maxSize
+     */
+    limit(maxSize: number): AsyncStream<T>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream consisting of the results of applying the given function to the elements of this stream.
+     * if the function returns a Promise, the resolved value will be passed on.
+     * @param Function: function that transforms a value in the stream to a new value (or a Promise of a new value);
+     */
+    map<U>(Function: Function<T, U | Promise<U>>): AsyncStream<U>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream consisting of the results of applying the given Promise returning function to the elements 
+     * of this stream, up to options.concurrency Promises are kept in flight at once. Results are returned in the 
+     * order of the elements unless options.ordered is false, in which case they are returned as they complete.
+     * throws an IllegalArgumentException if the concurrency is not a positive integer.
+     * @param Function: function that transforms a value in the stream to a Promise of a new value;
+     * @param options: the concurrency limit and ordering of the results
+     */
+    mapAsync<U>(Function: Function<T, U | Promise<U>>, options: MapAsyncOptions): AsyncStream<U>;
+
+    /**
+     * Intermediate Operation:
+     * applies the given consumer to each item in the pipeline as an intermediate operation
+     * This function is mainly ment for debugging operations of a pipeline.
+     * @param consumer
+     */
+    peek(consumer: Consumer<T>): AsyncStream<T>;
+
+    /**
+     * Terminal Operation:
+     * writes the elements of the stream to the Node.js Writable, waiting for the writable to drain whenever its buffer
+     * is full, and ends the writable after the last element. Resolves once the writable has finished, rejects if the 
+     * stream or the writable fails.
+     * @param writable object mode (or string/Buffer accepting) Writable to write the elements to
+     */
+    pipeTo(writable: Writable): Promise<void>;
+
+    /**
+     * Terminal Operation:
+     * applies a reduction on the elements of the stream using the given accumulator function.
+     * resolves to an Optional describing the result if the stream have values. Optionally, an initial
+     * value can be specified, if the stream is empty, an optional describing the initial value will
+     * be returned.
+     */
+    reduce(accumulator: BiFunction<T>, initialValue?: T): Promise<Optional<T>>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream consisting of all the value after discarding the first n
+     * values. If a negative number is passed in, no values are skipped.
+     * @param n number of elements to skip
+     */
+    skip(n: number): AsyncStream<T>;
+
+    /**
+     * Intermediate Operation - Stateful:
+     * If comparator is passed in, it is used to sort the values in the stream, otherwise
+     * the default Comparator.default() comparator is used.
+     * @param comparator optional comparator to use to sort the objects
+     */
+    sorted(comparator?: Comparator<T>): AsyncStream<T>;
+
+    /**
+     * returns an AsyncStreamIterator of the current stream, allowing easier
+     * step by step data retrieval from the stream
+     */
+    streamIterator(): AsyncStreamIterator<T>;
+
+    /**
+     * Terminal Operation:
+     * resolves to an array of the elements of the stream.
+     */
+    toArray(): Promise<T[]>;
+
+    /**
+     * Terminal Operation:
+     * returns an object mode Node.js Readable of the elements of the stream, elements are only pulled through the 
+     * stream as the Readable is read from, so a slow reader holds back the stream. 
+     * null elements can not be pushed through a Readable, and cause it to error.
+     */
+    toReadable(): Readable;
+}
+
+export interface AsyncStreamIterator<T> extends AsyncIterableIterator<T> {
+    /**
+     * Resolves to true if there is another value available in the iterator, false otherwise
+     */
+    hasNext(): Promise<boolean>;
+
+    /**
+     * Resolves to a value bearing Optional of the next value in the given iterator,
+     * if there is no next value an empty optional will be returned.
+     */
+    getNext(): Promise<Optional<T>>;
+}
+
+//Static methods of the AsyncStream interface
+const AsyncStream = {
+    /**
+     * Creates a new stream from the given source array
+     * @param source
+     */
+    of<T>(source: T[]): AsyncStream<T> {
+        return AsyncPipelineStream.ofIterable(source);
+    },
+
+    /**
+     * Creates a new stream from the given source values
+     * @param values
+     */
+    ofValues<T>(...values: T[]): AsyncStream<T> {
+        return AsyncPipelineStream.ofIterable(values);
+    },
+
+    /**
+     * creates a stream of a single element with the given source value;
+     * @param value
+     */
+    ofValue<T>(value: T): AsyncStream<T> {
+        return AsyncPipelineStream.ofIterable([value]);
+    },
+
+    /**
+     * Creates a new stream from the given AsyncIterable (such as an async generator) or Iterable (such as
+     * a Stream, a generator or an array of Promises), values are only pulled from the iterable as they are
+     * needed by the stream.
+     * @param iterable
+     */
+    ofIterable<T>(iterable: AsyncIterable<T> | Iterable<T | Promise<T>>): AsyncStream<T> {
+        return AsyncPipelineStream.ofIterable(iterable);
+    },
+
+    /**
+     * Creates a new stream pulling its values from the given AsyncSource
+     * @param source
+     */
+    ofSource<T>(source: AsyncSource<T>): AsyncStream<T> {
+        return AsyncPipelineStream.ofSource(source);
+    },
+
+    /**
+     * creates an empty AsyncStream
+     */
+    empty<T>(): AsyncStream<T> {
+        return AsyncPipelineStream.ofIterable<T>([]);
+    },
+
+    /**
+     * generates a infinite stream where elements are generated
+     * by the given supplier, the supplier may return Promises.
+     * @param supplier
+     */
+    generate<T>(supplier: Supplier<T | Promise<T>>): AsyncStream<T> {
+        return AsyncPipelineStream.ofSource(AsyncSource.supplierSource(supplier));
+    },
+}
+
+class AsyncPipelineStream<S, T> implements AsyncStream<T>, AsyncStreamIterator<T> {
+    pipeline: AsyncProcessorPipeline<S, T>;
+
+    private constructor(pipeline: AsyncProcessorPipeline<S, T>) {
+        this.pipeline = pipeline;
+    }
+
+    private newPipeline<U>(processor: AsyncPipelineProcessor<T, U>): AsyncProcessorPipeline<S, U> {
+        return this.pipeline.addProcessor(processor);
+    }
+
+    public static ofIterable<S>(iterable: AsyncIterable<S> | Iterable<S | Promise<S>>): AsyncStream<S> {
+        return AsyncPipelineStream.ofSource(AsyncSource.iterableSource(iterable));
+    }
+
+    public static ofSource<S>(source: AsyncSource<S>): AsyncStream<S> {
+        return new AsyncPipelineStream<S, S>(AsyncProcessorPipeline.create(source));
+    }
+
+    //streamIterator methods
+    public hasNext(): Promise<boolean> {
+        return this.pipeline.hasNext();
+    }
+
+    public getNext(): Promise<Optional<T>> {
+        return this.pipeline.getNextResult();
+    }
+
+    public async next(): Promise<IteratorResult<T>> {
+        const next: Optional<T> = await this.getNext();
+        return next.isPresent()
+            ? { done: false, value: next.get() }
+            : doneResult();
+    }
+
+    public streamIterator(): AsyncStreamIterator<T> {
+        return this;
+    }
+
+    public [Symbol.asyncIterator](): AsyncStreamIterator<T> {
+        return this.streamIterator();
+    }
+
+    public async count(): Promise<number> {
+        let count = 0;
+        let nextItem: Optional<T> = await this.getNext();
+        while (nextItem.isPresent()) {
+            count++;
+            nextItem = await this.getNext();
+        }
+        return count;
+    }
+
+    public collect<R>(supplier: Supplier<R>, accumulator: BiConsumer<R, T>, combiner: BiConsumer<R, R>): Promise<R>;
+    public collect<R, A>(collector: Collector<T, A, R>): Promise<R>;
+    public async collect<R, A>(firstArg: Collector<T, A, R> | Supplier<R>, accumulator?: BiConsumer<R, T>, combiner?: BiConsumer<R, R>): Promise<R> {
+        const collector: Collector<T, any, R> = firstArg instanceof Collector
+            ? firstArg
+            : Collector.of(firstArg, <BiConsumer<R, T>>accumulator, (r1: R, r2: R) => {
+                (<BiConsumer<R, R>>combiner)(r1, r2);
+                return r1;
+            }, Function.identity());
+
+        const container = collector.supplier()();
+        let nextItem: Optional<T> = await this.getNext();
+        while (nextItem.isPresent()) {
+            const accumulated: void | PromiseLike<void> = collector.accumulator()(container, nextItem.get());
+            if (isThenable(accumulated)) {
+                await accumulated;
+            }
+            nextItem = await this.getNext();
+        }
+        return collector.finisher()(container);
+    }
+
+    public async findFirst(): Promise<Optional<T>> {
+        return this.getNext();
+    }
+
+    public async forEach(consumer: Consumer<T>): Promise<void> {
+        let nextItem: Optional<T> = await this.getNext();
+        while (nextItem.isPresent()) {
+            consumer(nextItem.get());
+            nextItem = await this.getNext();
+        }
+    }
+
+    public async reduce(accumulator: BiFunction<T>, initialValue?: T): Promise<Optional<T>> {
+        let currentValue: Optional<T> = Optional.ofNullable(initialValue);
+        let nextItem: Optional<T> = await this.getNext();
+        while (nextItem.isPresent()) {
+            if (currentValue.isPresent()) {
+                currentValue = Optional.of(accumulator(currentValue.get(), nextItem.get()));
+            } else {
+                currentValue = nextItem;
+            }
+            nextItem = await this.getNext();
+        }
+        return currentValue;
+    }
+
+    public toArray(): Promise<T[]> {
+        return this.collect(Collectors.toList());
+    }
+
+    public toReadable(): Readable {
+        return toReadable(this.streamIterator());
+    }
+
+    public pipeTo(writable: Writable): Promise<void> {
+        return pipeTo(this.streamIterator(), writable);
+    }
+
+    public map<U>(Function: Function<T, U | Promise<U>>): AsyncStream<U> {
+        const newPipeline = this.newPipeline<U>(Processor.mapProcessor(Function));
+        return new AsyncPipelineStream<S, U>(newPipeline);
+    }
+
+    public mapAsync<U>(Function: Function<T, U | Promise<U>>, options: MapAsyncOptions): AsyncStream<U> {
+        const newPipeline = this.newPipeline<U>(Processor.mapAsyncProcessor(Function, options));
+        return new AsyncPipelineStream<S, U>(newPipeline);
+    }
+
+    public peek(consumer: Consumer<T>): AsyncStream<T> {
+        const newPipeline = this.newPipeline<T>(Processor.peekProcessor(consumer));
+        return new AsyncPipelineStream<S, T>(newPipeline);
+    }
+
+    public flatMap<U>(Function: Function<T, AsyncStream<U>>): AsyncStream<U> {
+        return AsyncPipelineStream.ofSource(AsyncSource.flatMapSource(this.map(Function)));
+    }
+
+    public filter(predicate: Predicate<T>): AsyncStream<T> {
+        const newPipeline = this.newPipeline<T>(Processor.filterProcessor(predicate));
+        return new AsyncPipelineStream<S, T>(newPipeline);
+    }
+
+    public skip(n: number): AsyncStream<T> {
+        const newPipeline = this.newPipeline<T>(Processor.skipProcessor(n));
+        return new AsyncPipelineStream<S, T>(newPipeline);
+    }
+
+    public distinct(equalsFunction?: BiPredicate<T, T>): AsyncStream<T> {
+        const processor: Processor<T, T> = equalsFunction
+            ? Processor.distinctProcessor(equalsFunction)
+            : Processor.hashDistinctProcessor(Function.identity<T>(), BiPredicate.defaultEquality());
+        const newPipeline = this.newPipeline<T>(processor);
+        return new AsyncPipelineStream<S, T>(newPipeline);
+    }
+
+    public sorted(comparator?: Comparator<T>): AsyncStream<T> {
+        const comparatorToUse = comparator ? comparator : Comparator.default();
+        const newPipeline = this.newPipeline<T>(Processor.sortProcessor(comparatorToUse));
+        return new AsyncPipelineStream<S, T>(newPipeline);
+    }
+
+    public limit(maxSize: number): AsyncStream<T> {
+        const newPipeline = this.newPipeline<T>(Processor.limitProcessor(maxSize));
+        return new AsyncPipelineStream<S, T>(newPipeline);
+    }
+}
+
+/**
+ * an accumulator is typed as returning void, but may return a Promise to hold back the next element
+ */
+/**
+ * the result once there are no elements left, it holds no value, so it fits the IteratorResult of any element type
+ */
+const doneResult = (): IteratorResult<never> => <IteratorResult<never>>{ done: true, value: undefined };
+
+const isThenable = (value: void | PromiseLike<void>): value is PromiseLike<void> =>
+    !!value && typeof value.then === 'function';
+
+export default AsyncStream;
@@ -1,9 +1,15 @@
 import { Function, Supplier, BiConsumer, BiFunction, Comparator, Predicate } from "../functions";
 import { MutableString, MutableNumber, Holder, NumberSummaryStatistics } from './mutableCollections';
-import { Map } from '../map'
+import { Map, LinkedHashMap, MultiMap, ImmutableMap } from '../map'
+import { toDisplayString } from '../map/abstractMap';
+import { ImmutableList } from '../list';
+import { Set, HashSet, TreeSet } from '../set';
 import Optional from "../optional";
+import Result from "../result";
 import Stream from "../stream";
-import Errors from "../errors";
+import { IllegalStateException } from "../errors";
+import { WritableSink } from "../nodeStreams";
+import { Writable } from "stream";
 
 /**
  * A mutable reduction operation that accumulates input elements into a mutable result container, 
@@ -53,6 +59,14 @@ export class Collector<T, A, R> {
     }
 };
 
+/**
+ * the values of the successful Results and the errors of the failed Results, in encounter order, see Collectors.partitioningByResult
+ */
+export interface ResultPartition<T, E> {
+    successes: T[];
+    failures: E[];
+}
+
 /**
  * defines many useful collectors for easily reducing/collecting data together
  */
@@ -173,7 +187,22 @@ class Collectors {
      * @param downstream - a Collector implementing the downstream reduction
      */
     public static groupingBy<T, K, A, D>(classifier: Function<T, K>, downstream: Collector<T, A, D>): Collector<T, Map<K, T[]>, Map<K, D>>;
-    public static groupingBy<T, K, A, D>(classifier: Function<T, K>, downstream?: Collector<T, A, D>): Collector<T, Map<K, T[]>, Map<K, T[]>> | Collector<T, Map<K, T[]>, Map<K, D>> {
+    /**
+     * Returns a Collector implementing a cascaded "group by" operation on input elements of type T,
+     * grouping elements according to a classification function, and then performing a reduction operation 
+     * on the values associated with a given key using the specified downstream Collector.
+     * The Map produced by the Collector is created with the supplied factory function, for example
+     * LinkedHashMap.empty to keep the keys in the order they are first encountered, or TreeMap.empty to sort them.
+     * @param classifier - a classifier function mapping input elements to keys
+     * @param mapFactory - a supplier providing a new empty Map into which the results will be inserted
+     * @param downstream - a Collector implementing the downstream reduction
+     */
+    public static groupingBy<T, K, A, D, M extends Map<K, D>>(classifier: Function<T, K>, mapFactory: Supplier<M & Map<K, D>>, downstream: Collector<T, A, D>): Collector<T, Map<K, A | D>, M>;
+    public static groupingBy<T, K, A, D>(classifier: Function<T, K>, downstreamOrMapFactory?: Collector<T, A, D> | Supplier<Map<K, A | D>>, factoryDownstream?: Collector<T, A, D>): Collector<T, Map<K, T[]>, Map<K, T[]>> | Collector<T, Map<K, T[]>, Map<K, D>> | Collector<T, Map<K, A | D>, Map<K, A | D>> {
+        if (typeof downstreamOrMapFactory === 'function') {
+            return groupingInto(classifier, downstreamOrMapFactory, <Collector<T, A, D>>factoryDownstream);
+        }
+        const downstream: Collector<T, A, D> | undefined = downstreamOrMapFactory;
         const supplier: Supplier<Map<K, T[]>> = () => Map.empty<K, T[]>();
         const accumulator: BiConsumer<Map<K, T[]>, T> = (map, item) => map.merge(
             classifier(item),
@@ -181,12 +210,12 @@ class Collectors {
             (l1, l2) => l1.concat(l2),
         );
         const combiner: BiFunction<Map<K, T[]>> = (map1, map2) => {
-            map1.putAll(map2);
+            map2.forEach((key, list) => map1.merge(key, list, (l1, l2) => l1.concat(l2)));
             return map1;
         }
         if (downstream) {
             const finisher: Function<Map<K, T[]>, Map<K, D>> = (initial) => {
-                const newMap: Map<K, D> = Map.empty();
+                const newMap: Map<K, D> = Map.empty<K, D>();
                 initial.forEach((key, valList) =>
                     newMap.put(key, Stream.of(valList).collect(downstream))
                 );
@@ -316,7 +345,7 @@ class Collectors {
             (l1, l2) => l1.concat(l2),
         );
         const combiner: BiFunction<Map<boolean, T[]>> = (map1, map2) => {
-            map1.putAll(map2);
+            map2.forEach((key, list) => map1.merge(key, list, (l1, l2) => l1.concat(l2)));
             return map1;
         }
 
@@ -338,6 +367,22 @@ class Collectors {
         }
     }
 
+    /**
+     * Returns a Collector which partitions Results into the values of the successes and the errors of the failures,
+     * so the failures of a stream can be collected alongside its values instead of aborting it, see Stream.mapTry.
+     */
+    public static partitioningByResult<T, E>(): Collector<Result<T, E>, ResultPartition<T, E>, ResultPartition<T, E>> {
+        const supplier: Supplier<ResultPartition<T, E>> = () => ({ successes: [], failures: [] });
+        const accumulator: BiConsumer<ResultPartition<T, E>, Result<T, E>> = (partition, result) => result.isSuccess()
+            ? partition.successes.push(result.get())
+            : partition.failures.push(result.getError());
+        const combiner: BiFunction<ResultPartition<T, E>> = (partition1, partition2) => ({
+            successes: partition1.successes.concat(partition2.successes),
+            failures: partition1.failures.concat(partition2.failures),
+        });
+        return Collector.of(supplier, accumulator, combiner, Function.identity<ResultPartition<T, E>>());
+    }
+
     /**
     * Returns a Collector which performs a reduction of its input elements under a specified BinaryOperator. The result is described as an Optional<T>.
     * @param reducer - a BinaryOperator<T> used to reduce the input elements
@@ -455,8 +500,19 @@ class Collectors {
      * @param merger - a merge function, used to resolve collisions between values associated with the same key, as supplied to Map.merge(Object, Object, BiFunction)
      */
     public static toMap<I, K, V>(keyMapper: Function<I, K>, valueMapper: Function<I, V>, merger: BiFunction<V>): Collector<I, Map<K, V>, Map<K, V>>;
-    public static toMap<I, K, V>(keyMapper: Function<I, K>, valueMapper: Function<I, V>, merger?: BiFunction<V>): Collector<I, Map<K, V>, Map<K, V>> {
-        const supplier: Supplier<Map<K, V>> = Map.empty;
+    /**
+     * Returns a Collector that accumulates elements into a Map whose keys and values are the result of applying 
+     * the provided mapping functions to the input elements. If the mapped keys contains duplicates,
+     * the value mapping function is applied to each equal element, and the results are merged using the provided merging function.
+     * The Map is created by the provided supplier function.
+     * @param keyMapper - a mapping function to produce keys
+     * @param valueMapper - a mapping function to produce values
+     * @param merger - a merge function, used to resolve collisions between values associated with the same key, as supplied to Map.merge(Object, Object, BiFunction)
+     * @param mapFactory - a supplier providing a new empty Map into which the results will be inserted
+     */
+    public static toMap<I, K, V, M extends Map<K, V>>(keyMapper: Function<I, K>, valueMapper: Function<I, V>, merger: BiFunction<V>, mapFactory: Supplier<M & Map<K, V>>): Collector<I, M, M>;
+    public static toMap<I, K, V>(keyMapper: Function<I, K>, valueMapper: Function<I, V>, merger?: BiFunction<V>, mapFactory?: Supplier<Map<K, V>>): Collector<I, Map<K, V>, Map<K, V>> {
+        const supplier: Supplier<Map<K, V>> = mapFactory ? mapFactory : Map.empty;
         const accumulator: BiConsumer<Map<K, V>, I> = (map, input) => {
             const key = keyMapper(input);
             const value = valueMapper(input);
@@ -464,27 +520,157 @@ class Collectors {
                 if (merger) {
                     map.merge(key, value, merger);
                 } else {
-                    throw new Error(Errors.IllegalStateException);
+                    throw new IllegalStateException(`duplicate key ${toDisplayString(key)}`);
                 }
             } else {
                 map.put(key, value);
             }
         }
         const combiner: BiFunction<Map<K, V>> = (m1, m2) => {
-            m1.putAll(m2);
+            m2.forEach((key, value) => {
+                if (m1.containsKey(key)) {
+                    if (merger) {
+                        m1.merge(key, value, merger);
+                    } else {
+                        throw new IllegalStateException(`duplicate key ${toDisplayString(key)}`);
+                    }
+                } else {
+                    m1.put(key, value);
+                }
+            });
             return m1;
         }
 
         return Collector.of(supplier, accumulator, combiner, Function.identity());
     }
 
+    /**
+     * Returns a Collector that accumulates elements into a MultiMap whose keys and values are the result of applying
+     * the provided mapping functions to the input elements, every element adds one value to the values of its key.
+     * @param keyMapper - a mapping function to produce keys
+     * @param valueMapper - a mapping function to produce values
+     */
+    public static toMultiMap<I, K, V>(keyMapper: Function<I, K>, valueMapper: Function<I, V>): Collector<I, MultiMap<K, V>, MultiMap<K, V>>;
+    /**
+     * Returns a Collector that accumulates elements into a MultiMap whose keys and values are the result of applying
+     * the provided mapping functions to the input elements, every element adds one value to the values of its key.
+     * The MultiMap is created by the provided supplier function, for example MultiMap.setBacked to drop duplicate values of a key.
+     * @param keyMapper - a mapping function to produce keys
+     * @param valueMapper - a mapping function to produce values
+     * @param multiMapFactory - a supplier providing a new empty MultiMap into which the results will be inserted
+     */
+    public static toMultiMap<I, K, V>(keyMapper: Function<I, K>, valueMapper: Function<I, V>, multiMapFactory: Supplier<MultiMap<K, V>>): Collector<I, MultiMap<K, V>, MultiMap<K, V>>;
+    public static toMultiMap<I, K, V>(keyMapper: Function<I, K>, valueMapper: Function<I, V>, multiMapFactory?: Supplier<MultiMap<K, V>>): Collector<I, MultiMap<K, V>, MultiMap<K, V>> {
+        const supplier: Supplier<MultiMap<K, V>> = multiMapFactory ? multiMapFactory : () => MultiMap.listBacked<K, V>();
+        const accumulator: BiConsumer<MultiMap<K, V>, I> = (multiMap, input) => multiMap.put(keyMapper(input), valueMapper(input));
+        const combiner: BiFunction<MultiMap<K, V>> = (m1, m2) => {
+            m2.forEach((key, value) => m1.put(key, value));
+            return m1;
+        }
+        return Collector.of(supplier, accumulator, combiner, Function.identity());
+    }
+
+    /**
+     * Returns a Collector that accumulates the input elements into a new HashSet, dropping duplicate elements.
+     */
+    public static toSet<T>(): Collector<T, Set<T>, Set<T>> {
+        return Collectors.toSetOf(() => HashSet.empty<T>());
+    }
+
+    /**
+     * Returns a Collector that accumulates the input elements into a new TreeSet, ordered by the given comparator,
+     * or Comparator.default() if none is given. Elements for which the comparator returns 0 are duplicates.
+     * @param comparator - a Comparator for ordering the elements
+     */
+    public static toTreeSet<T>(comparator?: Comparator<T>): Collector<T, Set<T>, Set<T>> {
+        return Collectors.toSetOf(() => TreeSet.empty<T>(comparator));
+    }
+
+    private static toSetOf<T>(supplier: Supplier<Set<T>>): Collector<T, Set<T>, Set<T>> {
+        const accumulator: BiConsumer<Set<T>, T> = (set, item) => set.add(item);
+        const combiner: BiFunction<Set<T>> = (set1, set2) => {
+            set1.addAll(set2);
+            return set1;
+        }
+        return Collector.of(supplier, accumulator, combiner, Function.identity());
+    }
+
+    /**
+     * Returns a Collector that accumulates the input elements into an ImmutableList, in encounter order.
+     */
+    public static toUnmodifiableList<T>(): Collector<T, T[], ImmutableList<T>> {
+        return Collectors.collectingAndThen(Collectors.toList<T>(), list => ImmutableList.copyOf(list));
+    }
+
+    /**
+     * Returns a Collector that accumulates elements into an ImmutableMap whose keys and values are the result of applying
+     * the provided mapping functions to the input elements.
+     * If the mapped keys contains duplicates an IllegalStateException is thrown when the collection operation is performed,
+     * unless a merger is given, see toMap.
+     * @param keyMapper - a mapping function to produce keys
+     * @param valueMapper - a mapping function to produce values
+     * @param merger - a merge function, used to resolve collisions between values associated with the same key
+     */
+    public static toUnmodifiableMap<I, K, V>(keyMapper: Function<I, K>, valueMapper: Function<I, V>, merger?: BiFunction<V>): Collector<I, Map<K, V>, ImmutableMap<K, V>> {
+        const toMap: Collector<I, Map<K, V>, Map<K, V>> = merger
+            ? Collectors.toMap(keyMapper, valueMapper, merger)
+            : Collectors.toMap(keyMapper, valueMapper);
+        return Collectors.collectingAndThen(toMap, map => Map.copyOf(map));
+    }
+
+    /**
+     * Returns a Collector that accumulates the input elements into an unmodifiable Set, dropping duplicate elements, see Set.copyOf.
+     */
+    public static toUnmodifiableSet<T>(): Collector<T, Set<T>, Set<T>> {
+        return Collectors.collectingAndThen(Collectors.toSet<T>(), set => Set.copyOf(set));
+    }
 
+    /**
+     * Returns a Collector that writes the input elements to the given Node.js Writable, finishing with a Promise that 
+     * resolves once the writable has been ended and all the elements have been flushed, or rejects if the writable fails.
+     * When collecting an AsyncStream, the next element is not written until the writable has drained its full buffer,
+     * a (synchronous) Stream can not wait, so all of its elements are buffered by the writable, see Stream.pipeTo.
+     * When collecting a parallel Stream, the chunks are accumulated one after the other, so the elements are still
+     * written in encounter order.
+     * @param writable object mode (or string/Buffer accepting) Writable to write the elements to
+     */
+    public static toWritable<T>(writable: Writable): Collector<T, WritableSink<T>, Promise<void>> {
+        return Collector.of(
+            () => new WritableSink<T>(writable),
+            (sink: WritableSink<T>, value: T) => sink.write(value),
+            (sink1: WritableSink<T>, sink2: WritableSink<T>) => sink1.append(sink2),
+            (sink: WritableSink<T>) => sink.end()
+        );
+    }
 
     //v2 
     //countingBy(keyMapper: Transfromer<T, string>) counts values based on the keys returned by the mapper when feeding elements through
     //countingBy(equalityFn?) groups elements and counts them based on equality function
 };
 
+/**
+ * a grouping collector that accumulates the elements straight into the map created by the factory, so that the
+ * keys are grouped using the map's own key equality (i.e. the comparator of a TreeMap). Each key holds the downstream
+ * container of its group until the finisher replaces the containers with their finished results, which is why the
+ * factory's map is typed as holding both, the groupingBy overload hands it back to the caller as a map of results.
+ */
+function groupingInto<T, K, A, D>(classifier: Function<T, K>, mapFactory: Supplier<Map<K, A | D>>, downstream: Collector<T, A, D>): Collector<T, Map<K, A | D>, Map<K, A | D>> {
+    const containerOf = (groups: Map<K, A | D>, key: K): A => <A>groups.computeIfAbsent(key, () => downstream.supplier()());
+    const accumulator: BiConsumer<Map<K, A | D>, T> = (groups, item) =>
+        downstream.accumulator()(containerOf(groups, classifier(item)), item);
+    const combiner: BiFunction<Map<K, A | D>> = (groups1, groups2) => {
+        groups2.forEach((key, container) => groups1.put(key, groups1.containsKey(key)
+            ? downstream.combiner()(containerOf(groups1, key), <A>container)
+            : container));
+        return groups1;
+    };
+    const finisher: Function<Map<K, A | D>, Map<K, A | D>> = (groups) => {
+        groups.replaceAll((key, container) => downstream.finisher()(<A>container));
+        return groups;
+    };
+    return Collector.of(mapFactory, accumulator, combiner, finisher);
+}
+
 //return the largest of two values based on the comparator, first if they are equal
 function returnLargest<I>(first: I, second: I, comparator: Comparator<I>): I {
     return comparator(first, second) < 0
@@ -1,4 +1,5 @@
 import Optional from "../optional";
+import { IllegalArgumentException } from "../errors";
 
 /**
  * A state object for collecting statistics such as count, min, max, sum, and average.
@@ -45,7 +46,7 @@ export class NumberSummaryStatistics {
     public combine(other: NumberSummaryStatistics): void {
         this.sum = this.sum + other.getSum();
         this.count = this.count + other.count;
-        this.average = this.sum / this.count;
+        this.average = this.count > 0 ? this.sum / this.count : 0;
         this.min = this.min < other.getMin() ? this.min : other.getMin();
         this.max = this.max > other.getMax() ? this.max : other.getMax();         
     }
@@ -139,7 +140,7 @@ export class MutableNumber {
 
     public addTogether(other: MutableNumber): MutableNumber {
         const newInputs = this.inputs.concat(other.getInputs());
-        const newTotal = this.total + this.getTotal();
+        const newTotal = this.total + other.getTotal();
         return new MutableNumber(newInputs, newTotal);
     }
 
@@ -169,4 +170,51 @@ export class Holder<T> {
     public set(item: T): void {
         this.item = item;
     }
+}
+
+/**
+ * A fixed capacity buffer that keeps only the most recently added items, once full, 
+ * adding an item overwrites the oldest item.
+ */
+export class RingBuffer<T> {
+    private items: T[];
+    private capacity: number;
+    private start: number;
+
+    private constructor(capacity: number) {
+        this.items = [];
+        this.capacity = capacity;
+        this.start = 0;
+    }
+
+    /**
+     * creates a new, empty RingBuffer holding at most capacity items,
+     * throws an IllegalArgumentException if capacity is not a non-negative integer
+     */
+    public static ofCapacity<T>(capacity: number): RingBuffer<T> {
+        if (!Number.isInteger(capacity) || capacity < 0) {
+            throw new IllegalArgumentException(`ring buffer capacity must be a non-negative integer, got ${capacity}`);
+        }
+        return new RingBuffer<T>(capacity);
+    }
+
+    public add(item: T): void {
+        if (this.items.length < this.capacity) {
+            this.items.push(item);
+        } else if (this.capacity > 0) {
+            this.items[this.start] = item;
+            this.start = (this.start + 1) % this.capacity;
+        }
+    }
+
+    public size(): number {
+        return this.items.length;
+    }
+
+    /**
+     * returns the items in the buffer, from the oldest to the most recently added
+     */
+    public toArray(): T[] {
+        return this.items.slice(this.start).concat(this.items.slice(0, this.start));
+    }
 }
\ No newline at end of file
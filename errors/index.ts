@@ -2,6 +2,120 @@ export enum Errors {
 	NoSuchElementException = 'NoSuchElementException',
 	NullPointerException = 'NullPointerException',
 	IllegalStateException = 'IllegalStateException',
+	IllegalArgumentException = 'IllegalArgumentException',
+	UnsupportedOperationException = 'UnsupportedOperationException',
+	IndexOutOfBoundsException = 'IndexOutOfBoundsException',
+	ConcurrentModificationException = 'ConcurrentModificationException',
 };
 
-export default Errors;
\ No newline at end of file
+/**
+ * Base class of the exceptions thrown by this library, the name of an exception is its Errors value, and its message
+ * starts with the name followed by a description of what went wrong, so existing checks of the message against
+ * the Errors values still match. The error that caused the exception, if any, is kept as the cause.
+ */
+export class Exception extends Error {
+	public readonly cause: any;
+
+	constructor(type: Errors, message?: string, cause?: any) {
+		super(message ? `${type}: ${message}` : type);
+		Object.setPrototypeOf(this, new.target.prototype);
+		this.name = type;
+		this.cause = cause;
+	}
+}
+
+/**
+ * Thrown when a value is requested that does not exist, such as the value of an empty Optional.
+ */
+export class NoSuchElementException extends Exception {
+	constructor(message?: string, cause?: any) {
+		super(Errors.NoSuchElementException, message, cause);
+	}
+}
+
+/**
+ * Thrown when null or undefined is given where a value is required.
+ */
+export class NullPointerException extends Exception {
+	constructor(message?: string, cause?: any) {
+		super(Errors.NullPointerException, message, cause);
+	}
+}
+
+/**
+ * Thrown when an operation is not valid for the current state of an object.
+ */
+export class IllegalStateException extends Exception {
+	constructor(message?: string, cause?: any) {
+		super(Errors.IllegalStateException, message, cause);
+	}
+}
+
+/**
+ * Thrown when a method is given an argument it does not accept.
+ */
+export class IllegalArgumentException extends Exception {
+	constructor(message?: string, cause?: any) {
+		super(Errors.IllegalArgumentException, message, cause);
+	}
+}
+
+/**
+ * Thrown when a method is not supported by an object, such as a method that would change an unmodifiable collection.
+ */
+export class UnsupportedOperationException extends Exception {
+	constructor(message?: string, cause?: any) {
+		super(Errors.UnsupportedOperationException, message, cause);
+	}
+}
+
+/**
+ * Thrown when an index is outside of the bounds of a list.
+ */
+export class IndexOutOfBoundsException extends Exception {
+	constructor(message?: string, cause?: any) {
+		super(Errors.IndexOutOfBoundsException, message, cause);
+	}
+}
+
+/**
+ * Thrown when a collection is changed while it is being iterated over, in a way the iteration can not handle.
+ */
+export class ConcurrentModificationException extends Exception {
+	constructor(message?: string, cause?: any) {
+		super(Errors.ConcurrentModificationException, message, cause);
+	}
+}
+
+const describeElement = (element: any): string => {
+	try {
+		return typeof element === 'object' && element !== null ? JSON.stringify(element) : String(element);
+	} catch (e) {
+		return String(element);
+	}
+}
+
+/**
+ * Given to the error policy of a stream when an operation fails, wrapping the error thrown by the operation (the cause) together with
+ * the position of the operation in the stream (the stage, 0 being the source and 1 the first operation after it),
+ * the name of the operation and the element it was processing. The element is undefined when the failure can not
+ * be tied to a single element, such as in the comparator of sorted.
+ */
+export class StreamProcessingError extends Error {
+	public readonly cause: any;
+	public readonly stage: number;
+	public readonly stageName: string;
+	public readonly element: any;
+
+	constructor(cause: any, stage: number, stageName: string, element?: any) {
+		super(`${stageName} (stage ${stage}) failed${element === undefined ? '' : ` on element ${describeElement(element)}`}: ${cause instanceof Error ? cause.message : String(cause)}`);
+		Object.setPrototypeOf(this, StreamProcessingError.prototype);
+		this.name = 'StreamProcessingError';
+		this.cause = cause;
+		this.stage = stage;
+		this.stageName = stageName;
+		this.element = element;
+	}
+}
+
+export default Errors;
@@ -39,6 +39,12 @@ export type Transformer<T, U> = Function<T, U>;
  */
 export type Supplier<T> = () => T;
 
+/**
+ * Functional Type: 
+ * Defines a function that takes no arguments and returns nothing, run only for its side effects
+ */
+export type Runnable = () => void;
+
 /**
  * Functional Type: 
  * Defines a function that takes two arguments of types T and U, that consumes the given values 
@@ -53,6 +59,13 @@ export type BiConsumer<T, U> = (t: T, u: U) => void;
  */
 export type BiFunction<T> = (t1: T, t2: T) => T;
 
+/**
+ * Functional Type: 
+ * Defines a function that takes two arguments of types T and U, and combines them into
+ * a value of type R
+ */
+export type Combiner<T, U, R> = (t: T, u: U) => R;
+
 /**
  * Functional Type: 
  * Alias of BiFunction,
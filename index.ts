@@ -1,32 +1,86 @@
-import Collectors, { Collector } from './collectors';
+import Collectors, { Collector, ResultPartition } from './collectors';
 import Optional from './optional';
-import Stream, { StreamIterator } from './stream';
-import Errors from './errors';
-import { Comparator, Consumer, BiConsumer, BiFunction, BiPredicate, Function, Supplier, Predicate } from './functions';
-import { Map, Entry } from './map';
+import Result from './result';
+import Stream, { StreamIterator, NumberStream, StreamSupplier } from './stream';
+import AsyncStream, { AsyncStreamIterator } from './asyncStream';
+import { Source, SplittableSource, CloseableSource } from './source';
+import Errors, {
+    Exception,
+    NoSuchElementException,
+    NullPointerException,
+    IllegalStateException,
+    IllegalArgumentException,
+    UnsupportedOperationException,
+    IndexOutOfBoundsException,
+    ConcurrentModificationException,
+    StreamProcessingError,
+} from './errors';
+import { Comparator, Consumer, BiConsumer, BiFunction, BiPredicate, Combiner, Function, Supplier, Predicate, Runnable } from './functions';
+import { Map, Entry, HashMapOptions, TreeMap, LinkedHashMap, LinkedHashMapOptions, MultiMap, IdentityHashMap, ImmutableMap } from './map';
+import { ImmutableList } from './list';
+import { Set, HashSet, TreeSet } from './set';
 import { NumberSummaryStatistics } from './collectors/mutableCollections'
+import { MapAsyncOptions } from './processor';
+import { ErrorPolicy } from './processorPipeline';
 
 export {
     Collector,
     Collectors,
+    ResultPartition,
 
     Optional,
+    Result,
 
     Stream,
     StreamIterator,
+    NumberStream,
+    StreamSupplier,
+    Source,
+    SplittableSource,
+    CloseableSource,
+
+    AsyncStream,
+    AsyncStreamIterator,
+    MapAsyncOptions,
+    ErrorPolicy,
 
     Errors,
+    Exception,
+    NoSuchElementException,
+    NullPointerException,
+    IllegalStateException,
+    IllegalArgumentException,
+    UnsupportedOperationException,
+    IndexOutOfBoundsException,
+    ConcurrentModificationException,
+    StreamProcessingError,
 
     Comparator,
     Consumer,
     BiConsumer,
     BiFunction,
     BiPredicate,
+    Combiner,
     Function,
     Supplier,
     Predicate,
+    Runnable,
 
     Map,
     Entry,
+    HashMapOptions,
+    TreeMap,
+    LinkedHashMap,
+    LinkedHashMapOptions,
+    MultiMap,
+    IdentityHashMap,
+    ImmutableMap,
+
+    ImmutableList,
+
+    Set,
+    HashSet,
+    TreeSet,
+
     NumberSummaryStatistics
 };
\ No newline at end of file
@@ -0,0 +1,188 @@
+import Stream from '../stream';
+import { BiPredicate, Consumer } from '../functions';
+import { IndexOutOfBoundsException } from '../errors';
+
+/**
+ * An ordered list of values that can not be changed. with, without and append return a new ImmutableList
+ * with the change, which shares most of its structure with the original list, so updates do not copy the whole list.
+ */
+export interface ImmutableList<T> {
+    /**
+     * returns the value at the index, throws an IndexOutOfBoundsException if the index is not in the list
+     * @param index
+     */
+    get(index: number): T;
+
+    size(): number;
+    isEmpty(): boolean;
+
+    /**
+     * returns true if the list contains the value, compared with the equality test or === if none is given
+     * @param value
+     * @param equalityTest
+     */
+    contains(value: T, equalityTest?: BiPredicate<T, T>): boolean;
+
+    /**
+     * returns the index of the first occurrence of the value, compared with ===, or -1 if it is not in the list
+     * @param value
+     */
+    indexOf(value: T): number;
+
+    /**
+     * returns a new list with the value at the index replaced, throws an IndexOutOfBoundsException if the index is not in the list
+     * @param index
+     * @param value
+     */
+    with(index: number, value: T): ImmutableList<T>;
+
+    /**
+     * returns a new list without the value at the index, throws an IndexOutOfBoundsException if the index is not in the list.
+     * the values after the index are shifted, so unlike with and append this copies the list.
+     * @param index
+     */
+    without(index: number): ImmutableList<T>;
+
+    /**
+     * returns a new list with the value added to the end
+     * @param value
+     */
+    append(value: T): ImmutableList<T>;
+
+    /**
+     * returns a new array containing the values of the list, changes to the array do not affect the list
+     */
+    toArray(): T[];
+    stream(): Stream<T>;
+    forEach(consumer: Consumer<T>): void;
+}
+
+export const ImmutableList = {
+    /**
+     * returns an empty ImmutableList
+     */
+    empty<T>(): ImmutableList<T> {
+        return new VectorTrieList<T>([], 0, 0);
+    },
+
+    /**
+     * returns an ImmutableList of the given values
+     * @param values
+     */
+    of<T>(...values: T[]): ImmutableList<T> {
+        return ImmutableList.copyOf(values);
+    },
+
+    /**
+     * returns an ImmutableList of the values in the given array, changes to the array do not affect the list
+     * @param values
+     */
+    copyOf<T>(values: T[]): ImmutableList<T> {
+        return values.reduce((list: ImmutableList<T>, value) => list.append(value), ImmutableList.empty<T>());
+    },
+}
+
+const BITS = 5;
+const WIDTH = 1 << BITS;
+const MASK = WIDTH - 1;
+
+/**
+ * a node of the trie, the nodes at the bottom level hold the values, the nodes above hold the nodes below them
+ */
+interface TrieNode<T> extends Array<T | TrieNode<T>> {}
+
+/**
+ * returns a copy of the node with the value set at the index, copying only the nodes on the path to the index
+ */
+function setIn<T>(node: TrieNode<T>, shift: number, index: number, value: T): TrieNode<T> {
+    const copy = node.slice();
+    const position = (index >>> shift) & MASK;
+    copy[position] = shift === 0
+        ? value
+        : setIn(node[position] ? <TrieNode<T>>node[position] : [], shift - BITS, index, value);
+    return copy;
+}
+
+/**
+ * ImmutableList stored in a persistent vector trie, a tree that branches on 5 bits of the index at every level,
+ * updates copy the nodes on the path to the index and share the rest with the original list.
+ */
+class VectorTrieList<T> implements ImmutableList<T> {
+    private root: TrieNode<T>;
+    private shift: number;
+    private count: number;
+
+    public constructor(root: TrieNode<T>, shift: number, count: number) {
+        this.root = root;
+        this.shift = shift;
+        this.count = count;
+    }
+
+    public get(index: number): T {
+        this.checkIndex(index);
+        let node = this.root;
+        for (let shift = this.shift; shift > 0; shift -= BITS) {
+            node = <TrieNode<T>>node[(index >>> shift) & MASK];
+        }
+        return <T>node[index & MASK];
+    }
+
+    public size(): number {
+        return this.count;
+    }
+
+    public isEmpty(): boolean {
+        return this.count === 0;
+    }
+
+    public contains(value: T, equalityTest?: BiPredicate<T, T>): boolean {
+        const equalityTestToUse = equalityTest ? equalityTest : BiPredicate.defaultEquality();
+        return this.stream()
+            .anyMatch(v => equalityTestToUse(v, value));
+    }
+
+    public indexOf(value: T): number {
+        return this.toArray().indexOf(value);
+    }
+
+    public with(index: number, value: T): ImmutableList<T> {
+        this.checkIndex(index);
+        return new VectorTrieList<T>(setIn(this.root, this.shift, index, value), this.shift, this.count);
+    }
+
+    public without(index: number): ImmutableList<T> {
+        this.checkIndex(index);
+        const values = this.toArray();
+        values.splice(index, 1);
+        return ImmutableList.copyOf(values);
+    }
+
+    public append(value: T): ImmutableList<T> {
+        const isFull = this.count === 1 << (this.shift + BITS);
+        const root: TrieNode<T> = isFull ? [this.root] : this.root;
+        const shift = isFull ? this.shift + BITS : this.shift;
+        return new VectorTrieList<T>(setIn(root, shift, this.count, value), shift, this.count + 1);
+    }
+
+    public toArray(): T[] {
+        const values: T[] = [];
+        for (let index = 0; index < this.count; index++) {
+            values.push(this.get(index));
+        }
+        return values;
+    }
+
+    public stream(): Stream<T> {
+        return Stream.of(this.toArray());
+    }
+
+    public forEach(consumer: Consumer<T>): void {
+        this.toArray().forEach(value => consumer(value));
+    }
+
+    private checkIndex(index: number): void {
+        if (index < 0 || index >= this.count || Math.floor(index) !== index) {
+            throw new IndexOutOfBoundsException(`index ${index} is out of bounds for a list of size ${this.count}`);
+        }
+    }
+}
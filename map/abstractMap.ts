@@ -0,0 +1,223 @@
+import Stream from '../stream';
+import * as hash from 'js-hash-code';
+import { BiPredicate, BiConsumer, BiFunction, Combiner, Function, Supplier } from '../functions';
+import { Set } from '../set';
+import Optional from '../optional';
+import { NullPointerException } from '../errors';
+import { Map, Entry } from '.';
+import { structuralEquality } from './hashIndex';
+
+export function throwIfNull(val: any): void {
+    Optional.ofNullable(val)
+        .orElseThrow(() => new NullPointerException('null and undefined keys are not allowed'));
+}
+
+/**
+ * returns a number derived from the hash of the value, values with the same hash have the same hash code
+ */
+export function hashCodeOf(val: any): number {
+    return parseInt(hash(val), 16) | 0;
+}
+
+/**
+ * returns true if the values are structurally equal, values with different hashes are known to be different 
+ * without comparing them
+ */
+export function valuesEqual(first: any, second: any): boolean {
+    return hash(first) === hash(second) && structuralEquality(first, second);
+}
+
+/**
+ * returns the value as a string for the toString of maps and entries, plain objects and arrays
+ * are written as JSON, everything else uses its own toString
+ */
+export function toDisplayString(val: any): string {
+    const isPlainData = Array.isArray(val) || (typeof val === 'object' && val !== null && val.toString === Object.prototype.toString);
+    return isPlainData ? JSON.stringify(val) : String(val);
+}
+
+/**
+ * Implements the parts of the Map interface that can be built on top of the
+ * basic storage and retrieval of entries, shared by all the Map implementations.
+ */
+export abstract class AbstractMap<K, V> implements Map<K, V> {
+
+    abstract clear(): void;
+    abstract get(key: K): V | null;
+    abstract put(key: K, value: V): V | null;
+    abstract containsKey(key: K): boolean;
+    abstract entrySet(): Entry<K, V>[];
+
+    /**
+     * removes the key from the map, returns its value or null if the key was not in the map
+     */
+    protected abstract removeKey(key: K): V | null;
+
+    public isEmpty(): boolean {
+        return this.entrySet().length === 0;
+    }
+
+    public size(): number {
+        return this.entrySet().length;
+    }
+
+    public putIfAbsent(key: K, value: V): V | null {
+        throwIfNull(key);
+        if (this.containsKey(key)) {
+            return this.get(key);
+        } else {
+            this.put(key, value);
+            return null;
+        }
+    }
+
+    public putAll(map: Map<K, V>): void {
+        map.forEach((key, value) => this.put(key, value))
+    }
+
+    public getOptional(key: K): Optional<V> {
+        const value = this.get(key);
+        return value !== null
+            ? Optional.ofNullable(value)
+            : Optional.empty();
+    }
+
+    public getOrDefault(key: K, defaultVal: V): V {
+        return this.getOptional(key)
+            .orElse(defaultVal);
+    }
+
+    public values(): V[] {
+        return this.entrySet()
+            .map(e => e.getValue());
+    }
+
+    public keySet(): K[];
+    public keySet<S extends Set<K>>(setFactory: Supplier<S>): S;
+    public keySet<S extends Set<K>>(setFactory?: Supplier<S>): K[] | S {
+        const keys = this.entrySet()
+            .map(e => e.getKey());
+        if (setFactory) {
+            const set = setFactory();
+            keys.forEach(key => set.add(key));
+            return set;
+        }
+        return keys;
+    }
+
+    public keyStream(): Stream<K> {
+        return Stream.of(this.keySet());
+    }
+
+    public valueStream(): Stream<V> {
+        return Stream.of(this.values());
+    }
+
+    public entryStream(): Stream<Entry<K, V>> {
+        return Stream.of(this.entrySet());
+    }
+
+    public containsValue(value: V, equalityTest?: BiPredicate<V, V>): boolean {
+        const equalityTestToUse = equalityTest ? equalityTest : BiPredicate.defaultEquality();
+        return this.valueStream()
+            .anyMatch(v => equalityTestToUse(v, value));
+    }
+
+    public forEach(consumer: BiConsumer<K, V>): void {
+        this.entrySet()
+            .forEach(({ key, value }) => consumer(key, value));
+    }
+
+    public merge(key: K, value: V, remappingFunction: BiFunction<V>): V | null {
+        const oldValue: Optional<V> = this.getOptional(key);
+        const newValue: V = oldValue.isPresent()
+            ? remappingFunction(oldValue.get(), value)
+            : value;
+        if (newValue === null) {
+            this.remove(key);
+        } else {
+            this.put(key, newValue);
+        }
+        return newValue;
+    }
+
+    public remove(key: K): V | null;
+    public remove(key: K, value: V): boolean;
+    public remove(key: K, value?: V): V | null | boolean {
+        if (value === undefined) {
+            return this.removeKey(key);
+        }
+        if (this.containsKey(key) && this.get(key) === value) {
+            this.removeKey(key);
+            return true;
+        }
+        return false;
+    }
+
+    public compute(key: K, remappingFunction: Combiner<K, V | null, V | null>): V | null {
+        return this.putOrRemove(key, remappingFunction(key, this.get(key)));
+    }
+
+    public computeIfAbsent(key: K, mappingFunction: Function<K, V>): V;
+    public computeIfAbsent(key: K, mappingFunction: Function<K, V | null>): V | null;
+    public computeIfAbsent(key: K, mappingFunction: Function<K, V | null>): V | null {
+        const oldValue: Optional<V> = this.getOptional(key);
+        if (oldValue.isPresent()) {
+            return oldValue.get();
+        }
+        return this.putOrRemove(key, mappingFunction(key));
+    }
+
+    public computeIfPresent(key: K, remappingFunction: Combiner<K, V, V | null>): V | null {
+        const oldValue: Optional<V> = this.getOptional(key);
+        if (!oldValue.isPresent()) {
+            return null;
+        }
+        return this.putOrRemove(key, remappingFunction(key, oldValue.get()));
+    }
+
+    public replace(key: K, value: V): V | null;
+    public replace(key: K, oldValue: V, newValue: V): boolean;
+    public replace(key: K, valueOrOldValue: V, newValue?: V): V | null | boolean {
+        if (newValue === undefined) {
+            return this.containsKey(key)
+                ? this.put(key, valueOrOldValue)
+                : null;
+        }
+        if (this.containsKey(key) && this.get(key) === valueOrOldValue) {
+            this.put(key, newValue);
+            return true;
+        }
+        return false;
+    }
+
+    public replaceAll(Function: Combiner<K, V, V>): void {
+        this.entrySet()
+            .forEach(({ key, value }) => this.put(key, Function(key, value)));
+    }
+
+    public equals(other: Map<K, V>): boolean {
+        const entries = this.entrySet();
+        return entries.length === other.entrySet().length && entries
+            .every(({ key, value }) => other.containsKey(key) && valuesEqual(other.get(key), value));
+    }
+
+    public hashCode(): number {
+        return this.entrySet()
+            .reduce((total, entry) => (total + entry.hashCode()) | 0, 0);
+    }
+
+    // puts the computed value, or removes the key if there is none, returns the computed value or null
+    private putOrRemove(key: K, value: V | null | undefined): V | null {
+        if (value === null || value === undefined) {
+            this.removeKey(key);
+            return null;
+        }
+        this.put(key, value);
+        return value;
+    }
+
+    public toString(): string {
+        return `{${this.entrySet().map(entry => entry.toString()).join(', ')}}`;
+    }
+}
@@ -0,0 +1,116 @@
+import * as hash from 'js-hash-code';
+import { BiPredicate, Function } from '../functions';
+import Optional from '../optional';
+import { HashMapOptions } from '.';
+
+interface IndexEntry<K, T> {
+    key: K;
+    value: T;
+}
+
+/**
+ * returns true if both values are ===, or are objects of the same type whose own fields are structurally equal
+ */
+export function structuralEquality(first: any, second: any): boolean {
+    if (first === second || (first !== first && second !== second)) {
+        return true;
+    }
+    if (typeof first !== 'object' || typeof second !== 'object' || first === null || second === null) {
+        return false;
+    }
+    if (Object.getPrototypeOf(first) !== Object.getPrototypeOf(second)) {
+        return false;
+    }
+    if (first instanceof Date) {
+        return first.getTime() === second.getTime();
+    }
+    const firstKeys = Object.keys(first);
+    return firstKeys.length === Object.keys(second).length && firstKeys
+        .every(key => second.hasOwnProperty(key) && structuralEquality(first[key], second[key]));
+}
+
+/**
+ * Lookup table from keys to values of type T, used by the hash based maps. Keys are grouped in buckets by their hash,
+ * and compared with the equality function within a bucket, so keys with colliding hashes are kept apart.
+ * By default keys are hashed with js-hash-code and compared structurally.
+ */
+export class HashIndex<K, T> {
+    private buckets: {
+        [hash: string]: IndexEntry<K, T>[]
+    };
+    private hashFunction: Function<K, string | number>;
+    private equality: BiPredicate<K, K>;
+    private count: number;
+
+    public constructor(options: HashMapOptions<K>) {
+        this.buckets = Object.create(null);
+        this.count = 0;
+        this.hashFunction = options.hash ? options.hash : hash;
+        this.equality = options.equals ? options.equals : structuralEquality;
+    }
+
+    public get(key: K): Optional<T> {
+        return this.findEntry(this.bucketOf(this.hashOf(key)), key)
+            .map(entry => entry.value);
+    }
+
+    public has(key: K): boolean {
+        return this.findEntry(this.bucketOf(this.hashOf(key)), key).isPresent();
+    }
+
+    public set(key: K, value: T): void {
+        const keyHash = this.hashOf(key);
+        const bucket = this.bucketOf(keyHash);
+        const existing = this.findEntry(bucket, key);
+        if (existing.isPresent()) {
+            existing.get().value = value;
+        } else {
+            bucket.push({ key, value });
+            this.buckets[keyHash] = bucket;
+            this.count++;
+        }
+    }
+
+    public delete(key: K): Optional<T> {
+        const keyHash = this.hashOf(key);
+        const bucket = this.bucketOf(keyHash);
+        const index = bucket.findIndex(entry => this.equality(entry.key, key));
+        if (index < 0) {
+            return Optional.empty();
+        }
+        const removed = bucket.splice(index, 1)[0];
+        this.count--;
+        if (bucket.length === 0) {
+            delete this.buckets[keyHash];
+        }
+        return Optional.of(removed.value);
+    }
+
+    public clear(): void {
+        this.buckets = Object.create(null);
+        this.count = 0;
+    }
+
+    public size(): number {
+        return this.count;
+    }
+
+    public values(): T[] {
+        return Object.keys(this.buckets)
+            .map(keyHash => this.buckets[keyHash])
+            .reduce((values: T[], bucket) => values.concat(bucket.map(entry => entry.value)), []);
+    }
+
+    private hashOf(key: K): string {
+        return String(this.hashFunction(key));
+    }
+
+    private bucketOf(keyHash: string): IndexEntry<K, T>[] {
+        const bucket = this.buckets[keyHash];
+        return bucket ? bucket : [];
+    }
+
+    private findEntry(bucket: IndexEntry<K, T>[], key: K): Optional<IndexEntry<K, T>> {
+        return Optional.ofNullable(bucket.find(entry => this.equality(entry.key, key)));
+    }
+}
@@ -0,0 +1,62 @@
+import { Map as KeyValueMap, Entry } from '.';
+import { AbstractMap, throwIfNull } from './abstractMap';
+
+export const IdentityHashMap = {
+    /**
+     * creates an empty Map that compares its keys by identity (===) instead of by their hash,
+     * two objects with the same fields are different keys. Backed by the native Map, lookups do not hash the keys.
+     */
+    empty<K, V>(): KeyValueMap<K, V> {
+        return new IdentityHashMapImpl<K, V>();
+    },
+}
+
+class IdentityHashMapImpl<K, V> extends AbstractMap<K, V> {
+    private map: Map<K, V>;
+
+    public constructor() {
+        super();
+        this.map = new Map<K, V>();
+    }
+
+    public isEmpty(): boolean {
+        return this.map.size === 0;
+    }
+
+    public size(): number {
+        return this.map.size;
+    }
+
+    public clear(): void {
+        this.map.clear();
+    }
+
+    public get(key: K): V | null {
+        return this.map.has(key)
+            ? <V>this.map.get(key)
+            : null;
+    }
+
+    public containsKey(key: K): boolean {
+        return this.map.has(key);
+    }
+
+    public put(key: K, value: V): V | null {
+        throwIfNull(key);
+        const previous = this.get(key);
+        this.map.set(key, value);
+        return previous;
+    }
+
+    protected removeKey(key: K): V | null {
+        const previous = this.get(key);
+        this.map.delete(key);
+        return previous;
+    }
+
+    public entrySet(): Entry<K, V>[] {
+        const entries: Entry<K, V>[] = [];
+        this.map.forEach((value, key) => entries.push(Entry.of(key, value)));
+        return entries;
+    }
+}
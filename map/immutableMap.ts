@@ -0,0 +1,260 @@
+import { BiFunction, Combiner, Function } from '../functions';
+import Optional from '../optional';
+import { UnsupportedOperationException } from '../errors';
+import { Map, Entry } from '.';
+import { AbstractMap, throwIfNull, hashCodeOf } from './abstractMap';
+import { structuralEquality } from './hashIndex';
+
+/**
+ * A Map that can not be changed, every method that would change the map throws an UnsupportedOperationException.
+ * Instead with and without return a new ImmutableMap with the change, which shares most of its structure with the
+ * original map, so updates do not copy the whole map. Keys are hashed and compared like in a HashMap.
+ */
+export interface ImmutableMap<K, V> extends Map<K, V> {
+    /**
+     * returns a new map with the value set for the key, this map is not changed
+     * @param key
+     * @param value
+     */
+    with(key: K, value: V): ImmutableMap<K, V>;
+
+    /**
+     * returns a new map without the key, this map is not changed
+     * @param key
+     */
+    without(key: K): ImmutableMap<K, V>;
+
+    /**
+     * returns the number of entries in the map
+     */
+    size(): number;
+}
+
+export const ImmutableMap = {
+    /**
+     * returns an empty ImmutableMap
+     */
+    empty<K, V>(): ImmutableMap<K, V> {
+        return new HashTrieMap<K, V>(undefined, 0);
+    },
+
+    /**
+     * returns an ImmutableMap containing the given entries, if a key appears more than once the last value is used
+     * @param entries
+     */
+    ofEntries<K, V>(...entries: Entry<K, V>[]): ImmutableMap<K, V> {
+        return entries.reduce(
+            (map: ImmutableMap<K, V>, entry) => map.with(entry.getKey(), entry.getValue()),
+            ImmutableMap.empty<K, V>(),
+        );
+    },
+
+    /**
+     * returns an ImmutableMap containing the entries of the given map, or the map itself if it is already immutable
+     * @param map
+     */
+    copyOf<K, V>(map: Map<K, V>): ImmutableMap<K, V> {
+        return map instanceof HashTrieMap
+            ? map
+            : ImmutableMap.ofEntries(...map.entrySet());
+    },
+}
+
+const unsupported = (): never => {
+    throw new UnsupportedOperationException('an ImmutableMap can not be changed, use with and without instead');
+}
+
+const BITS = 5;
+const WIDTH = 1 << BITS;
+const MASK = WIDTH - 1;
+
+/**
+ * the entries whose keys have the same hash code
+ */
+interface Leaf<K, V> {
+    kind: 'leaf';
+    hash: number;
+    entries: Entry<K, V>[];
+}
+
+interface Branch<K, V> {
+    kind: 'branch';
+    children: (TrieNode<K, V> | undefined)[];
+}
+
+type TrieNode<K, V> = Leaf<K, V> | Branch<K, V>;
+
+const leafOf = <K, V>(hash: number, entries: Entry<K, V>[]): Leaf<K, V> => ({ kind: 'leaf', hash, entries });
+
+const branchOf = <K, V>(children: (TrieNode<K, V> | undefined)[]): Branch<K, V> => ({ kind: 'branch', children });
+
+const indexAt = (hash: number, shift: number): number => (hash >>> shift) & MASK;
+
+/**
+ * returns a new node with the entry added, copying only the nodes on the path to the entry
+ */
+function insert<K, V>(node: TrieNode<K, V> | undefined, hash: number, shift: number, entry: Entry<K, V>): TrieNode<K, V> {
+    if (node === undefined) {
+        return leafOf(hash, [entry]);
+    } else if (node.kind === 'leaf' && node.hash === hash) {
+        const others = node.entries.filter(existing => !structuralEquality(existing.getKey(), entry.getKey()));
+        return leafOf(hash, others.concat([entry]));
+    } else if (node.kind === 'leaf') {
+        const split = branchOf<K, V>(new Array(WIDTH));
+        split.children[indexAt(node.hash, shift)] = node;
+        return insert(split, hash, shift, entry);
+    } else {
+        const children = node.children.slice();
+        const index = indexAt(hash, shift);
+        children[index] = insert(children[index], hash, shift + BITS, entry);
+        return branchOf(children);
+    }
+}
+
+/**
+ * returns a new node without the key, copying only the nodes on the path to the key, or undefined if the node is left empty
+ */
+function remove<K, V>(node: TrieNode<K, V> | undefined, hash: number, shift: number, key: K): TrieNode<K, V> | undefined {
+    if (node === undefined) {
+        return undefined;
+    } else if (node.kind === 'leaf') {
+        const others = node.entries.filter(existing => !structuralEquality(existing.getKey(), key));
+        return others.length > 0 ? leafOf(node.hash, others) : undefined;
+    }
+    const children = node.children.slice();
+    const index = indexAt(hash, shift);
+    children[index] = remove(children[index], hash, shift + BITS, key);
+    const remaining = children.filter(child => child !== undefined);
+    if (remaining.length === 0) {
+        return undefined;
+    }
+    const onlyChild = remaining[0];
+    return remaining.length === 1 && onlyChild !== undefined && onlyChild.kind === 'leaf'
+        ? onlyChild
+        : branchOf(children);
+}
+
+function find<K, V>(node: TrieNode<K, V> | undefined, hash: number, shift: number, key: K): Optional<Entry<K, V>> {
+    if (node === undefined) {
+        return Optional.empty();
+    } else if (node.kind === 'leaf') {
+        return node.hash === hash
+            ? Optional.ofNullable(node.entries.find(entry => structuralEquality(entry.getKey(), key)))
+            : Optional.empty();
+    }
+    return find(node.children[indexAt(hash, shift)], hash, shift + BITS, key);
+}
+
+function collectEntries<K, V>(node: TrieNode<K, V> | undefined, entries: Entry<K, V>[]): Entry<K, V>[] {
+    if (node !== undefined && node.kind === 'leaf') {
+        entries.push(...node.entries);
+    } else if (node !== undefined) {
+        node.children.forEach(child => collectEntries(child, entries));
+    }
+    return entries;
+}
+
+/**
+ * ImmutableMap stored in a persistent hash trie, a tree that branches on 5 bits of the hash code of the keys
+ * at every level, updates copy the at most 7 nodes on the path to the key and share the rest with the original map.
+ */
+class HashTrieMap<K, V> extends AbstractMap<K, V> implements ImmutableMap<K, V> {
+    private root: TrieNode<K, V> | undefined;
+    private count: number;
+
+    public constructor(root: TrieNode<K, V> | undefined, count: number) {
+        super();
+        this.root = root;
+        this.count = count;
+    }
+
+    public with(key: K, value: V): ImmutableMap<K, V> {
+        throwIfNull(key);
+        const hash = hashCodeOf(key);
+        const added = find(this.root, hash, 0, key).isPresent() ? 0 : 1;
+        return new HashTrieMap(insert(this.root, hash, 0, Entry.of(key, value)), this.count + added);
+    }
+
+    public without(key: K): ImmutableMap<K, V> {
+        const hash = hashCodeOf(key);
+        return find(this.root, hash, 0, key).isPresent()
+            ? new HashTrieMap(remove(this.root, hash, 0, key), this.count - 1)
+            : this;
+    }
+
+    public size(): number {
+        return this.count;
+    }
+
+    public isEmpty(): boolean {
+        return this.count === 0;
+    }
+
+    public get(key: K): V | null {
+        return find(this.root, hashCodeOf(key), 0, key)
+            .map(entry => entry.getValue())
+            .orElseGet((): any => null);
+    }
+
+    public containsKey(key: K): boolean {
+        return find(this.root, hashCodeOf(key), 0, key).isPresent();
+    }
+
+    public entrySet(): Entry<K, V>[] {
+        return collectEntries(this.root, []);
+    }
+
+    public clear(): void {
+        unsupported();
+    }
+
+    public put(key: K, value: V): V | null {
+        return unsupported();
+    }
+
+    protected removeKey(key: K): V | null {
+        return unsupported();
+    }
+
+    public remove(key: K): V | null;
+    public remove(key: K, value: V): boolean;
+    public remove(key: K, value?: V): V | null | boolean {
+        return unsupported();
+    }
+
+    public putIfAbsent(key: K, value: V): V | null {
+        return unsupported();
+    }
+
+    public putAll(map: Map<K, V>): void {
+        unsupported();
+    }
+
+    public merge(key: K, value: V, remappingFunction: BiFunction<V>): V | null {
+        return unsupported();
+    }
+
+    public compute(key: K, remappingFunction: Combiner<K, V | null, V | null>): V | null {
+        return unsupported();
+    }
+
+    public computeIfAbsent(key: K, mappingFunction: Function<K, V>): V;
+    public computeIfAbsent(key: K, mappingFunction: Function<K, V | null>): V | null;
+    public computeIfAbsent(key: K, mappingFunction: Function<K, V | null>): V | null {
+        return unsupported();
+    }
+
+    public computeIfPresent(key: K, remappingFunction: Combiner<K, V, V | null>): V | null {
+        return unsupported();
+    }
+
+    public replace(key: K, value: V): V | null;
+    public replace(key: K, oldValue: V, newValue: V): boolean;
+    public replace(key: K, valueOrOldValue: V, newValue?: V): V | null | boolean {
+        return unsupported();
+    }
+
+    public replaceAll(Function: Combiner<K, V, V>): void {
+        unsupported();
+    }
+}
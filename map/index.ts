@@ -1,8 +1,10 @@
-import * as hash from 'js-hash-code';
 import Stream from '../stream';
-import { BiPredicate, BiConsumer, BiFunction } from '../functions';
+import { BiConsumer, BiFunction, BiPredicate, Combiner, Function, Supplier } from '../functions';
+import { Set } from '../set';
 import Optional from '../optional';
-import { Errors } from '../errors';
+import { AbstractMap, throwIfNull, hashCodeOf, toDisplayString, valuesEqual } from './abstractMap';
+import { HashIndex } from './hashIndex';
+import { ImmutableMap } from './immutableMap';
 
 /**
  * key value mapping interface
@@ -19,6 +21,7 @@ export interface Map<K, V> {
     containsKey(key: K): boolean; 
     containsValue(value: V, equalityTest?: BiPredicate<V, V>): boolean; 
     keySet(): K[]; 
+    keySet<S extends Set<K>>(setFactory: Supplier<S>): S; 
     values(): V[]; 
     entrySet(): Entry<K, V>[];
     keyStream(): Stream<K>;
@@ -26,14 +29,75 @@ export interface Map<K, V> {
     entryStream(): Stream<Entry<K, V>>; 
     forEach(consumer: BiConsumer<K, V>): void; 
     isEmpty(): boolean;  
+    /**
+     * returns the number of entries in the map
+     */
+    size(): number;
     remove(key: K): V | null; 
+    /**
+     * removes the key only if it is mapped to the given value (compared with ===), returns true if the key was removed
+     */
+    remove(key: K, value: V): boolean;
     merge(key: K, value: V, remappingFunction: BiFunction<V>): V | null; 
+    /**
+     * sets the value of the key to the result of the remapping function, called with the key and its current value
+     * (null if it has none), if the result is null or undefined the key is removed. returns the new value.
+     */
+    compute(key: K, remappingFunction: Combiner<K, V | null, V | null>): V | null;
+    /**
+     * if the key has no value, sets it to the result of the mapping function unless that is null or undefined.
+     * returns the current (existing or computed) value of the key.
+     */
+    computeIfAbsent(key: K, mappingFunction: Function<K, V>): V;
+    computeIfAbsent(key: K, mappingFunction: Function<K, V | null>): V | null;
+    /**
+     * if the key has a value, sets it to the result of the remapping function, or removes the key if that
+     * is null or undefined. returns the new value.
+     */
+    computeIfPresent(key: K, remappingFunction: Combiner<K, V, V | null>): V | null;
+    /**
+     * sets the value of the key only if it already has one, returns the previous value
+     */
+    replace(key: K, value: V): V | null;
+    /**
+     * sets the value of the key only if it is currently mapped to oldValue (compared with ===), returns true if it was replaced
+     */
+    replace(key: K, oldValue: V, newValue: V): boolean;
+    /**
+     * replaces the value of every key with the result of the function called with the key and its value
+     */
+    replaceAll(Function: Combiner<K, V, V>): void;
+    /**
+     * returns true if both maps contain the same keys, with values that are structurally equal
+     */
+    equals(other: Map<K, V>): boolean;
+    hashCode(): number;
+    toString(): string;
+}
+
+/**
+ * how a HashMap hashes and compares its keys, keys are grouped by their hash and then compared with
+ * the equality function, so the hash of equal keys must be the same.
+ */
+export interface HashMapOptions<K> {
+    /**
+     * returns the hash of a key, defaults to the structural hash of js-hash-code
+     */
+    hash?: Function<K, string | number>;
+    /**
+     * returns true if both keys are the same key, defaults to comparing the fields of the keys structurally
+     */
+    equals?: BiPredicate<K, K>;
 }
 
 export const Map = {
 
-    empty<K, V>(): Map<K, V> {
-        return new HashMap();
+    /**
+     * creates an empty HashMap, the keys are hashed and compared using the given options
+     * @param options
+     */
+    empty<K, V>(options?: HashMapOptions<K>): Map<K, V> {
+        return new HashMap<K, V>(options ? options : {});
     },
 
     of<K, V>(k1?: K, v1?: V, k2?: K, v2?: V, k3?: K, v3?: V, k4?: K, v4?: V, k5?: K, v5?: V): Map<K, V> {
@@ -49,13 +113,35 @@ export const Map = {
         putIfBothPresent(k4, v4);
         putIfBothPresent(k5, v5);
         return map;
-    }
+    },
+
+    /**
+     * returns an ImmutableMap containing the given entries, if a key appears more than once the last value is used
+     * @param entries
+     */
+    ofEntries<K, V>(...entries: Entry<K, V>[]): ImmutableMap<K, V> {
+        return ImmutableMap.ofEntries(...entries);
+    },
+
+    /**
+     * returns an ImmutableMap containing the entries of the given map, changes to the given map do not affect the copy
+     * @param map
+     */
+    copyOf<K, V>(map: Map<K, V>): ImmutableMap<K, V> {
+        return ImmutableMap.copyOf(map);
+    },
 }
 export interface Entry<K, V> {
     readonly key: K;
     readonly value: V;
     getValue(): V;
     getKey(): K;
+    /**
+     * returns true if the keys and values of both entries are structurally equal
+     */
+    equals(other: Entry<K, V>): boolean;
+    hashCode(): number;
+    toString(): string;
 }
 
 export const Entry = {
@@ -64,139 +150,53 @@ export const Entry = {
     }
 }
 
-function throwIfNull(val: any): void {
-    Optional.ofNullable(val)
-        .orElseThrow(() => new Error(Errors.NullPointerException));
-}
-
-class HashMap<K, V> implements Map<K, V> {
-    private map: {
-        [idx: string]: Entry<K, V>
-    };
+class HashMap<K, V> extends AbstractMap<K, V> {
+    private index: HashIndex<K, Entry<K, V>>;
 
-    public constructor() {
-        this.map = {};
+    public constructor(options: HashMapOptions<K>) {
+        super();
+        this.index = new HashIndex(options);
     }
 
     public clear(): void {
-        this.map = {};
-    }
-
-    public isEmpty(): boolean {
-        return this.keySet().length === 0;
+        this.index.clear();
     }
 
     public put(key: K, value: V): V | null {
         throwIfNull(key);
 
-        const keyHash = hash(key);
-        const entry = Entry.of(key, value);
-        const previous = this.map[keyHash];
-        this.map[keyHash] = entry;
-        if (previous) {
-            return previous.getValue();
-        } else {
-            return null;
-        }
-    }
-
-    public putIfAbsent(key: K, value: V): V | null {
-        throwIfNull(key);
-        const keyHash = hash(key);
-        const entry = Entry.of(key, value);
-        const previous = this.map[keyHash];
-        if (previous) {
-            return previous.getValue();
-        } else {
-            this.map[keyHash] = entry;
-            return null;
-        }
-    }
-
-    public putAll(map: Map<K, V>): void {
-        map.forEach((key, value) => this.put(key, value))
+        const previous = this.index.get(key);
+        const storedKey = previous
+                .map(entry => entry.getKey())
+                .orElse(key);
+        this.index.set(key, Entry.of(storedKey, value));
+        return previous
+                .map(entry => entry.getValue())
+                .orElseGet((): any => null);
     }
 
     public get(key: K): V | null {
-        const keyHash = hash(key);
-        const foundVal = this.map[keyHash];
-        return foundVal ? foundVal.getValue() : null;
-    }
-
-    public getOptional(key: K): Optional<V> {
-        const value = this.get(key);
-        return value
-            ? Optional.of(value)
-            : Optional.empty();
-    }
-
-    public getOrDefault(key: K, defaultVal: V): V {
-        return this.getOptional(key)
-            .orElse(defaultVal);
-    }
-
-    public values(): V[] {
-        return this.entrySet()
-            .map(e => e.getValue());
-    }
-
-    public keySet(): K[] {
-        return this.entrySet()
-            .map(e => e.getKey());
+        return this.index.get(key)
+                .map(entry => entry.getValue())
+                .orElseGet((): any => null);
     }
 
     public entrySet(): Entry<K, V>[] {
-        return Object.keys(this.map)
-            .map(key => this.map[key]);
+        return this.index.values();
     }
 
-    public keyStream(): Stream<K> {
-        return Stream.of(this.keySet());
-    }
-
-    public valueStream(): Stream<V> {
-        return Stream.of(this.values());
-    }
-
-    public entryStream(): Stream<Entry<K, V>> {
-        return Stream.of(this.entrySet());
+    public size(): number {
+        return this.index.size();
     }
 
     public containsKey(key: K): boolean {
-        return this.map.hasOwnProperty(hash(key));
-    }
-
-    public containsValue(value: V, equalityTest?: BiPredicate<V, V>): boolean {
-        const equalityTestToUse = equalityTest ? equalityTest : BiPredicate.defaultEquality();
-        return this.valueStream()
-            .anyMatch(v => equalityTestToUse(v, value));
-    }
-
-    public forEach(consumer: BiConsumer<K, V>): void {
-        this.entrySet()
-            .forEach(({ key, value }) => consumer(key, value));
+        return this.index.has(key);
     }
 
-    public remove(key: K): V | null {
-        const keyHash = hash(key);
-        const previous = Optional.ofNullable(this.map[keyHash]);
-        delete this.map[keyHash];
-        return previous
+    protected removeKey(key: K): V | null {
+        return this.index.delete(key)
                 .map(entry => entry.getValue())
-                .orElseGet(():any => null);
-    }
-
-    merge(key: K, value: V, remappingFunction: BiFunction<V>): V | null {
-        const oldValue: Optional<V> = this.getOptional(key);
-        const newValue: V = oldValue.isPresent()
-            ? remappingFunction(oldValue.get(), value)
-            : value;
-        if (newValue === null) {
-            this.remove(key);
-        } else {
-            this.put(key, newValue);
-        }
-        return newValue;
+                .orElseGet((): any => null);
     }
 }
 
@@ -215,4 +215,22 @@ class MapEntry<K, V> implements Entry<K, V> {
     public getKey(): K {
         return this.key;
     }
-} 
\ No newline at end of file
+
+    public equals(other: Entry<K, V>): boolean {
+        return valuesEqual(this.key, other.getKey()) && valuesEqual(this.value, other.getValue());
+    }
+
+    public hashCode(): number {
+        return hashCodeOf(this.key) ^ hashCodeOf(this.value);
+    }
+
+    public toString(): string {
+        return `${toDisplayString(this.key)}=${toDisplayString(this.value)}`;
+    }
+}
+
+export { TreeMap } from './treeMap';
+export { LinkedHashMap, LinkedHashMapOptions } from './linkedHashMap';
+export { MultiMap } from './multiMap';
+export { IdentityHashMap } from './identityHashMap';
+export { ImmutableMap };
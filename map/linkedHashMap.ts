@@ -0,0 +1,211 @@
+import { BiPredicate } from '../functions';
+import Optional from '../optional';
+import { Map, Entry, HashMapOptions } from '.';
+import { AbstractMap, throwIfNull } from './abstractMap';
+import { HashIndex } from './hashIndex';
+
+/**
+ * A hash based Map that remembers the order of its entries, keySet(), values(), entrySet() and the
+ * streams of the map return the entries in insertion order, or in access order (least recently accessed first)
+ * if the map was created with accessOrder set.
+ */
+export interface LinkedHashMap<K, V> extends Map<K, V> {
+    /**
+     * returns the number of entries in the map
+     */
+    size(): number;
+}
+
+export interface LinkedHashMapOptions<K, V> extends HashMapOptions<K> {
+    /**
+     * if true the entries are ordered from least to most recently accessed, where get, put and the
+     * methods built on top of them (getOptional, getOrDefault, putIfAbsent, merge...) count as accesses,
+     * otherwise the entries are kept in insertion order, the default.
+     */
+    accessOrder?: boolean;
+    /**
+     * called with the eldest entry (the first in iteration order) and the map after every new entry is added to the map,
+     * if it returns true the eldest entry is removed. this can be used to bound the size of the map,
+     * see LinkedHashMap.lru.
+     */
+    removeEldestEntry?: BiPredicate<Entry<K, V>, LinkedHashMap<K, V>>;
+}
+
+export const LinkedHashMap = {
+    /**
+     * creates an empty LinkedHashMap, in insertion order unless options.accessOrder is set
+     * @param options
+     */
+    empty<K, V>(options?: LinkedHashMapOptions<K, V>): LinkedHashMap<K, V> {
+        return new LinkedHashMapImpl<K, V>(options ? options : {});
+    },
+
+    /**
+     * creates a LinkedHashMap containing all the entries of the given map, in the iteration order of the given map
+     * @param map entries to copy into the new map
+     * @param options
+     */
+    copyOf<K, V>(map: Map<K, V>, options?: LinkedHashMapOptions<K, V>): LinkedHashMap<K, V> {
+        const linkedHashMap = LinkedHashMap.empty<K, V>(options);
+        linkedHashMap.putAll(map);
+        return linkedHashMap;
+    },
+
+    /**
+     * creates an empty access ordered LinkedHashMap that holds at most maxSize entries, when a new entry is added
+     * to a full map the least recently accessed entry is removed.
+     * @param maxSize the maximum number of entries in the map
+     */
+    lru<K, V>(maxSize: number): LinkedHashMap<K, V> {
+        return LinkedHashMap.empty<K, V>({
+            accessOrder: true,
+            removeEldestEntry: (eldest, map) => map.size() > maxSize,
+        });
+    },
+}
+
+class LinkedNode<K, V> {
+    public key: K;
+    public value: V;
+    public before: LinkedNode<K, V> | null;
+    public after: LinkedNode<K, V> | null;
+
+    constructor(key: K, value: V) {
+        this.key = key;
+        this.value = value;
+        this.before = null;
+        this.after = null;
+    }
+}
+
+/**
+ * LinkedHashMap that keeps its entries in a hash index, for lookups, as well as in
+ * a doubly linked list, for the iteration order.
+ */
+class LinkedHashMapImpl<K, V> extends AbstractMap<K, V> implements LinkedHashMap<K, V> {
+    private index: HashIndex<K, LinkedNode<K, V>>;
+    private head: LinkedNode<K, V> | null;
+    private tail: LinkedNode<K, V> | null;
+    private count: number;
+    private accessOrder: boolean;
+    private removeEldestEntry: BiPredicate<Entry<K, V>, LinkedHashMap<K, V>>;
+
+    public constructor(options: LinkedHashMapOptions<K, V>) {
+        super();
+        this.index = new HashIndex(options);
+        this.head = null;
+        this.tail = null;
+        this.count = 0;
+        this.accessOrder = options.accessOrder === true;
+        this.removeEldestEntry = options.removeEldestEntry ? options.removeEldestEntry : () => false;
+    }
+
+    public size(): number {
+        return this.count;
+    }
+
+    public isEmpty(): boolean {
+        return this.count === 0;
+    }
+
+    public clear(): void {
+        this.index.clear();
+        this.head = null;
+        this.tail = null;
+        this.count = 0;
+    }
+
+    public get(key: K): V | null {
+        return this.findNode(key)
+            .map(node => {
+                this.afterAccess(node);
+                return node.value;
+            })
+            .orElseGet((): any => null);
+    }
+
+    public containsKey(key: K): boolean {
+        return this.index.has(key);
+    }
+
+    public put(key: K, value: V): V | null {
+        throwIfNull(key);
+        const previous = this.findNode(key);
+        if (previous.isPresent()) {
+            const node = previous.get();
+            const previousValue = node.value;
+            node.value = value;
+            this.afterAccess(node);
+            return previousValue;
+        } else {
+            const node = new LinkedNode(key, value);
+            this.index.set(key, node);
+            this.linkLast(node);
+            this.count++;
+            this.evictIfNeeded();
+            return null;
+        }
+    }
+
+    protected removeKey(key: K): V | null {
+        return this.index.delete(key)
+            .map(node => {
+                this.unlink(node);
+                this.count--;
+                return node.value;
+            })
+            .orElseGet((): any => null);
+    }
+
+    public entrySet(): Entry<K, V>[] {
+        const entries: Entry<K, V>[] = [];
+        for (let node = this.head; node; node = node.after) {
+            entries.push(Entry.of(node.key, node.value));
+        }
+        return entries;
+    }
+
+    private findNode(key: K): Optional<LinkedNode<K, V>> {
+        return this.index.get(key);
+    }
+
+    private afterAccess(node: LinkedNode<K, V>): void {
+        if (this.accessOrder && node !== this.tail) {
+            this.unlink(node);
+            this.linkLast(node);
+        }
+    }
+
+    private evictIfNeeded(): void {
+        const eldest = this.head;
+        if (eldest && this.removeEldestEntry(Entry.of(eldest.key, eldest.value), this)) {
+            this.remove(eldest.key);
+        }
+    }
+
+    private linkLast(node: LinkedNode<K, V>): void {
+        node.before = this.tail;
+        node.after = null;
+        if (this.tail) {
+            this.tail.after = node;
+        } else {
+            this.head = node;
+        }
+        this.tail = node;
+    }
+
+    private unlink(node: LinkedNode<K, V>): void {
+        if (node.before) {
+            node.before.after = node.after;
+        } else {
+            this.head = node.after;
+        }
+        if (node.after) {
+            node.after.before = node.before;
+        } else {
+            this.tail = node.before;
+        }
+        node.before = null;
+        node.after = null;
+    }
+}
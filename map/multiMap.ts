@@ -0,0 +1,239 @@
+import Stream from '../stream';
+import { BiConsumer } from '../functions';
+import { Set, HashSet } from '../set';
+import { Map, Entry, LinkedHashMap } from '.';
+import { throwIfNull } from './abstractMap';
+
+/**
+ * A map from keys to collections of values, a key is in the map while it has at least one value.
+ * Values are added to the collection of their key in place, without copying it.
+ * Keys are kept in the order they were first added.
+ */
+export interface MultiMap<K, V> {
+    /**
+     * adds the value to the values of the key, returns true if the multimap changed
+     * @param key
+     * @param value
+     */
+    put(key: K, value: V): boolean;
+
+    /**
+     * adds all the values to the values of the key, returns true if the multimap changed
+     * @param key
+     * @param values
+     */
+    putAll(key: K, values: V[]): boolean;
+
+    /**
+     * returns a copy of the values of the key, or an empty array if the key is not in the multimap
+     * @param key
+     */
+    get(key: K): V[];
+
+    /**
+     * removes a single value from the values of the key, returns true if the multimap changed
+     * @param key
+     * @param value
+     */
+    remove(key: K, value: V): boolean;
+
+    /**
+     * removes the key and all of its values, returns the removed values
+     * @param key
+     */
+    removeAll(key: K): V[];
+
+    containsKey(key: K): boolean;
+    containsEntry(key: K, value: V): boolean;
+
+    /**
+     * returns the distinct keys of the multimap
+     */
+    keys(): K[];
+
+    /**
+     * returns all of the values of the multimap, for all keys
+     */
+    values(): V[];
+
+    /**
+     * returns one entry for every key value pair of the multimap
+     */
+    entries(): Entry<K, V>[];
+    entryStream(): Stream<Entry<K, V>>;
+
+    /**
+     * returns a new Map from each key to a copy of its values, changes to the map do not affect the multimap
+     */
+    asMap(): Map<K, V[]>;
+
+    /**
+     * returns the number of key value pairs in the multimap
+     */
+    size(): number;
+    isEmpty(): boolean;
+    clear(): void;
+    forEach(consumer: BiConsumer<K, V>): void;
+}
+
+export const MultiMap = {
+    /**
+     * creates an empty MultiMap that stores the values of each key in an array, allowing duplicate values for a key,
+     * the values are kept in the order they were added, and compared with === by remove and containsEntry.
+     */
+    listBacked<K, V>(): MultiMap<K, V> {
+        return new CollectionMultiMap<K, V>(() => new ValueList<V>());
+    },
+
+    /**
+     * creates an empty MultiMap that stores the values of each key in a HashSet,
+     * adding a value that the key already has does not change the multimap.
+     */
+    setBacked<K, V>(): MultiMap<K, V> {
+        return new CollectionMultiMap<K, V>(() => HashSet.empty<V>());
+    },
+}
+
+/**
+ * the operations a MultiMap needs from the collection holding the values of a key
+ */
+type ValueCollection<V> = Pick<Set<V>, 'add' | 'remove' | 'contains' | 'toArray' | 'size' | 'isEmpty'>;
+
+class ValueList<V> implements ValueCollection<V> {
+    private list: V[];
+
+    public constructor() {
+        this.list = [];
+    }
+
+    public add(value: V): boolean {
+        this.list.push(value);
+        return true;
+    }
+
+    public remove(value: V): boolean {
+        const index = this.list.indexOf(value);
+        if (index >= 0) {
+            this.list.splice(index, 1);
+            return true;
+        }
+        return false;
+    }
+
+    public contains(value: V): boolean {
+        return this.list.indexOf(value) >= 0;
+    }
+
+    public toArray(): V[] {
+        return this.list.slice();
+    }
+
+    public size(): number {
+        return this.list.length;
+    }
+
+    public isEmpty(): boolean {
+        return this.list.length === 0;
+    }
+}
+
+class CollectionMultiMap<K, V> implements MultiMap<K, V> {
+    private map: Map<K, ValueCollection<V>>;
+    private collectionFactory: () => ValueCollection<V>;
+
+    public constructor(collectionFactory: () => ValueCollection<V>) {
+        this.map = LinkedHashMap.empty<K, ValueCollection<V>>();
+        this.collectionFactory = collectionFactory;
+    }
+
+    public put(key: K, value: V): boolean {
+        throwIfNull(key);
+        const existing = this.map.get(key);
+        if (existing) {
+            return existing.add(value);
+        }
+        const values = this.collectionFactory();
+        values.add(value);
+        this.map.put(key, values);
+        return true;
+    }
+
+    public putAll(key: K, values: V[]): boolean {
+        return values
+            .map(value => this.put(key, value))
+            .reduce((changed, added) => changed || added, false);
+    }
+
+    public get(key: K): V[] {
+        return this.map.getOptional(key)
+            .map(values => values.toArray())
+            .orElse([]);
+    }
+
+    public remove(key: K, value: V): boolean {
+        const values = this.map.get(key);
+        if (values && values.remove(value)) {
+            if (values.isEmpty()) {
+                this.map.remove(key);
+            }
+            return true;
+        }
+        return false;
+    }
+
+    public removeAll(key: K): V[] {
+        const removed = this.map.remove(key);
+        return removed ? removed.toArray() : [];
+    }
+
+    public containsKey(key: K): boolean {
+        return this.map.containsKey(key);
+    }
+
+    public containsEntry(key: K, value: V): boolean {
+        return this.map.getOptional(key)
+            .map(values => values.contains(value))
+            .orElse(false);
+    }
+
+    public keys(): K[] {
+        return this.map.keySet();
+    }
+
+    public values(): V[] {
+        return this.entries().map(entry => entry.getValue());
+    }
+
+    public entries(): Entry<K, V>[] {
+        return this.map.entryStream()
+            .flatMapList(entry => entry.getValue().toArray().map(value => Entry.of(entry.getKey(), value)))
+            .toArray();
+    }
+
+    public entryStream(): Stream<Entry<K, V>> {
+        return Stream.of(this.entries());
+    }
+
+    public asMap(): Map<K, V[]> {
+        const map = LinkedHashMap.empty<K, V[]>();
+        this.map.forEach((key, values) => map.put(key, values.toArray()));
+        return map;
+    }
+
+    public size(): number {
+        return this.map.values()
+            .reduce((total, values) => total + values.size(), 0);
+    }
+
+    public isEmpty(): boolean {
+        return this.map.isEmpty();
+    }
+
+    public clear(): void {
+        this.map.clear();
+    }
+
+    public forEach(consumer: BiConsumer<K, V>): void {
+        this.entries().forEach(entry => consumer(entry.getKey(), entry.getValue()));
+    }
+}
@@ -0,0 +1,366 @@
+import { Comparator } from '../functions';
+import Optional from '../optional';
+import { Map, Entry } from '.';
+import { AbstractMap, throwIfNull } from './abstractMap';
+
+/**
+ * A Map whose entries are kept sorted by their keys, according to a Comparator.
+ * keySet(), values(), entrySet() and the streams of the map all return the entries in ascending key order.
+ * Keys are considered equal when the comparator returns 0 for them.
+ */
+export interface TreeMap<K, V> extends Map<K, V> {
+    /**
+     * returns the smallest key in the map, or empty if the map is empty
+     */
+    firstKey(): Optional<K>;
+
+    /**
+     * returns the largest key in the map, or empty if the map is empty
+     */
+    lastKey(): Optional<K>;
+
+    /**
+     * returns the entry with the largest key less than or equal to the given key, or empty if there is no such key
+     * @param key
+     */
+    floorEntry(key: K): Optional<Entry<K, V>>;
+
+    /**
+     * returns the entry with the smallest key greater than or equal to the given key, or empty if there is no such key
+     * @param key
+     */
+    ceilingEntry(key: K): Optional<Entry<K, V>>;
+
+    /**
+     * returns a new TreeMap, with the same comparator, of the entries whose keys are less than
+     * (or equal to, if inclusive is true) toKey. changes to the returned map do not affect this map.
+     * @param toKey upper bound of the keys in the returned map
+     * @param inclusive true if the upper bound is included, defaults to false
+     */
+    headMap(toKey: K, inclusive?: boolean): TreeMap<K, V>;
+
+    /**
+     * returns a new TreeMap, with the same comparator, of the entries whose keys are greater than
+     * (or equal to, if inclusive is true) fromKey. changes to the returned map do not affect this map.
+     * @param fromKey lower bound of the keys in the returned map
+     * @param inclusive true if the lower bound is included, defaults to true
+     */
+    tailMap(fromKey: K, inclusive?: boolean): TreeMap<K, V>;
+
+    /**
+     * returns a new TreeMap, with the same comparator, of the entries whose keys range from fromKey to toKey.
+     * changes to the returned map do not affect this map.
+     * @param fromKey lower bound of the keys in the returned map
+     * @param toKey upper bound of the keys in the returned map
+     * @param fromInclusive true if the lower bound is included, defaults to true
+     * @param toInclusive true if the upper bound is included, defaults to false
+     */
+    subMap(fromKey: K, toKey: K, fromInclusive?: boolean, toInclusive?: boolean): TreeMap<K, V>;
+}
+
+export const TreeMap = {
+    /**
+     * creates an empty TreeMap ordered by the given comparator, or Comparator.default() if none is given
+     * @param comparator
+     */
+    empty<K, V>(comparator?: Comparator<K>): TreeMap<K, V> {
+        return new AvlTreeMap<K, V>(comparator ? comparator : Comparator.default());
+    },
+
+    /**
+     * creates a TreeMap containing all the entries of the given map, ordered by the given comparator,
+     * or Comparator.default() if none is given
+     * @param map entries to copy into the new map
+     * @param comparator
+     */
+    copyOf<K, V>(map: Map<K, V>, comparator?: Comparator<K>): TreeMap<K, V> {
+        const treeMap = TreeMap.empty<K, V>(comparator);
+        treeMap.putAll(map);
+        return treeMap;
+    },
+}
+
+/**
+ * bounds of a range of keys, an absent bound is unbounded
+ */
+interface KeyRange<K> {
+    from: Optional<K>;
+    fromInclusive: boolean;
+    to: Optional<K>;
+    toInclusive: boolean;
+}
+
+class TreeNode<K, V> {
+    public key: K;
+    public value: V;
+    public left: TreeNode<K, V> | null;
+    public right: TreeNode<K, V> | null;
+    public height: number;
+
+    constructor(key: K, value: V) {
+        this.key = key;
+        this.value = value;
+        this.left = null;
+        this.right = null;
+        this.height = 1;
+    }
+}
+
+const heightOf = <K, V>(node: TreeNode<K, V> | null): number => node ? node.height : 0;
+
+/**
+ * TreeMap backed by an AVL tree, a self balancing binary search tree, keeping
+ * get, put and remove logarithmic in the size of the map.
+ */
+class AvlTreeMap<K, V> extends AbstractMap<K, V> implements TreeMap<K, V> {
+    private root: TreeNode<K, V> | null;
+    private comparator: Comparator<K>;
+    private count: number;
+
+    public constructor(comparator: Comparator<K>) {
+        super();
+        this.root = null;
+        this.comparator = comparator;
+        this.count = 0;
+    }
+
+    public clear(): void {
+        this.root = null;
+        this.count = 0;
+    }
+
+    public size(): number {
+        return this.count;
+    }
+
+    public isEmpty(): boolean {
+        return this.root === null;
+    }
+
+    public get(key: K): V | null {
+        return this.findNode(key)
+            .map(node => node.value)
+            .orElseGet((): any => null);
+    }
+
+    public containsKey(key: K): boolean {
+        return this.findNode(key).isPresent();
+    }
+
+    public put(key: K, value: V): V | null {
+        throwIfNull(key);
+        const previous = this.findNode(key);
+        if (previous.isPresent()) {
+            const previousValue = previous.get().value;
+            previous.get().value = value;
+            return previousValue;
+        } else {
+            this.root = this.insert(this.root, key, value);
+            this.count++;
+            return null;
+        }
+    }
+
+    protected removeKey(key: K): V | null {
+        const previous = this.findNode(key);
+        if (previous.isPresent()) {
+            const previousValue = previous.get().value;
+            this.root = this.delete(this.root, key);
+            this.count--;
+            return previousValue;
+        }
+        return null;
+    }
+
+    public entrySet(): Entry<K, V>[] {
+        return this.entriesInRange({ from: Optional.empty(), fromInclusive: true, to: Optional.empty(), toInclusive: true });
+    }
+
+    public firstKey(): Optional<K> {
+        let node = this.root;
+        while (node && node.left) {
+            node = node.left;
+        }
+        return node ? Optional.of(node.key) : Optional.empty();
+    }
+
+    public lastKey(): Optional<K> {
+        let node = this.root;
+        while (node && node.right) {
+            node = node.right;
+        }
+        return node ? Optional.of(node.key) : Optional.empty();
+    }
+
+    public floorEntry(key: K): Optional<Entry<K, V>> {
+        let floor: TreeNode<K, V> | null = null;
+        let node = this.root;
+        while (node) {
+            const comparison = this.comparator(key, node.key);
+            if (comparison === 0) {
+                return Optional.of(Entry.of(node.key, node.value));
+            } else if (comparison < 0) {
+                node = node.left;
+            } else {
+                floor = node;
+                node = node.right;
+            }
+        }
+        return floor ? Optional.of(Entry.of(floor.key, floor.value)) : Optional.empty();
+    }
+
+    public ceilingEntry(key: K): Optional<Entry<K, V>> {
+        let ceiling: TreeNode<K, V> | null = null;
+        let node = this.root;
+        while (node) {
+            const comparison = this.comparator(key, node.key);
+            if (comparison === 0) {
+                return Optional.of(Entry.of(node.key, node.value));
+            } else if (comparison > 0) {
+                node = node.right;
+            } else {
+                ceiling = node;
+                node = node.left;
+            }
+        }
+        return ceiling ? Optional.of(Entry.of(ceiling.key, ceiling.value)) : Optional.empty();
+    }
+
+    public headMap(toKey: K, inclusive?: boolean): TreeMap<K, V> {
+        return this.copyOfRange({ from: Optional.empty(), fromInclusive: true, to: Optional.of(toKey), toInclusive: inclusive === true });
+    }
+
+    public tailMap(fromKey: K, inclusive?: boolean): TreeMap<K, V> {
+        return this.copyOfRange({ from: Optional.of(fromKey), fromInclusive: inclusive !== false, to: Optional.empty(), toInclusive: true });
+    }
+
+    public subMap(fromKey: K, toKey: K, fromInclusive?: boolean, toInclusive?: boolean): TreeMap<K, V> {
+        return this.copyOfRange({ from: Optional.of(fromKey), fromInclusive: fromInclusive !== false, to: Optional.of(toKey), toInclusive: toInclusive === true });
+    }
+
+    private copyOfRange(range: KeyRange<K>): TreeMap<K, V> {
+        const copy = new AvlTreeMap<K, V>(this.comparator);
+        this.entriesInRange(range).forEach(entry => copy.put(entry.getKey(), entry.getValue()));
+        return copy;
+    }
+
+    private findNode(key: K): Optional<TreeNode<K, V>> {
+        let node = this.root;
+        while (node) {
+            const comparison = this.comparator(key, node.key);
+            if (comparison === 0) {
+                return Optional.of(node);
+            }
+            node = comparison < 0 ? node.left : node.right;
+        }
+        return Optional.empty();
+    }
+
+    /**
+     * returns the entries with keys in the given range in ascending order, skipping
+     * the subtrees that are entirely outside of the range
+     */
+    private entriesInRange(range: KeyRange<K>): Entry<K, V>[] {
+        const entries: Entry<K, V>[] = [];
+        const isAboveFrom = (key: K): boolean => range.from
+            .map(from => this.comparator(key, from))
+            .map(comparison => range.fromInclusive ? comparison >= 0 : comparison > 0)
+            .orElse(true);
+        const isBelowTo = (key: K): boolean => range.to
+            .map(to => this.comparator(key, to))
+            .map(comparison => range.toInclusive ? comparison <= 0 : comparison < 0)
+            .orElse(true);
+
+        const visit = (node: TreeNode<K, V> | null): void => {
+            if (node) {
+                const aboveFrom = isAboveFrom(node.key);
+                const belowTo = isBelowTo(node.key);
+                if (aboveFrom) {
+                    visit(node.left);
+                }
+                if (aboveFrom && belowTo) {
+                    entries.push(Entry.of(node.key, node.value));
+                }
+                if (belowTo) {
+                    visit(node.right);
+                }
+            }
+        };
+        visit(this.root);
+        return entries;
+    }
+
+    private insert(node: TreeNode<K, V> | null, key: K, value: V): TreeNode<K, V> {
+        if (!node) {
+            return new TreeNode(key, value);
+        }
+        if (this.comparator(key, node.key) < 0) {
+            node.left = this.insert(node.left, key, value);
+        } else {
+            node.right = this.insert(node.right, key, value);
+        }
+        return this.rebalance(node);
+    }
+
+    private delete(node: TreeNode<K, V> | null, key: K): TreeNode<K, V> | null {
+        if (!node) {
+            return null;
+        }
+        const comparison = this.comparator(key, node.key);
+        if (comparison < 0) {
+            node.left = this.delete(node.left, key);
+        } else if (comparison > 0) {
+            node.right = this.delete(node.right, key);
+        } else if (!node.left || !node.right) {
+            return node.left ? node.left : node.right;
+        } else {
+            let successor: TreeNode<K, V> = node.right;
+            while (successor.left) {
+                successor = successor.left;
+            }
+            node.key = successor.key;
+            node.value = successor.value;
+            node.right = this.delete(node.right, successor.key);
+        }
+        return this.rebalance(node);
+    }
+
+    private rebalance(node: TreeNode<K, V>): TreeNode<K, V> {
+        this.updateHeight(node);
+        const balance = heightOf(node.left) - heightOf(node.right);
+        if (balance > 1 && node.left) {
+            if (heightOf(node.left.left) < heightOf(node.left.right)) {
+                node.left = this.rotateLeft(node.left);
+            }
+            return this.rotateRight(node);
+        } else if (balance < -1 && node.right) {
+            if (heightOf(node.right.right) < heightOf(node.right.left)) {
+                node.right = this.rotateRight(node.right);
+            }
+            return this.rotateLeft(node);
+        }
+        return node;
+    }
+
+    private rotateLeft(node: TreeNode<K, V>): TreeNode<K, V> {
+        const newRoot = <TreeNode<K, V>>node.right;
+        node.right = newRoot.left;
+        newRoot.left = node;
+        this.updateHeight(node);
+        this.updateHeight(newRoot);
+        return newRoot;
+    }
+
+    private rotateRight(node: TreeNode<K, V>): TreeNode<K, V> {
+        const newRoot = <TreeNode<K, V>>node.left;
+        node.left = newRoot.right;
+        newRoot.right = node;
+        this.updateHeight(node);
+        this.updateHeight(newRoot);
+        return newRoot;
+    }
+
+    private updateHeight(node: TreeNode<K, V>): void {
+        node.height = 1 + Math.max(heightOf(node.left), heightOf(node.right));
+    }
+}
@@ -0,0 +1,114 @@
+import * as NodeStream from "stream";
+import Optional from "./optional";
+
+/**
+ * returns an object mode Readable of the values of the iterable, values are only pulled from the iterable as the
+ * Readable is read from, so a slow reader (i.e. a Writable the Readable is piped to) holds back the iterable.
+ * null can not be pushed through a Readable, so a null value causes the Readable to error.
+ * The "stream" module is only required once an adapter is used, so the library itself does not depend on Node.js.
+ */
+export const toReadable = <T>(iterable: Iterable<T> | AsyncIterable<T>): NodeStream.Readable => {
+    const stream: typeof NodeStream = require("stream");
+    return stream.Readable.from(iterable, { objectMode: true });
+};
+
+/**
+ * writes all the values of the iterable to the writable, waiting for the writable to drain whenever its buffer
+ * is full, and ends the writable once the iterable is exhausted. Resolves once the writable has finished,
+ * rejects if either the iterable or the writable fails.
+ */
+export const pipeTo = <T>(iterable: Iterable<T> | AsyncIterable<T>, writable: NodeStream.Writable): Promise<void> => {
+    const stream: typeof NodeStream = require("stream");
+    return new Promise<void>((resolve, reject) =>
+        stream.pipeline(toReadable(iterable), writable, error => error ? reject(error) : resolve())
+    );
+};
+
+/**
+ * Writes values to a Writable, keeping track of when the writable's buffer is full. Used as the container
+ * of Collectors.toWritable, every container writes straight to the writable, which is in encounter order as
+ * the containers of a collection are accumulated one after the other, so combining two sinks only carries over
+ * the state of the later one. The sink listens for errors of the writable until it has finished or failed.
+ */
+export class WritableSink<T> {
+    private writable: NodeStream.Writable;
+    private drained: Optional<Promise<void>>;
+    private stopWaiting: Optional<() => void>;
+    private error: Optional<Error>;
+    private onError: (error: Error) => void;
+
+    constructor(writable: NodeStream.Writable) {
+        this.writable = writable;
+        this.drained = Optional.empty();
+        this.stopWaiting = Optional.empty();
+        this.error = Optional.empty();
+        this.onError = error => {
+            this.error = Optional.of(error);
+            this.detach();
+        };
+        writable.on('error', this.onError);
+    }
+
+    /**
+     * writes the value to the writable, if the writable's buffer is full a Promise is returned that resolves
+     * once the writable has drained (or failed), otherwise returns undefined.
+     * throws the error of the writable if it has failed.
+     */
+    public write(value: T): Promise<void> | undefined {
+        this.throwIfFailed();
+        if (!this.writable.write(value) && !this.drained.isPresent()) {
+            this.drained = Optional.of(new Promise<void>(resolve => {
+                const done = () => {
+                    this.writable.removeListener('drain', done);
+                    this.writable.removeListener('error', done);
+                    this.drained = Optional.empty();
+                    this.stopWaiting = Optional.empty();
+                    resolve();
+                };
+                this.stopWaiting = Optional.of(done);
+                this.writable.on('drain', done);
+                this.writable.on('error', done);
+            }));
+        }
+        return this.drained.isPresent() ? this.drained.get() : undefined;
+    }
+
+    /**
+     * takes over the failure of the other sink, which wrote its values after the values of this sink, and stops
+     * the other sink from listening to the writable, returns this sink
+     */
+    public append(other: WritableSink<T>): WritableSink<T> {
+        other.stopWaiting.ifPresent(done => done());
+        other.detach();
+        this.error = this.error.isPresent() ? this.error : other.error;
+        return this;
+    }
+
+    /**
+     * ends the writable, resolves once all the written values have been flushed,
+     * rejects with the error of the writable if it has failed.
+     */
+    public end(): Promise<void> {
+        const stream: typeof NodeStream = require("stream");
+        return new Promise<void>((resolve, reject) => {
+            this.throwIfFailed();
+            this.writable.end();
+            const stopListening = stream.finished(this.writable, error => {
+                stopListening();
+                this.stopWaiting.ifPresent(done => done());
+                this.detach();
+                return error ? reject(error) : resolve();
+            });
+        });
+    }
+
+    private detach(): void {
+        this.writable.removeListener('error', this.onError);
+    }
+
+    private throwIfFailed(): void {
+        if (this.error.isPresent()) {
+            throw this.error.get();
+        }
+    }
+}
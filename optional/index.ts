@@ -1,5 +1,6 @@
-import { Predicate, Consumer, Function, Supplier } from "../functions";
-import Errors from '../errors';
+import { Predicate, Consumer, Function, Supplier, Runnable, BiPredicate, Combiner } from "../functions";
+import { NoSuchElementException, NullPointerException } from '../errors';
+import Stream from '../stream';
 
 const isNull = (x: any): boolean => (x === null || x === undefined)
 /**
@@ -17,12 +18,17 @@ class Optional<T> {
 	 */
 	public isPresent = (): boolean => (isNull(this.value) ? false : true);
 
+	/**
+	 * Return true if there is no value present, otherwise false.
+	 */
+	public isEmpty = (): boolean => !this.isPresent();
+
 	/**
 	 * If a value is present in this Optional, returns the value, otherwise throws "NoSuchElementException".
 	 */
 	public get = (): T => {
 		if (this.value === null || this.value === undefined) {
-			throw Error(Errors.NoSuchElementException);
+			throw new NoSuchElementException('no value present');
 		} else {
 			return this.value;
 		}
@@ -48,6 +54,17 @@ class Optional<T> {
 		}
 	};
 
+	/**
+	 * If a value is present, invoke the specified consumer with the value, otherwise invoke the emptyAction.
+	 */
+	public ifPresentOrElse = (consumer: Consumer<T>, emptyAction: Runnable): void => {
+		if (this.isPresent()) {
+			consumer(this.get());
+		} else {
+			emptyAction();
+		}
+	};
+
 	/**
 	 * If a value is present, apply the provided Function function to it, and if the result is non-null, return an Optional describing the result. Otherwise return an empty Optional.
 	 */
@@ -67,6 +84,30 @@ class Optional<T> {
 		return optionalOptional.isPresent() ? optionalOptional.get() : Optional.empty();
 	}
 
+	/**
+	 * If a value is present, return this Optional, otherwise return the Optional produced by the supplier.
+	 */
+	public or = (supplier: Supplier<Optional<T>>): Optional<T> => (this.isPresent() ? this : supplier());
+
+	/**
+	 * If a value is present, return a Stream containing only that value, otherwise return an empty Stream.
+	 */
+	public stream = (): Stream<T> => (this.isPresent() ? Stream.ofValue(this.get()) : Stream.empty<T>());
+
+	/**
+	 * If both this and the other Optional have a value, return an Optional describing a pair of the two values,
+	 * otherwise return an empty Optional.
+	 */
+	public zip = <U>(other: Optional<U>): Optional<[T, U]> => this.combine(other, (t, u): [T, U] => [t, u]);
+
+	/**
+	 * If both this and the other Optional have a value, apply the combiner to the two values, and if the result is non-null,
+	 * return an Optional describing the result. Otherwise return an empty Optional.
+	 */
+	public combine = <U, R>(other: Optional<U>, combiner: Combiner<T, U, R>): Optional<R> => (
+		this.flatMap(t => other.map(u => combiner(t, u)))
+	);
+
 	/**
 	 * Return the value if present, otherwise return other.
 	 */
@@ -85,16 +126,37 @@ class Optional<T> {
 	}
 
 	/**
-	 * Return the contained value, if present, otherwise throw an error to be created by the provided supplier.
+	 * Return the contained value, if present, otherwise throw an error to be created by the provided supplier,
+	 * or "NoSuchElementException" if no supplier is given.
 	 */
-	public orElseThrow = (exceptionSupplier: Supplier<Error>): T => {
+	public orElseThrow = (exceptionSupplier?: Supplier<Error>): T => {
 		if (this.isPresent()) {
 			return this.get();
-		} else {
+		} else if (exceptionSupplier) {
 			throw exceptionSupplier();
+		} else {
+			throw new NoSuchElementException('no value present');
 		}
 	}
 
+	/**
+	 * Return true if both Optionals are empty, or both have values that are equal according to the equality test,
+	 * === is used if no equality test is given.
+	 */
+	public equals = (other: Optional<T>, equalityTest?: BiPredicate<T, T>): boolean => {
+		const equalityTestToUse = equalityTest ? equalityTest : BiPredicate.defaultEquality<T>();
+		if (this.isPresent() && other.isPresent()) {
+			return equalityTestToUse(this.get(), other.get());
+		} else {
+			return this.isPresent() === other.isPresent();
+		}
+	}
+
+	/**
+	 * Return "Optional[value]" if a value is present, otherwise "Optional.empty".
+	 */
+	public toString = (): string => (this.isPresent() ? `Optional[${this.get()}]` : 'Optional.empty');
+
 	/**
 	 * Returns an Optional with the specified present non-null value. Throws 'NullPointerException' if the value does not exist
 	 * Use ofNullable when the value might not be present;
@@ -103,7 +165,7 @@ class Optional<T> {
 		if (!isNull(value)) {
 			return new Optional(value);
 		} else {
-			throw Error(Errors.NullPointerException);
+			throw new NullPointerException('Optional.of was given a null or undefined value, use ofNullable if the value might not be present');
 		}
 	}
 
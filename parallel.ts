@@ -0,0 +1,229 @@
+import * as WorkerThreads from "worker_threads";
+import * as OS from "os";
+import { Function } from "./functions";
+import Optional from "./optional";
+import { IllegalStateException } from "./errors";
+
+declare module "worker_threads" {
+    function receiveMessageOnPort(port: MessagePort): { message: any } | undefined;
+}
+
+export type ParallelStageType = 'map' | 'filter' | 'flatMapList';
+
+/**
+ * A description of a stateless pipeline operation that can be run inside of a worker thread.
+ * The Function is sent to the worker as source code, so it must be self contained, it can not
+ * reference any variables or imports from outside of the function itself.
+ */
+export interface ParallelStage {
+    type: ParallelStageType;
+    Function: Function<any, any>;
+}
+
+/**
+ * A Processor whose operation can be run inside of a worker thread
+ */
+export interface ParallelizableProcessor {
+    /**
+     * returns the description of the operation this processor applies to each of its inputs
+     */
+    toParallelStage(): ParallelStage;
+}
+
+export const isParallelizableProcessor = (processor: object): processor is ParallelizableProcessor =>
+    typeof (<ParallelizableProcessor>processor).toParallelStage === 'function';
+
+/**
+ * returns the number of chunks to split a parallel stream into when no parallelism is given,
+ * one chunk per available cpu
+ */
+export const defaultParallelism = (): number => {
+    const os: typeof OS = require("os");
+    return Math.max(1, os.cpus().length);
+}
+
+/**
+ * an error thrown in a worker, reduced to plain data so that it can be sent back to the calling thread
+ */
+interface ReportedError {
+    name: string;
+    message: string;
+    stack?: string;
+}
+
+interface ChunkResult {
+    values: any[];
+    error?: ReportedError;
+    sequentialOnly?: boolean;
+}
+
+/**
+ * the longest time to wait for all of the workers to finish when no timeout is given, after which they are stopped
+ */
+const DEFAULT_WORKER_TIMEOUT_MS = 10 * 60 * 1000;
+
+const BUILT_IN_ERRORS: { [name: string]: new (message?: string) => Error } = {
+    Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError,
+};
+
+/**
+ * returns the Function rebuilt from its source code, the same way it is rebuilt inside of a worker
+ */
+const rebuild = (Function: Function<any, any>): Function<any, any> =>
+    new global.Function('"use strict"; return (' + Function.toString() + ');')();
+
+/**
+ * returns true if the Function of the stage can be rebuilt from its source code, so that it can be sent to a worker.
+ * A Function that can be rebuilt may still not be self contained, or the values may not survive being copied,
+ * this is only found out once it is run in the worker, in which case the values are processed sequentially instead.
+ */
+export const canRunInWorker = (stage: ParallelStage): boolean => {
+    try {
+        return typeof rebuild(stage.Function) === 'function';
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * runs in every worker, applies the stages to each value in its chunk, posts the results back on the
+ * port it is sent and then wakes the main thread, null and undefined values are dropped after every stage
+ * just as they are in a ProcessorPipeline. The main thread is also woken if the worker exits without
+ * a result. A ReferenceError or TypeError means a Function refers to variables or a `this` it does not have 
+ * in the worker, or a value lost its prototype when it was copied, and a DataCloneError means a result can not
+ * be copied back. These are reported so that the values can be processed sequentially instead.
+ */
+const workerScript = `
+const { parentPort, workerData } = require('worker_threads');
+const { chunk, stages, signal, index } = workerData;
+
+const wake = () => {
+    Atomics.store(signal, index, 1);
+    Atomics.notify(signal, index);
+};
+process.on('exit', wake);
+
+const report = (e) => e instanceof Error
+    ? { name: e.name, message: e.message, stack: e.stack }
+    : { name: 'Error', message: String(e) };
+
+const isSequentialOnly = (e) => e instanceof ReferenceError || e instanceof TypeError
+    || (e !== null && typeof e === 'object' && e.name === 'DataCloneError');
+
+parentPort.once('message', (port) => {
+    let result = { values: [] };
+    try {
+        const operations = stages.map(stage => ({ type: stage.type, fn: new Function('"use strict"; return (' + stage.source + ');')() }));
+        const isPresent = (value) => value !== null && value !== undefined;
+        for (const input of chunk) {
+            let values = [input];
+            for (const operation of operations) {
+                if (operation.type === 'map') {
+                    values = values.map(value => operation.fn(value)).filter(isPresent);
+                } else if (operation.type === 'filter') {
+                    values = values.filter(value => operation.fn(value));
+                } else {
+                    values = values.reduce((all, value) => all.concat([...operation.fn(value)].filter(isPresent)), []);
+                }
+            }
+            result.values.push(...values);
+        }
+    } catch (e) {
+        result = isSequentialOnly(e)
+            ? { values: [], sequentialOnly: true }
+            : { values: [], error: report(e) };
+    }
+    try {
+        port.postMessage(result);
+    } catch (e) {
+        port.postMessage(isSequentialOnly(e) ? { values: [], sequentialOnly: true } : { values: [], error: report(e) });
+    }
+    port.close();
+    wake();
+});
+`;
+
+/**
+ * recreates an error reported by a worker, keeping its type (for the built in error types), name, message and stack
+ */
+const toError = (reported: ReportedError): Error => {
+    const ErrorType = BUILT_IN_ERRORS.hasOwnProperty(reported.name) ? BUILT_IN_ERRORS[reported.name] : Error;
+    const error = new ErrorType(reported.message);
+    error.name = reported.name;
+    if (reported.stack !== undefined) {
+        error.stack = reported.stack;
+    }
+    return error;
+};
+
+/**
+ * Runs the given stages over every chunk, each chunk in its own worker thread, and blocks the calling thread
+ * until all of the workers have finished, or the timeout has passed. While it is blocked the event loop of the
+ * calling thread does not run, so no timers, I/O callbacks or other work of that thread run either.
+ * Returns the processed values of each chunk, in the order of the chunks, or empty if the stages could not be 
+ * run in a worker, in which case the chunks should be processed sequentially.
+ *
+ * values are copied to and from the workers with the structured clone algorithm, so they should be plain data,
+ * the chunks are processed sequentially if a value can not be copied, or a stage throws a ReferenceError or TypeError.
+ * if any of the stages throws another error, an IllegalStateException is thrown on the calling thread, with the error 
+ * as its cause. An IllegalStateException is also thrown if a worker exits without a result, or the workers do 
+ * not finish in time.
+ *
+ * @param chunks values to process, every chunk is processed by a separate worker
+ * @param stages operations to apply to each value, in order
+ * @param timeout the longest time in milliseconds to wait for all of the workers to finish
+ */
+export function runInParallel<I, O>(chunks: I[][], stages: ParallelStage[], timeout: number = DEFAULT_WORKER_TIMEOUT_MS): Optional<O[][]> {
+    const workerThreads: typeof WorkerThreads = require("worker_threads");
+    const signal = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * Math.max(1, chunks.length)));
+    const serializedStages = stages.map(stage => ({ type: stage.type, source: stage.Function.toString() }));
+
+    const running: { worker: WorkerThreads.Worker, port: WorkerThreads.MessagePort }[] = [];
+    const stopAll = () => running.forEach(({ worker, port }) => {
+        port.close();
+        worker.terminate();
+    });
+    try {
+        chunks.forEach((chunk, index) => {
+            const { port1, port2 } = new workerThreads.MessageChannel();
+            const worker = new workerThreads.Worker(workerScript, {
+                eval: true,
+                workerData: { chunk, stages: serializedStages, signal, index },
+            });
+            // errors of a worker are reported through its result, the listener keeps them from being thrown again later
+            worker.on('error', () => undefined);
+            running.push({ worker, port: port1 });
+            worker.postMessage(port2, [port2]);
+        });
+    } catch (e) {
+        stopAll();
+        if (e !== null && typeof e === 'object' && e.name === 'DataCloneError') {
+            return Optional.empty();
+        }
+        throw e;
+    }
+
+    const deadline = Date.now() + timeout;
+    const results: ChunkResult[] = [];
+    for (let index = 0; index < running.length; index++) {
+        if (Atomics.wait(signal, index, 0, Math.max(0, deadline - Date.now())) === 'timed-out') {
+            stopAll();
+            throw new IllegalStateException(`parallel workers did not finish within ${timeout}ms`);
+        }
+        const { worker, port } = running[index];
+        const received = workerThreads.receiveMessageOnPort(port);
+        port.close();
+        worker.terminate();
+        results.push(received ? received.message : { values: [], error: { name: 'Error', message: 'worker exited without a result' } });
+    }
+
+    if (results.some(result => result.sequentialOnly === true)) {
+        return Optional.empty();
+    }
+    const failed = results.filter(result => result.error !== undefined);
+    if (failed.length > 0) {
+        const cause = toError(<ReportedError>failed[0].error);
+        throw new IllegalStateException(`a parallel operation failed: ${cause.message}`, cause);
+    }
+    return Optional.of(results.map(result => result.values));
+}
@@ -1,6 +1,11 @@
 import { Function, Predicate, BiPredicate, Consumer, Comparator } from "./functions";
 import Optional from "./optional";
+import Result from "./result";
+import * as hash from 'js-hash-code';
 import Stream, { StreamIterator } from "./stream";
+import { ParallelizableProcessor, ParallelStage } from "./parallel";
+import { structuralEquality } from "./map/hashIndex";
+import { IllegalArgumentException } from "./errors";
 
 /**
  * A Processor describes a operation to be applied to a given input to transform it
@@ -48,19 +53,60 @@ export interface Processor<Input, Output> {
      * returns true if the given processor is a short circuting operation
      */
     isShortCircuting(): boolean;
+
+    /**
+     * called once no more inputs will be added to the processor, allowing a processor
+     * that holds on to inputs between outputs to release them. may be called more than once.
+     */
+    endOfInput(): void;
+}
+
+/**
+ * A Processor that is able to work on several inputs at once, such as starting several asynchronous
+ * operations before the first of their results is requested. A pipeline running such a processor 
+ * should keep adding inputs while canAcceptInput() returns true.
+ */
+export interface ConcurrentProcessor<Input, Output> extends Processor<Input, Output> {
+    /**
+     * returns true if the processor has capacity for another input before its next output is requested
+     */
+    canAcceptInput(): boolean;
+}
+
+/**
+ * options for a mapAsync operation
+ * concurrency: the maximum number of mapping Promises in flight at once, a positive integer
+ * ordered: if true (the default) results are returned in the order of the inputs, otherwise results are
+ * returned in the order the Promises complete
+ */
+export interface MapAsyncOptions {
+    concurrency: number;
+    ordered?: boolean;
 }
 
+export const isConcurrentProcessor = <I, O>(processor: Processor<I, O>): processor is ConcurrentProcessor<I, O> =>
+    typeof (<ConcurrentProcessor<I, O>>processor).canAcceptInput === 'function';
+
 export const Processor = {
     mapProcessor: <I, O>(Function: Function<I, O>): Processor<I, O> => new MapProcessor<I, O>(Function),
+    mapTryProcessor: <I, O>(Function: Function<I, O>): Processor<I, Result<O, Error>> => new MapTryProcessor<I, O>(Function),
     filterProcessor: <I>(predicate: Predicate<I>): Processor<I, I> => new FilterProcessor<I>(predicate),
     listFlatMapProcessor: <I, O>(Function: Function<I, O[]>): Processor<I, O> => new ListFlatMapProcessor(Function),
     distinctProcessor: <I>(comparator: BiPredicate<I, I>): Processor<I, I> => new DistinctProcessor<I>(comparator),
+    hashDistinctProcessor: <I, K>(keyFunction: Function<I, K>, keyEquality?: BiPredicate<K, K>): Processor<I, I> => new HashDistinctProcessor<I, K>(keyFunction, keyEquality),
     limitProcessor: <I>(limit: number): Processor<I, I> => new LimitProcessor<I>(limit),//todo test
+    takeWhileProcessor: <I>(predicate: Predicate<I>): Processor<I, I> => new TakeWhileProcessor<I>(predicate),
+    dropWhileProcessor: <I>(predicate: Predicate<I>): Processor<I, I> => new DropWhileProcessor<I>(predicate),
     streamFlatMapProcessor: <I, O>(Function: Function<I, Stream<O>>): Processor<I, O> => new StreamFlatMapProcessor(Function),
     peekProcessor: <I>(consumer: Consumer<I>): Processor<I, I> => new PeekProcessor(consumer),
     optionalFlatMapProcessor: <I, O>(Function: Function<I, Optional<O>>): Processor<I, O> => new OptionalFlatMapProcessor(Function),
     skipProcessor: <I>(numberToSkip: number): Processor<I, I> => new SkipProcessor(numberToSkip),
     sortProcessor: <I>(comparator: Comparator<I>): Processor<I, I> => new SortProcessor(comparator),
+    reverseProcessor: <I>(): Processor<I, I> => new ReverseProcessor<I>(),
+    chunkProcessor: <I>(size: number): Processor<I, I[]> => new SlidingWindowProcessor(size, size, true),
+    slidingProcessor: <I>(size: number, step: number): Processor<I, I[]> => new SlidingWindowProcessor(size, step, false),
+    windowByProcessor: <I>(predicate: Predicate<I>): Processor<I, I[]> => new WindowByProcessor(predicate),
+    mapAsyncProcessor: <I, O>(Function: Function<I, O | Promise<O>>, options: MapAsyncOptions): ConcurrentProcessor<I, Promise<O>> => new MapAsyncProcessor(Function, options),
 }
 
 /**
@@ -86,6 +132,9 @@ abstract class AbstractProcessor<Input, Output> implements Processor<Input, Outp
         return this.inputs.length > 0;
     }
 
+    public endOfInput(): void {
+    }
+
     abstract processAndGetNext(): Optional<Output>;
     abstract isStateless(): boolean;
     abstract isShortCircuting(): boolean;
@@ -139,6 +188,71 @@ class LimitProcessor<Input> extends AbstractProcessor<Input, Input> {
     }
 }
 
+/**
+ * Short circuiting processor, returns inputs until the first input that does not match the predicate,
+ * after which no more inputs are returned.
+ */
+class TakeWhileProcessor<Input> extends AbstractProcessor<Input, Input> {
+    private readonly predicate: Predicate<Input>;
+    private taking: boolean;
+
+    public constructor(predicate: Predicate<Input>) {
+        super();
+        this.predicate = predicate;
+        this.taking = true;
+    }
+
+    public processAndGetNext(): Optional<Input> {
+        if (this.taking) {
+            const nextInput = this.takeNextInput();
+            if (nextInput.isPresent() && !this.predicate(nextInput.get())) {
+                this.taking = false;
+                this.inputs = [];
+                return Optional.empty();
+            }
+            return nextInput;
+        } else {
+            return Optional.empty();
+        }
+    }
+
+    public hasNext(): boolean {
+        return this.taking;
+    }
+
+    public isStateless(): boolean {
+        return true;
+    }
+
+    public isShortCircuting(): boolean {
+        return true;
+    }
+}
+
+/**
+ * stateless processor, removes inputs while they match the predicate, once an input does not match
+ * the predicate, it and all following inputs are returned.
+ */
+class DropWhileProcessor<Input> extends PureStatelessProcessor<Input, Input> {
+    private readonly predicate: Predicate<Input>;
+    private dropping: boolean;
+
+    public constructor(predicate: Predicate<Input>) {
+        super();
+        this.predicate = predicate;
+        this.dropping = true;
+    }
+
+    public processAndGetNext(): Optional<Input> {
+        const nextInput = this.takeNextInput();
+        if (this.dropping && nextInput.isPresent() && this.predicate(nextInput.get())) {
+            return Optional.empty();
+        }
+        this.dropping = false;
+        return nextInput;
+    }
+}
+
 /**
  * This is a stateful processor, that will return distinct elements provided all 
  * the inputs are given at the start, and no elements are injected mid processing
@@ -189,6 +303,48 @@ class DistinctProcessor<Input> extends AbstractProcessor<Input, Input> {
     }
 }
 
+/**
+ * Stateless processor that returns the first input for each distinct key, keys are extracted from the inputs
+ * with the key function and grouped by their hash code (the same hashing used by Map), so each input is only compared
+ * with the keys that have the same hash code. Keys are compared with the key equality function if one is given,
+ * otherwise structurally, the same as the keys of a Map.
+ */
+class HashDistinctProcessor<Input, Key> extends PureStatelessProcessor<Input, Input> {
+    private keyFunction: Function<Input, Key>;
+    private keyEquality: BiPredicate<Key, Key>;
+    private seenKeys: {
+        [keyHash: string]: Key[];
+    };
+
+    constructor(keyFunction: Function<Input, Key>, keyEquality?: BiPredicate<Key, Key>) {
+        super();
+        this.keyFunction = keyFunction;
+        this.keyEquality = keyEquality ? keyEquality : structuralEquality;
+        this.seenKeys = {};
+    }
+
+    public processAndGetNext(): Optional<Input> {
+        return this.takeNextInput().filter(i => this.addIfUnique(this.keyFunction(i)));
+    }
+
+    /**
+     * adds the key to the seen keys if it has not been seen before,
+     * returns true if the key is distinct, otherwise false
+     */
+    private addIfUnique(key: Key): boolean {
+        const keyHash: string = hash(key);
+        const bucket: Key[] | undefined = this.seenKeys[keyHash];
+        if (bucket === undefined) {
+            this.seenKeys[keyHash] = [key];
+            return true;
+        } else if (bucket.some(seenKey => this.keyEquality(key, seenKey))) {
+            return false;
+        }
+        bucket.push(key);
+        return true;
+    }
+}
+
 class SortProcessor<Input> extends AbstractProcessor<Input, Input> {
 
     private comparator: Comparator<Input>;
@@ -229,11 +385,30 @@ class SortProcessor<Input> extends AbstractProcessor<Input, Input> {
         return false;
     }
 }
+
+/**
+ * Stateful processor, returns all of its inputs in the reverse order, all inputs must be
+ * added before the first value is processed.
+ */
+class ReverseProcessor<Input> extends AbstractProcessor<Input, Input> {
+
+    public processAndGetNext(): Optional<Input> {
+        return Optional.ofNullable(this.inputs.pop());
+    }
+
+    public isStateless(): boolean {
+        return false;
+    }
+
+    public isShortCircuting(): boolean {
+        return false;
+    }
+}
 /**
  * Implemention of a Processor for value mapping, lazily transforms values
  * when returned from the processor. 
  */
-class MapProcessor<Input, Output> extends PureStatelessProcessor<Input, Output> {
+class MapProcessor<Input, Output> extends PureStatelessProcessor<Input, Output> implements ParallelizableProcessor {
 
     private Function: Function<Input, Output>;
 
@@ -246,6 +421,102 @@ class MapProcessor<Input, Output> extends PureStatelessProcessor<Input, Output>
     public processAndGetNext(): Optional<Output> {
         return this.takeNextInput().map(this.Function);
     }
+
+    public toParallelStage(): ParallelStage {
+        return { type: 'map', Function: this.Function };
+    }
+}
+
+/**
+ * Version of the MapProcessor that catches errors thrown by the Function, outputting a Result of each input.
+ * It is not parallelizable, as the Function is wrapped in a closure that could not be rebuilt inside of a worker.
+ */
+class MapTryProcessor<Input, Output> extends PureStatelessProcessor<Input, Result<Output, Error>> {
+
+    private Function: Function<Input, Output>;
+
+    public constructor(Function: Function<Input, Output>) {
+        super();
+        this.Function = Function;
+    }
+
+    public processAndGetNext(): Optional<Result<Output, Error>> {
+        return this.takeNextInput().map(input => Result.attempt(() => this.Function(input)));
+    }
+}
+
+/**
+ * Concurrent version of the MapProcessor for Promise returning Functions, the Function is applied to every input
+ * as soon as an output is requested, keeping up to the concurrency limit of Promises in flight at once. Outputs are 
+ * Promises of the mapped values, either in the order of the inputs or in the order the Promises complete.
+ */
+class MapAsyncProcessor<Input, Output> extends PureStatelessProcessor<Input, Promise<Output>> implements ConcurrentProcessor<Input, Promise<Output>> {
+
+    private Function: Function<Input, Output | Promise<Output>>;
+    private concurrency: number;
+    private ordered: boolean;
+    private inFlight: Promise<Output>[];
+
+    public constructor(Function: Function<Input, Output | Promise<Output>>, options: MapAsyncOptions) {
+        super();
+        this.Function = Function;
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+            throw new IllegalArgumentException(`mapAsync concurrency must be a positive integer, got ${options.concurrency}`);
+        }
+        this.concurrency = options.concurrency;
+        this.ordered = options.ordered !== false;
+        this.inFlight = [];
+    }
+
+    public canAcceptInput(): boolean {
+        return this.inputs.length + this.inFlight.length < this.concurrency;
+    }
+
+    public hasNext(): boolean {
+        return this.inputs.length > 0 || this.inFlight.length > 0;
+    }
+
+    /**
+     * starts the Function on all the waiting inputs, rejections are marked as handled here
+     * as they are reported when the output is awaited
+     */
+    private startWaitingInputs(): void {
+        while (this.inputs.length > 0) {
+            const input = <Input>this.inputs.shift();
+            const promise = new Promise<Output>(resolve => resolve(this.Function(input)));
+            promise.catch(() => { });
+            this.inFlight.push(promise);
+        }
+    }
+
+    /**
+     * returns a Promise of the first in flight Promise to complete, removing it
+     * from the in flight Promises once complete. Promises are wrapped in an array while racing
+     * so that the completed Promise itself, rather than its value, is identified. If an earlier
+     * request already took the winner, the race is run again over the Promises still in flight.
+     */
+    private firstToComplete(): Promise<Output> {
+        const completed = (promise: Promise<Output>): Promise<Promise<Output>[]> => promise.then(() => [promise], () => [promise]);
+        return Promise.race(this.inFlight.map(completed))
+            .then(([promise]) => {
+                const index = this.inFlight.indexOf(promise);
+                if (index < 0) {
+                    return this.firstToComplete();
+                }
+                this.inFlight.splice(index, 1);
+                return promise;
+            });
+    }
+
+    public processAndGetNext(): Optional<Promise<Output>> {
+        this.startWaitingInputs();
+        if (this.inFlight.length === 0) {
+            return Optional.empty();
+        }
+        return this.ordered
+            ? Optional.ofNullable(this.inFlight.shift())
+            : Optional.of(this.firstToComplete());
+    }
 }
 
 /**
@@ -272,7 +543,7 @@ class PeekProcessor<Input> extends PureStatelessProcessor<Input, Input> {
  * Stateless process, filters input items against a given predicated, only
  * returning those who match against the given predicate.
  */
-class FilterProcessor<Input> extends PureStatelessProcessor<Input, Input> {
+class FilterProcessor<Input> extends PureStatelessProcessor<Input, Input> implements ParallelizableProcessor {
     private predicate: Predicate<Input>;
 
     public constructor(predicate: Predicate<Input>) {
@@ -283,6 +554,10 @@ class FilterProcessor<Input> extends PureStatelessProcessor<Input, Input> {
     public processAndGetNext(): Optional<Input> {
         return this.takeNextInput().filter(this.predicate);
     }
+
+    public toParallelStage(): ParallelStage {
+        return { type: 'filter', Function: this.predicate };
+    }
 }
 
 /**
@@ -313,7 +588,7 @@ class SkipProcessor<Input> extends PureStatelessProcessor<Input, Input> {
  * a list of output elements, returning the values off the output lists, one list
  * at a time, lazily transforming inputs only when the previous list is exhausted.
  */
-class ListFlatMapProcessor<Input, Output> extends PureStatelessProcessor<Input, Output> {
+class ListFlatMapProcessor<Input, Output> extends PureStatelessProcessor<Input, Output> implements ParallelizableProcessor {
     private outputList: Output[];
     private Function: Function<Input, Output[]>;
 
@@ -339,6 +614,10 @@ class ListFlatMapProcessor<Input, Output> extends PureStatelessProcessor<Input,
         }
         return Optional.empty();
     }
+
+    public toParallelStage(): ParallelStage {
+        return { type: 'flatMapList', Function: this.Function };
+    }
 }
 
 /**
@@ -388,4 +667,116 @@ class OptionalFlatMapProcessor<Input, Output> extends PureStatelessProcessor<Inp
     public processAndGetNext(): Optional<Output> {
         return this.takeNextInput().flatMap(this.Function);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Abstract stateless processor that groups its inputs into windows, windows are only returned once they are complete,
+ * so inputs are held on to until the window they belong to is complete, or there are no more inputs.
+ */
+abstract class AbstractWindowProcessor<Input> extends PureStatelessProcessor<Input, Input[]> {
+    protected completedWindows: Input[][];
+
+    constructor() {
+        super();
+        this.completedWindows = [];
+    }
+
+    /**
+     * adds the input to the current window(s), moving any windows that are complete to the completedWindows
+     */
+    protected abstract addToWindow(input: Input): void;
+
+    /**
+     * called when there are no more inputs, moves any incomplete windows that should be returned to the completedWindows
+     */
+    protected abstract closeWindows(): void;
+
+    public hasNext(): boolean {
+        return this.inputs.length > 0 || this.completedWindows.length > 0;
+    }
+
+    public processAndGetNext(): Optional<Input[]> {
+        this.takeNextInput().ifPresent(input => this.addToWindow(input));
+        return Optional.ofNullable(this.completedWindows.shift());
+    }
+
+    public endOfInput(): void {
+        let nextInput = this.takeNextInput();
+        while (nextInput.isPresent()) {
+            this.addToWindow(nextInput.get());
+            nextInput = this.takeNextInput();
+        }
+        this.closeWindows();
+    }
+}
+
+/**
+ * groups inputs into windows of the given size, starting a new window every step inputs. If the step
+ * is larger than the size, the inputs between windows are dropped. The last incomplete window is only 
+ * returned if keepPartialWindow is true.
+ */
+class SlidingWindowProcessor<Input> extends AbstractWindowProcessor<Input> {
+    private readonly size: number;
+    private readonly step: number;
+    private readonly keepPartialWindow: boolean;
+    private currentWindow: Input[];
+    private toSkip: number;
+
+    constructor(size: number, step: number, keepPartialWindow: boolean) {
+        super();
+        this.size = size;
+        this.step = step;
+        this.keepPartialWindow = keepPartialWindow;
+        this.currentWindow = [];
+        this.toSkip = 0;
+    }
+
+    protected addToWindow(input: Input): void {
+        if (this.toSkip > 0) {
+            this.toSkip--;
+        } else {
+            this.currentWindow.push(input);
+            if (this.currentWindow.length === this.size) {
+                this.completedWindows.push(this.currentWindow);
+                this.currentWindow = this.currentWindow.slice(Math.min(this.step, this.size));
+                this.toSkip = Math.max(0, this.step - this.size);
+            }
+        }
+    }
+
+    protected closeWindows(): void {
+        if (this.keepPartialWindow && this.currentWindow.length > 0) {
+            this.completedWindows.push(this.currentWindow);
+        }
+        this.currentWindow = [];
+    }
+}
+
+/**
+ * groups consecutive inputs into windows, every input matching the predicate starts a new window.
+ */
+class WindowByProcessor<Input> extends AbstractWindowProcessor<Input> {
+    private readonly predicate: Predicate<Input>;
+    private currentWindow: Input[];
+
+    constructor(predicate: Predicate<Input>) {
+        super();
+        this.predicate = predicate;
+        this.currentWindow = [];
+    }
+
+    protected addToWindow(input: Input): void {
+        if (this.currentWindow.length > 0 && this.predicate(input)) {
+            this.completedWindows.push(this.currentWindow);
+            this.currentWindow = [];
+        }
+        this.currentWindow.push(input);
+    }
+
+    protected closeWindows(): void {
+        if (this.currentWindow.length > 0) {
+            this.completedWindows.push(this.currentWindow);
+        }
+        this.currentWindow = [];
+    }
+}
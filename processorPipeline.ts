@@ -1,7 +1,27 @@
 import { Processor } from "./processor";
 import Optional from "./optional";
-import { Function } from "./functions";
-import { Source } from "./source";
+import { Function, Consumer, Runnable } from "./functions";
+import { StreamProcessingError, IllegalStateException, IllegalArgumentException } from "./errors";
+import { Source, isSplittableSource, isCloseableSource } from "./source";
+import { ParallelStage, isParallelizableProcessor, runInParallel, defaultParallelism, canRunInWorker } from "./parallel";
+
+/**
+ * what a stream does when one of its operations throws, see Stream.onError
+ * skip: the element that failed is dropped and the stream continues with the next element
+ * stop: the stream ends at the element that failed, as if the source had run out
+ * a Consumer: the consumer is given the error, and the element that failed is dropped
+ */
+export type ErrorPolicy = 'skip' | 'stop' | Consumer<StreamProcessingError>;
+
+/**
+ * settings shared by every pipeline built up from the same source
+ */
+interface PipelineSettings {
+    parallel: boolean;
+    parallelism?: number;
+    timeout?: number;
+    closeHandlers: Runnable[];
+}
 
 /**
  * The processor pipeline is a linked list of processor nodes, the pipeline needs to be given items to process first, 
@@ -14,11 +34,13 @@ export class ProcessorPipeline<S, F> {
     private initialFeed: InitialFeedProcessorNode<S>;
     private headProcessor: ProcessorNode<S, any>;
     private tailProcessor: ProcessorNode<any, F>;
+    private settings: PipelineSettings;
 
-    private constructor(initialFeed: InitialFeedProcessorNode<S>, headNode: ProcessorNode<S, any>, tailNode: ProcessorNode<any, F>) {
+    private constructor(initialFeed: InitialFeedProcessorNode<S>, headNode: ProcessorNode<S, any>, tailNode: ProcessorNode<any, F>, settings: PipelineSettings) {
         this.initialFeed = initialFeed;
         this.headProcessor = headNode;
         this.tailProcessor = tailNode;
+        this.settings = settings;
         this.headProcessor.addPreviousNode(this.initialFeed);
     }
 
@@ -32,26 +54,173 @@ export class ProcessorPipeline<S, F> {
     }
 
     /**
-     * creates a new Pipeline with the given processor as the first operation
-     * @param initalProcessor 
+     * creates a new Pipeline pulling its values from the source, if the source is a CloseableSource
+     * it is closed when the pipeline is closed
+     * @param source 
      */
     public static create<S>(source: Source<S>): ProcessorPipeline<S, S> {
         const initialNode = new InitialFeedProcessorNode<S>(source);
-        const node = new ProcessorNode<S, S>(Processor.mapProcessor(Function.identity()));
-        return new ProcessorPipeline(initialNode, node, node);
+        const node = new ProcessorNode<S, S>(Processor.mapProcessor(Function.identity()), 0, SOURCE_STAGE_NAME);
+        const pipeline = new ProcessorPipeline(initialNode, node, node, { parallel: false, closeHandlers: [] });
+        if (isCloseableSource(source)) {
+            pipeline.onClose(() => source.close());
+        }
+        return pipeline;
     }
 
     /**
-     * adds a new processor to the end of the pipeline, returning a new pipeline
+     * adds a new processor to the end of the pipeline, returning a new pipeline, a pipeline can only be extended once, 
+     * as its nodes are shared with the new pipeline, throws an IllegalStateException if it has already been extended.
      * @param addedProcessor 
      */
     public addProcessor<NF>(addedProcessor: Processor<F, NF>): ProcessorPipeline<S, NF> {
-        const newNode = new ProcessorNode(addedProcessor);
         const oldTail = this.tailProcessor;
+        if (oldTail.getNextNode().isPresent()) {
+            throw new IllegalStateException('a processor has already been added to the end of this pipeline');
+        }
+        const newNode = new ProcessorNode(addedProcessor, oldTail.getStage() + 1);
         oldTail.addNextNode(newNode);
         newNode.addPreviousNode(oldTail);
 
-        return new ProcessorPipeline<S, NF>(this.initialFeed, this.headProcessor, newNode)
+        return new ProcessorPipeline<S, NF>(this.initialFeed, this.headProcessor, newNode, this.settings)
+    }
+
+    /**
+     * sets if the pipeline should be run in parallel, this applies to every pipeline built from the same source
+     * @param parallel true to run the pipeline in parallel, false to run it sequentially
+     * @param parallelism number of chunks to split the source into, defaults to one per cpu
+     * @param timeout the longest time in milliseconds to wait for the workers, defaults to ten minutes
+     */
+    public setParallel(parallel: boolean, parallelism?: number, timeout?: number): void {
+        if (timeout !== undefined && !(timeout > 0)) {
+            throw new IllegalArgumentException(`timeout must be a positive number of milliseconds, got ${timeout}`);
+        }
+        this.settings.parallel = parallel;
+        this.settings.parallelism = parallelism;
+        this.settings.timeout = timeout;
+    }
+
+    /**
+     * sets what happens when an operation of the pipeline, up to and including the last one, throws an error.
+     * The error is wrapped in a StreamProcessingError and handled according to the policy, the policy only applies 
+     * when the pipeline is processed sequentially. Errors no policy handles are rethrown as they were thrown.
+     * @param policy 
+     */
+    public setErrorPolicy(policy: ErrorPolicy): void {
+        const tail = this.tailProcessor;
+        tail.setErrorHandler(error => {
+            if (policy === 'stop') {
+                tail.stopPulling();
+            } else if (policy !== 'skip') {
+                policy(error);
+            }
+            return Optional.empty<F>();
+        });
+    }
+
+    /**
+     * sets that when an operation of the pipeline, up to and including the last one, throws an error, the result of
+     * applying the recovery function to the error is returned in place of the element that failed.
+     * @param recovery 
+     */
+    public setRecovery(recovery: Function<StreamProcessingError, F>): void {
+        this.tailProcessor.setErrorHandler(error => Optional.ofNullable(recovery(error)));
+    }
+
+    /**
+     * adds a handler to be run when the pipeline is closed, this applies to every pipeline built from the same source
+     * @param handler 
+     */
+    public onClose(handler: Runnable): void {
+        this.settings.closeHandlers.push(handler);
+    }
+
+    /**
+     * runs the close handlers in the order they were added, each handler is only run once no matter how many times
+     * the pipeline is closed. Every handler is run even if one throws, the first error thrown is rethrown once all have run.
+     */
+    public close(): void {
+        const handlers = this.settings.closeHandlers;
+        this.settings.closeHandlers = [];
+        const errors: Error[] = [];
+        handlers.forEach(handler => {
+            try {
+                handler();
+            } catch (error) {
+                errors.push(error);
+            }
+        });
+        if (errors.length > 0) {
+            throw errors[0];
+        }
+    }
+
+    /**
+     * returns true if the pipeline should be run in parallel
+     */
+    public isParallel(): boolean {
+        return this.settings.parallel;
+    }
+
+    /**
+     * Runs the leading stateless operations of the pipeline in worker threads, the source is split into chunks
+     * and each chunk is processed in a separate worker. If the whole pipeline could be run in parallel the processed 
+     * values of each chunk are returned, otherwise the values are fed back into the rest of the pipeline, to be processed
+     * sequentially, and empty is returned.
+     *
+     * nothing is run in parallel and empty is returned if the pipeline is not parallel, the source can not be split, 
+     * or the pipeline does not begin with any operations that can be run in parallel. Only operations whose functions
+     * are self contained can be run in a worker, if one turns out not to be, the values are processed sequentially.
+     */
+    public runParallel(): Optional<F[][]> {
+        const nodes = this.getNodes();
+        const stages: ParallelStage[] = [];
+        for (const node of nodes) {
+            const stage = node.toParallelStage();
+            if (!stage.isPresent() || !canRunInWorker(stage.get())) {
+                break;
+            }
+            stages.push(stage.get());
+        }
+
+        if (!this.isParallel() || stages.length === 0) {
+            return Optional.empty();
+        }
+        const parallelism = this.settings.parallelism !== undefined
+            ? Math.max(1, Math.floor(this.settings.parallelism))
+            : defaultParallelism();
+        const chunks = this.initialFeed.split(parallelism);
+        if (!chunks.isPresent()) {
+            return Optional.empty();
+        }
+
+        const parallelResults: Optional<any[][]> = runInParallel(chunks.get(), stages, this.settings.timeout);
+        if (!parallelResults.isPresent()) {
+            const values = chunks.get().reduce((all, chunk) => all.concat(chunk), []);
+            this.initialFeed.replaceSource(Source.arraySource(values));
+            return Optional.empty();
+        }
+        const results = parallelResults.get();
+        if (stages.length === nodes.length) {
+            return Optional.of(results);
+        } else {
+            const processedValues = results.reduce((all, chunk) => all.concat(chunk), []);
+            nodes[stages.length].addPreviousNode(new InitialFeedProcessorNode(Source.arraySource(processedValues)));
+            return Optional.empty();
+        }
+    }
+
+    /**
+     * returns all the nodes of the pipeline, from head to tail, not including the initial feed
+     */
+    private getNodes(): ProcessorNode<any, any>[] {
+        const nodes: ProcessorNode<any, any>[] = [];
+        let node: ProcessorNode<any, any> = this.tailProcessor;
+        while (node !== this.initialFeed) {
+            nodes.unshift(node);
+            node = node.getPreviousNode().get();
+        }
+        return nodes;
     }
 
     /**
@@ -61,7 +230,7 @@ export class ProcessorPipeline<S, F> {
      */
     public getNextResult(): Optional<F> {
         if (this.hasNext()) { 
-            const possibleValue: Optional<F> = this.tailProcessor.getProcessedValue();
+            const possibleValue: Optional<F> = this.getTailValue();
             if (possibleValue.isPresent()) {
                 return possibleValue;
             } else {
@@ -70,6 +239,18 @@ export class ProcessorPipeline<S, F> {
         } 
         return Optional.empty();
     }
+
+    /**
+     * returns the next value of the tail node, the StreamProcessingError describing a failed operation is only
+     * given to the error handlers, an error none of them handled is rethrown as the operation threw it.
+     */
+    private getTailValue(): Optional<F> {
+        try {
+            return this.tailProcessor.getProcessedValue();
+        } catch (error) {
+            throw error instanceof StreamProcessingError ? error.cause : error;
+        }
+    }
 }
 
 /**
@@ -79,11 +260,27 @@ export class ProcessorNode<I, O> {
     private previousNode: Optional<ProcessorNode<any, I>>;
     private thisProcessor: Processor<I, O>;
     private nextNode: Optional<ProcessorNode<O, any>>;
+    private stage: number;
+    private stageName: string;
+    private lastInput?: I;
+    private errorHandler: Optional<Function<StreamProcessingError, Optional<O>>>;
+    private pullingStopped: boolean;
+    private failed: boolean;
 
-    constructor(processor: Processor<I, O>) {
+    /**
+     * @param processor the operation of this node
+     * @param stage the position of the node in the pipeline, used to describe where an error happened
+     * @param stageName the name of the operation, defaults to the name of the processor without the Processor suffix
+     */
+    constructor(processor: Processor<I, O>, stage: number = 0, stageName?: string) {
         this.previousNode = Optional.empty();
         this.thisProcessor = processor;
         this.nextNode = Optional.empty();
+        this.stage = stage;
+        this.stageName = stageName !== undefined ? stageName : nameOf(processor);
+        this.errorHandler = Optional.empty();
+        this.pullingStopped = false;
+        this.failed = false;
     }
 
     private getNextProcessedOutput(): Optional<O> {
@@ -107,19 +304,55 @@ export class ProcessorNode<I, O> {
     }
 
     addInput(input: I): void {
+        this.lastInput = input;
         this.thisProcessor.add(input);
     }
 
+    getStage(): number {
+        return this.stage;
+    }
+
+    /**
+     * sets the handler for errors thrown by this node or any node before it, the handler returns 
+     * the value to return in place of the element that failed, if any.
+     */
+    setErrorHandler(handler: Function<StreamProcessingError, Optional<O>>): void {
+        this.errorHandler = Optional.of(handler);
+    }
+
+    /**
+     * stops this node from pulling any more values from the previous node, values already in this node are still returned
+     */
+    stopPulling(): void {
+        this.pullingStopped = true;
+    }
+
     isStateless(): boolean {
         return this.thisProcessor.isStateless();
     }
 
+    /**
+     * returns the operation of this node as a ParallelStage, if it can be run in a worker thread
+     */
+    toParallelStage(): Optional<ParallelStage> {
+        return isParallelizableProcessor(this.thisProcessor)
+            ? Optional.of(this.thisProcessor.toParallelStage())
+            : Optional.empty();
+    }
+
     hasNext(): boolean {
+        if (this.failed) {
+            return false;
+        }
+        const hasPreviousAndItHasValues = this.getPreviousNode().isPresent() && !this.pullingStopped
+            ? this.getPreviousNode().get().hasNext()
+            : false;
+        if (!hasPreviousAndItHasValues) {
+            this.thisProcessor.endOfInput();
+        }
         if(this.thisProcessor.isShortCircuting()) {
-            const hasPreviousAndItHasValues = this.getPreviousNode().isPresent() ? this.getPreviousNode().get().hasNext() : false;
             return this.thisProcessor.hasNext() && hasPreviousAndItHasValues;
         } else {
-            const hasPreviousAndItHasValues = this.getPreviousNode().isPresent() ? this.getPreviousNode().get().hasNext() : false;
             return this.thisProcessor.hasNext() || hasPreviousAndItHasValues;
         }
     }
@@ -131,7 +364,7 @@ export class ProcessorNode<I, O> {
     statefulPullAndGet(): Optional<O> {
         if (this.previousNode.isPresent()) {
             const previousNode = this.previousNode.get();
-            while (previousNode.hasNext()) {
+            while (!this.pullingStopped && previousNode.hasNext()) {
                 let previousVal: Optional<I> = previousNode.getProcessedValue();
                 if(previousVal.isPresent()) {
                     this.addInput(previousVal.get());
@@ -148,7 +381,7 @@ export class ProcessorNode<I, O> {
     statelessGet(): Optional<O> {
         if (this.thisProcessor.hasNext() && !this.thisProcessor.isShortCircuting()) {
             return this.thisProcessor.processAndGetNext();
-        } else if (this.previousNode.isPresent()) {
+        } else if (this.previousNode.isPresent() && !this.pullingStopped) {
             const processedValue: Optional<I> = this.previousNode.get().getProcessedValue();
             if (processedValue.isPresent()) {
                 this.addInput(processedValue.get());
@@ -167,15 +400,53 @@ export class ProcessorNode<I, O> {
      * will greedily pull all items from the previous node into itself 
      * before processing and returning any values. 
      * 
-     * 
+     * errors thrown by the processor are wrapped in a StreamProcessingError, errors of this node or any node before it are
+     * given to the error handler if there is one, otherwise they are rethrown. A stateful processor can not continue
+     * after an error, so it returns no more values.
      */
     getProcessedValue(): Optional<O> {
-        return this.isStateless()
-            ? this.statelessGet()
-            : this.statefulPullAndGet();
+        if (this.failed) {
+            return Optional.empty();
+        }
+        try {
+            return this.isStateless()
+                ? this.statelessGet()
+                : this.statefulPullAndGet();
+        } catch (error) {
+            const processingError = this.wrapError(error);
+            if (this.errorHandler.isPresent()) {
+                return this.errorHandler.get()(processingError);
+            }
+            throw processingError;
+        }
+    }
+
+    /**
+     * wraps an error thrown by this node's processor, errors already wrapped by a previous node are returned as they are
+     */
+    private wrapError(error: any): StreamProcessingError {
+        if (error instanceof StreamProcessingError) {
+            return error;
+        } else if (this.isStateless()) {
+            return new StreamProcessingError(error, this.stage, this.stageName, this.lastInput);
+        } else {
+            this.failed = true;
+            return new StreamProcessingError(error, this.stage, this.stageName);
+        }
     }
 }
 
+const SOURCE_STAGE_NAME = 'source';
+
+/**
+ * returns the name of the processor class without the Processor suffix, i.e. map for a MapProcessor
+ */
+const nameOf = (processor: Processor<any, any>): string => {
+    const className: string = processor.constructor.name;
+    const name = className.replace(/Processor$/, '');
+    return name.length > 0 ? name.charAt(0).toLowerCase() + name.slice(1) : className;
+}
+
 /**
  * a special processor node that acts as a supplier for the rest of the pipeline
  * pulling from a Source
@@ -185,7 +456,7 @@ class InitialFeedProcessorNode<I> extends ProcessorNode<I, I> {
     private source: Source<I>;
 
     constructor(supplier: Source<I>) {
-        super(Processor.mapProcessor(Function.identity()));
+        super(Processor.mapProcessor(Function.identity()), 0, SOURCE_STAGE_NAME);
         this.source = supplier;
     }   
 
@@ -194,6 +465,26 @@ class InitialFeedProcessorNode<I> extends ProcessorNode<I, I> {
     }
 
     public getProcessedValue(): Optional<I> {
-        return Optional.ofNullable(this.source.get());
+        try {
+            return Optional.ofNullable(this.source.get());
+        } catch (error) {
+            throw new StreamProcessingError(error, 0, SOURCE_STAGE_NAME);
+        }
+    }
+
+    /**
+     * replaces the source the values are fed from, used to feed back values taken from the source with split
+     */
+    public replaceSource(source: Source<I>): void {
+        this.source = source;
+    }
+
+    /**
+     * removes all the remaining values from the source split into chunks, if the source can be split
+     */
+    public split(parts: number): Optional<I[][]> {
+        return isSplittableSource(this.source)
+            ? Optional.of(this.source.split(parts))
+            : Optional.empty();
     }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { Function, Supplier } from "../functions";
+import Optional from '../optional';
+import { NoSuchElementException } from '../errors';
+
+/**
+ * The outcome of a computation that may fail. A Result is either a success holding a value of type T, or a failure
+ * holding an error of type E. Unlike an Optional a failed Result keeps the reason it failed, so errors can be carried
+ * along with the values of a stream instead of aborting it.
+ */
+class Result<T, E = Error> {
+	private succeeded: boolean;
+	private value?: T;
+	private error?: E;
+
+	private constructor(succeeded: boolean, value?: T, error?: E) {
+		this.succeeded = succeeded;
+		this.value = value;
+		this.error = error;
+	}
+
+	/**
+	 * Return true if this Result is a success, otherwise false.
+	 */
+	public isSuccess = (): boolean => this.succeeded;
+
+	/**
+	 * Return true if this Result is a failure, otherwise false.
+	 */
+	public isFailure = (): boolean => !this.succeeded;
+
+	/**
+	 * If this Result is a success, returns the value, otherwise throws the error of the failure.
+	 */
+	public get = (): T => {
+		if (this.succeeded) {
+			return this.value as T;
+		} else {
+			throw this.error;
+		}
+	};
+
+	/**
+	 * If this Result is a failure, returns the error, otherwise throws "NoSuchElementException".
+	 */
+	public getError = (): E => {
+		if (this.succeeded) {
+			throw new NoSuchElementException('the result is a success, it has no error');
+		} else {
+			return this.error as E;
+		}
+	};
+
+	/**
+	 * If this Result is a success, return a success holding the result of applying the Function to the value,
+	 * otherwise return this failure.
+	 */
+	public map = <U>(Function: Function<T, U>): Result<U, E> => (
+		this.succeeded ? Result.success<U, E>(Function(this.get())) : Result.failure<U, E>(this.getError())
+	);
+
+	/**
+	 * If this Result is a success, return the Result of applying the Result-bearing Function to the value,
+	 * otherwise return this failure.
+	 */
+	public flatMap = <U>(Function: Function<T, Result<U, E>>): Result<U, E> => (
+		this.succeeded ? Function(this.get()) : Result.failure<U, E>(this.getError())
+	);
+
+	/**
+	 * If this Result is a failure, return a failure holding the result of applying the Function to the error,
+	 * otherwise return this success.
+	 */
+	public mapError = <F>(Function: Function<E, F>): Result<T, F> => (
+		this.succeeded ? Result.success<T, F>(this.get()) : Result.failure<T, F>(Function(this.getError()))
+	);
+
+	/**
+	 * If this Result is a failure, return a success holding the result of applying the Function to the error,
+	 * otherwise return this success.
+	 */
+	public recover = (Function: Function<E, T>): Result<T, E> => (
+		this.succeeded ? this : Result.success<T, E>(Function(this.getError()))
+	);
+
+	/**
+	 * Return the value if this Result is a success, otherwise return other.
+	 */
+	public orElse = (other: T): T => (this.succeeded ? this.get() : other);
+
+	/**
+	 * Return an Optional describing the value if this Result is a success, otherwise return an empty Optional.
+	 */
+	public toOptional = (): Optional<T> => (this.succeeded ? Optional.ofNullable(this.get()) : Optional.empty());
+
+	/**
+	 * Returns a successful Result holding the given value.
+	 */
+	public static success = <U, F = Error>(value: U): Result<U, F> => new Result<U, F>(true, value);
+
+	/**
+	 * Returns a failed Result holding the given error.
+	 */
+	public static failure = <U, F = Error>(error: F): Result<U, F> => new Result<U, F>(false, undefined, error);
+
+	/**
+	 * Invokes the supplier and returns a success holding its result, or a failure holding the error if it throws.
+	 */
+	public static attempt = <U>(supplier: Supplier<U>): Result<U, Error> => {
+		try {
+			return Result.success(supplier());
+		} catch (error) {
+			return Result.failure<U, Error>(error);
+		}
+	}
+}
+
+export default Result;
@@ -0,0 +1,288 @@
+import Stream from '../stream';
+import { Comparator, Consumer, Supplier } from '../functions';
+import { Map, TreeMap } from '../map';
+import { UnsupportedOperationException } from '../errors';
+
+/**
+ * Implementation of the java Set interface, a collection of unique values.
+ * Which values are considered the same depends on the implementation, see HashSet and TreeSet.
+ */
+export interface Set<T> {
+    /**
+     * adds the value to the set if it is not already present, returns true if the set changed
+     * @param value
+     */
+    add(value: T): boolean;
+
+    /**
+     * adds all the values of the other set to this set, returns true if the set changed
+     * @param other
+     */
+    addAll(other: Set<T>): boolean;
+
+    /**
+     * removes the value from the set if it is present, returns true if the set changed
+     * @param value
+     */
+    remove(value: T): boolean;
+
+    /**
+     * returns true if the set contains the value
+     * @param value
+     */
+    contains(value: T): boolean;
+
+    /**
+     * returns the number of values in the set
+     */
+    size(): number;
+    isEmpty(): boolean;
+    clear(): void;
+
+    /**
+     * returns a new set, of the same type as this set, containing the values that are in this set or in the other set
+     * @param other
+     */
+    union(other: Set<T>): Set<T>;
+
+    /**
+     * returns a new set, of the same type as this set, containing the values that are in both this set and the other set
+     * @param other
+     */
+    intersection(other: Set<T>): Set<T>;
+
+    /**
+     * returns a new set, of the same type as this set, containing the values of this set that are not in the other set
+     * @param other
+     */
+    difference(other: Set<T>): Set<T>;
+
+    toArray(): T[];
+    stream(): Stream<T>;
+    forEach(consumer: Consumer<T>): void;
+}
+
+export const HashSet = {
+    /**
+     * creates an empty HashSet, values are the same when they are structurally equal, as keys are in a HashMap
+     */
+    empty<T>(): Set<T> {
+        return new MapBackedSet<T>(() => Map.empty<T, boolean>());
+    },
+
+    /**
+     * creates a HashSet containing the given values
+     * @param values
+     */
+    of<T>(...values: T[]): Set<T> {
+        const set = HashSet.empty<T>();
+        values.forEach(value => set.add(value));
+        return set;
+    },
+}
+
+export const TreeSet = {
+    /**
+     * creates an empty TreeSet, the values are kept sorted by the given comparator, or Comparator.default()
+     * if none is given, and are the same when the comparator returns 0 for them.
+     * @param comparator
+     */
+    empty<T>(comparator?: Comparator<T>): Set<T> {
+        return new MapBackedSet<T>(() => TreeMap.empty<T, boolean>(comparator));
+    },
+
+    /**
+     * creates a TreeSet containing the given values, ordered by the given comparator, or Comparator.default() if none is given
+     * @param values
+     * @param comparator
+     */
+    copyOf<T>(values: T[], comparator?: Comparator<T>): Set<T> {
+        const set = TreeSet.empty<T>(comparator);
+        values.forEach(value => set.add(value));
+        return set;
+    },
+}
+
+export const Set = {
+    /**
+     * creates an empty HashSet
+     */
+    empty<T>(): Set<T> {
+        return HashSet.empty<T>();
+    },
+
+    /**
+     * creates a HashSet containing the given values
+     * @param values
+     */
+    of<T>(...values: T[]): Set<T> {
+        return HashSet.of(...values);
+    },
+
+    /**
+     * returns an unmodifiable Set containing the values of the given set, changes to the given set do not affect the copy.
+     * add, addAll, remove and clear throw an UnsupportedOperationException, union, intersection and difference
+     * return new modifiable sets.
+     * @param set
+     */
+    copyOf<T>(set: Set<T>): Set<T> {
+        if (set instanceof UnmodifiableSet) {
+            return set;
+        }
+        const copy = set.union(HashSet.empty<T>());
+        return new UnmodifiableSet<T>(copy);
+    },
+}
+
+const unsupported = (): never => {
+    throw new UnsupportedOperationException('the set is unmodifiable');
+}
+
+/**
+ * Set that delegates to another set, and throws on every method that would change it
+ */
+class UnmodifiableSet<T> implements Set<T> {
+    private set: Set<T>;
+
+    public constructor(set: Set<T>) {
+        this.set = set;
+    }
+
+    public add(value: T): boolean {
+        return unsupported();
+    }
+
+    public addAll(other: Set<T>): boolean {
+        return unsupported();
+    }
+
+    public remove(value: T): boolean {
+        return unsupported();
+    }
+
+    public clear(): void {
+        unsupported();
+    }
+
+    public contains(value: T): boolean {
+        return this.set.contains(value);
+    }
+
+    public size(): number {
+        return this.set.size();
+    }
+
+    public isEmpty(): boolean {
+        return this.set.isEmpty();
+    }
+
+    public union(other: Set<T>): Set<T> {
+        return this.set.union(other);
+    }
+
+    public intersection(other: Set<T>): Set<T> {
+        return this.set.intersection(other);
+    }
+
+    public difference(other: Set<T>): Set<T> {
+        return this.set.difference(other);
+    }
+
+    public toArray(): T[] {
+        return this.set.toArray();
+    }
+
+    public stream(): Stream<T> {
+        return this.set.stream();
+    }
+
+    public forEach(consumer: Consumer<T>): void {
+        this.set.forEach(consumer);
+    }
+}
+
+/**
+ * Set that stores its values as the keys of a Map, which decides the order and the equality of the values.
+ */
+class MapBackedSet<T> implements Set<T> {
+    private map: Map<T, boolean>;
+    private mapFactory: Supplier<Map<T, boolean>>;
+
+    public constructor(mapFactory: Supplier<Map<T, boolean>>) {
+        this.mapFactory = mapFactory;
+        this.map = mapFactory();
+    }
+
+    public add(value: T): boolean {
+        return this.map.put(value, true) === null;
+    }
+
+    public addAll(other: Set<T>): boolean {
+        return other.toArray()
+            .map(value => this.add(value))
+            .reduce((changed, added) => changed || added, false);
+    }
+
+    public remove(value: T): boolean {
+        return this.map.remove(value) !== null;
+    }
+
+    public contains(value: T): boolean {
+        return this.map.containsKey(value);
+    }
+
+    public size(): number {
+        return this.map.size();
+    }
+
+    public isEmpty(): boolean {
+        return this.map.isEmpty();
+    }
+
+    public clear(): void {
+        this.map.clear();
+    }
+
+    public union(other: Set<T>): Set<T> {
+        const union = this.emptyCopy();
+        union.addAll(this);
+        union.addAll(other);
+        return union;
+    }
+
+    public intersection(other: Set<T>): Set<T> {
+        const intersection = this.emptyCopy();
+        this.forEach(value => {
+            if (other.contains(value)) {
+                intersection.add(value);
+            }
+        });
+        return intersection;
+    }
+
+    public difference(other: Set<T>): Set<T> {
+        const difference = this.emptyCopy();
+        this.forEach(value => {
+            if (!other.contains(value)) {
+                difference.add(value);
+            }
+        });
+        return difference;
+    }
+
+    public toArray(): T[] {
+        return this.map.keySet();
+    }
+
+    public stream(): Stream<T> {
+        return this.map.keyStream();
+    }
+
+    public forEach(consumer: Consumer<T>): void {
+        this.toArray().forEach(value => consumer(value));
+    }
+
+    private emptyCopy(): Set<T> {
+        return new MapBackedSet<T>(this.mapFactory);
+    }
+}
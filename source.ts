@@ -1,4 +1,6 @@
-import { Function, Supplier, BiPredicate } from "./functions";
+import * as FS from "fs";
+import * as StringDecoders from "string_decoder";
+import { Function, Supplier, BiPredicate, Combiner } from "./functions";
 import Optional from "./optional";
 import Stream, { StreamIterator } from "./stream";
 
@@ -19,6 +21,35 @@ export interface Source<T> {
     hasNext(): boolean;
 }
 
+/**
+ * A finite Source whose remaining values can be split up into chunks, allowing them to be processed in parallel.
+ */
+export interface SplittableSource<T> extends Source<T> {
+    /**
+     * removes all the remaining values from the source, returning them in order, 
+     * split into at most the given number of similarly sized chunks.
+     */
+    split(parts: number): T[][];
+}
+
+export const isSplittableSource = <T>(source: Source<T>): source is SplittableSource<T> =>
+    typeof (<SplittableSource<T>>source).split === 'function';
+
+/**
+ * A Source holding on to a resource, such as an open file, that needs to be released once the source is no longer used.
+ * A stream of a CloseableSource closes the source when the stream is closed, see Stream.close.
+ */
+export interface CloseableSource<T> extends Source<T> {
+    /**
+     * releases the resources held by the source, no more values are returned once the source is closed.
+     * closing a source more than once has no effect.
+     */
+    close(): void;
+}
+
+export const isCloseableSource = <T>(source: Source<T>): source is CloseableSource<T> =>
+    typeof (<CloseableSource<T>>source).close === 'function';
+
 export const Source = {
     /**
      * An infinite source that continually applies a function to a previous result, starting with the seed value
@@ -43,6 +74,20 @@ export const Source = {
      * source of values that first draws values from stream1 and then stream2
      */
     concatSource: <S>(stream1: Stream<S>, stream2: Stream<S>): Source<Optional<S>> => new ConcatSource(stream1, stream2),
+
+    /**
+     * source of values created by combining the values of stream1 and stream2 pairwise, 
+     * ends as soon as either of the streams ends
+     */
+    zipSource: <A, B, R>(stream1: Stream<A>, stream2: Stream<B>, combiner: Combiner<A, B, R>): Source<Optional<R>> => 
+        new ZipSource(stream1, stream2, combiner),
+
+    /**
+     * source of values created by combining the values of stream1 and stream2 pairwise, once one of the streams 
+     * ends its fill value is used in its place, until both of the streams have ended
+     */
+    zipLongestSource: <A, B, R>(stream1: Stream<A>, stream2: Stream<B>, fill1: A, fill2: B, combiner: Combiner<A, B, R>): Source<Optional<R>> => 
+        new ZipSource(stream1, stream2, combiner, [fill1, fill2]),
     
     /**
      * creates a source of numbers based on the given start and end bounds and the step size
@@ -53,6 +98,101 @@ export const Source = {
      * 
      */
     rangeSource: (startInclusive: number, endExclusive: number, step?: number): Source<number> => new RangeSource(startInclusive, endExclusive, step),
+
+    /**
+     * a source backed by any ES Iterable (arrays, generators, Set, native Map etc.), values are pulled
+     * from the iterable's iterator only when needed, one value is looked ahead in order to answer hasNext()
+     */
+    iterableSource: <S>(iterable: Iterable<S>): Source<S> => new IteratorSource(() => iterable[Symbol.iterator]()),
+
+    /**
+     * a source backed by the given ES Iterator, such as a database cursor or a tokenizer, values are pulled 
+     * from the iterator only when needed, one value is looked ahead in order to answer hasNext()
+     */
+    fromIterator: <S>(iterator: Iterator<S>): Source<S> => new IteratorSource(() => iterator),
+
+    /**
+     * a source of the values yielded by the generator function, the generator function is only called once the
+     * first value is needed, after which values are pulled from it one at a time as they are needed
+     * @param generatorFunction a generator function, or any function returning an Iterator
+     */
+    fromGenerator: <S>(generatorFunction: Supplier<Iterator<S>>): Source<S> => new IteratorSource(generatorFunction),
+
+    /**
+     * a source built up from a seed value, the Function is applied to the seed and returns either an Optional
+     * of the next value paired with the seed used to produce the value after it, or an empty Optional to end 
+     * the source.
+     * 
+     * unfoldSource(1, n => n <= 3 ? Optional.of([n, n + 1]) : Optional.empty()) -> 1, 2, 3
+     * @param seed initial state passed to the Function
+     * @param Function function producing the next value and the next seed from the current seed
+     */
+    unfoldSource: <S, T>(seed: S, Function: Function<S, Optional<[T, S]>>): Source<T> => new UnfoldSource(seed, Function),
+
+    /**
+     * a source of the parts of the text between the matches of the separator, parts are only found as they are needed,
+     * the text is split the same way as String.prototype.split, except captured groups of the separator are not included.
+     * @param text text to split
+     * @param separator string or regular expression to split the text on
+     */
+    splitSource: (text: string, separator: RegExp | string): Source<string> => new SplitSource(text, globalCopyOf(separator), false),
+
+    /**
+     * a source of the lines of the text, lines are separated by \n, \r\n or \r, and do not include the line terminator.
+     * a line terminator at the end of the text does not start another, empty, line.
+     */
+    linesSource: (text: string): Source<string> => new SplitSource(text, globalCopyOf(LINE_TERMINATOR), true),
+
+    /**
+     * a source of all the matches of the regular expression in the text, in the order they are found,
+     * the expression is used as if it had the global flag, empty matches advance the search by one character.
+     */
+    matchSource: (pattern: RegExp, text: string): Source<RegExpExecArray> => new MatchSource(globalCopyOf(pattern), text),
+
+    /**
+     * a source of the lines of the file, see linesSource, the file is opened immediately and read in chunks as lines are 
+     * needed, it is closed once all the lines have been read, or when the source is closed.
+     * @param path path of the file to read
+     * @param encoding encoding of the text of the file, defaults to utf8
+     */
+    fileLinesSource: (path: string, encoding: string = 'utf8'): CloseableSource<string> => new FileLinesSource(path, encoding),
+
+    /**
+     * a source of the values held by the ReplayBuffer, starting from the first value, every source of the 
+     * same buffer returns the same values
+     */
+    replaySource: <S>(buffer: ReplayBuffer<S>): Source<S> => new ReplaySource(buffer),
+}
+
+/**
+ * Keeps the values pulled from a StreamIterator so that they can be read any number of times, values are only
+ * pulled from the iterator when a value past the ones already kept is requested.
+ */
+export class ReplayBuffer<S> {
+    private iterator: StreamIterator<S>;
+    private values: S[];
+
+    constructor(iterator: StreamIterator<S>) {
+        this.iterator = iterator;
+        this.values = [];
+    }
+
+    /**
+     * returns true if there is a value at the index, pulling values from the iterator until there is one or it ends
+     */
+    public has(index: number): boolean {
+        while (this.values.length <= index && this.iterator.hasNext()) {
+            this.iterator.getNext().ifPresent(value => this.values.push(value));
+        }
+        return index < this.values.length;
+    }
+
+    /**
+     * returns the value at the index, or undefined if there is none
+     */
+    public get(index: number): S | undefined {
+        return this.has(index) ? this.values[index] : undefined;
+    }
 }
 
 /**
@@ -103,7 +243,23 @@ class SupplierSource<S> extends InfiniteSource<S> {
     }
 }
 
-class ArraySource<S> implements Source<S> {
+/**
+ * splits the values into at most the given number of chunks, the first chunks are larger by 
+ * at most one value if the values can not be split evenly
+ */
+const splitIntoChunks = <S>(values: S[], parts: number): S[][] => {
+    const numberOfChunks = Math.min(Math.max(1, parts), values.length);
+    const chunks: S[][] = [];
+    let start = 0;
+    for (let i = 0; i < numberOfChunks; i++) {
+        const end = start + Math.ceil((values.length - start) / (numberOfChunks - i));
+        chunks.push(values.slice(start, end));
+        start = end;
+    }
+    return chunks;
+}
+
+class ArraySource<S> implements SplittableSource<S> {
     private array: S[];
 
     constructor(arraySource: S[]) {
@@ -117,6 +273,12 @@ class ArraySource<S> implements Source<S> {
     public hasNext(): boolean {
         return this.array.length !== 0;
     }
+
+    public split(parts: number): S[][] {
+        const chunks = splitIntoChunks(this.array, parts);
+        this.array = [];
+        return chunks;
+    }
 }
 
 class ConcatSource<S> implements Source<Optional<S>> {
@@ -142,7 +304,44 @@ class ConcatSource<S> implements Source<Optional<S>> {
     }
 }
 
-class RangeSource implements Source<number> {
+class ZipSource<A, B, R> implements Source<Optional<R>> {
+    private stream1Iterator: StreamIterator<A>;
+    private stream2Iterator: StreamIterator<B>;
+    private combiner: Combiner<A, B, R>;
+    private fillValues: Optional<[A, B]>;
+
+    constructor(stream1: Stream<A>, stream2: Stream<B>, combiner: Combiner<A, B, R>, fillValues?: [A, B]) {
+        this.stream1Iterator = stream1.streamIterator();
+        this.stream2Iterator = stream2.streamIterator();
+        this.combiner = combiner;
+        this.fillValues = Optional.ofNullable(fillValues);
+    }
+
+    public get(): Optional<R> {
+        const { stream1Iterator, stream2Iterator, combiner } = this;
+        const first = stream1Iterator.getNext();
+        if (this.fillValues.isPresent()) {
+            const second = stream2Iterator.getNext();
+            const [fill1, fill2] = this.fillValues.get();
+            return first.isPresent() || second.isPresent()
+                ? Optional.ofNullable(combiner(first.orElse(fill1), second.orElse(fill2)))
+                : Optional.empty();
+        } else {
+            const second = first.isPresent() ? stream2Iterator.getNext() : Optional.empty<B>();
+            return first.isPresent() && second.isPresent()
+                ? Optional.ofNullable(combiner(first.get(), second.get()))
+                : Optional.empty();
+        }
+    }
+
+    public hasNext(): boolean {
+        return this.fillValues.isPresent()
+            ? this.stream1Iterator.hasNext() || this.stream2Iterator.hasNext()
+            : this.stream1Iterator.hasNext() && this.stream2Iterator.hasNext();
+    }
+}
+
+class RangeSource implements SplittableSource<number> {
     private endExclusive: number;
     private step: number;
     private nextValue: number;
@@ -174,4 +373,324 @@ class RangeSource implements Source<number> {
     public hasNext(): boolean {
         return this.comparator(this.nextValue, this.endExclusive);
     }
+
+    public split(parts: number): number[][] {
+        const values: number[] = [];
+        while (this.hasNext()) {
+            values.push(this.nextValue);
+            this.nextValue = this.nextValue + this.step;
+        }
+        return splitIntoChunks(values, parts);
+    }
+}
+
+class IteratorSource<S> implements Source<S> {
+    private iteratorSupplier: Supplier<Iterator<S>>;
+    private iterator: Optional<Iterator<S>>;
+    private lookAhead: Optional<IteratorResult<S>>;
+
+    constructor(iteratorSupplier: Supplier<Iterator<S>>) {
+        this.iteratorSupplier = iteratorSupplier;
+        this.iterator = Optional.empty();
+        this.lookAhead = Optional.empty();
+    }
+
+    private peek(): IteratorResult<S> {
+        if (!this.iterator.isPresent()) {
+            this.iterator = Optional.of(this.iteratorSupplier());
+        }
+        if (!this.lookAhead.isPresent()) {
+            this.lookAhead = Optional.of(this.iterator.get().next());
+        }
+        return this.lookAhead.get();
+    }
+
+    public get(): S | undefined {
+        const result = this.peek();
+        if (!result.done) {
+            this.lookAhead = Optional.empty();
+            return result.value;
+        }
+    }
+
+    public hasNext(): boolean {
+        return !this.peek().done;
+    }
+}
+
+class UnfoldSource<S, T> implements Source<T> {
+    private seed: S;
+    private Function: Function<S, Optional<[T, S]>>;
+    private lookAhead: Optional<Optional<[T, S]>>;
+
+    constructor(seed: S, Function: Function<S, Optional<[T, S]>>) {
+        this.seed = seed;
+        this.Function = Function;
+        this.lookAhead = Optional.empty();
+    }
+
+    private peek(): Optional<[T, S]> {
+        if (!this.lookAhead.isPresent()) {
+            this.lookAhead = Optional.of(this.Function(this.seed));
+        }
+        return this.lookAhead.get();
+    }
+
+    public get(): T | undefined {
+        const next = this.peek();
+        if (next.isPresent()) {
+            const [value, nextSeed] = next.get();
+            this.seed = nextSeed;
+            this.lookAhead = Optional.empty();
+            return value;
+        }
+    }
+
+    public hasNext(): boolean {
+        return this.peek().isPresent();
+    }
+}
+
+const LINE_TERMINATOR = /\r\n|\r|\n/;
+
+/**
+ * returns a new global regular expression matching the pattern, strings are matched literally
+ */
+const globalCopyOf = (pattern: RegExp | string): RegExp => typeof pattern === 'string'
+    ? new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
+    : new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '') + 'g');
+
+/**
+ * returns the index to search from after an empty match at the index, in unicode mode a surrogate pair is
+ * stepped over as a whole, as String.prototype.split and matchAll do, otherwise the match is found again.
+ */
+const indexAfterEmptyMatch = (text: string, index: number, unicode: boolean): number => {
+    const isPair = unicode && index + 1 < text.length
+        && text.charCodeAt(index) >= 0xD800 && text.charCodeAt(index) <= 0xDBFF
+        && text.charCodeAt(index + 1) >= 0xDC00 && text.charCodeAt(index + 1) <= 0xDFFF;
+    return isPair ? index + 2 : index + 1;
+};
+
+class SplitSource implements Source<string> {
+    private text: string;
+    private separator: RegExp;
+    private omitTrailingEmpty: boolean;
+    private partStart: number;
+    private ended: boolean;
+    private lookAhead: Optional<Optional<string>>;
+
+    constructor(text: string, separator: RegExp, omitTrailingEmpty: boolean) {
+        this.text = text;
+        this.separator = separator;
+        this.omitTrailingEmpty = omitTrailingEmpty;
+        this.partStart = 0;
+        this.ended = false;
+        this.lookAhead = Optional.empty();
+    }
+
+    private peek(): Optional<string> {
+        if (!this.lookAhead.isPresent()) {
+            this.lookAhead = Optional.of(this.findNextPart());
+        }
+        return this.lookAhead.get();
+    }
+
+    /**
+     * finds the part of the text up to the next match of the separator, an empty match of the separator at the 
+     * start of the part is not counted, as String.prototype.split, the rest of the text is the last part.
+     */
+    private findNextPart(): Optional<string> {
+        const { text, separator } = this;
+        if (this.ended) {
+            return Optional.empty();
+        }
+        let searchFrom = this.partStart;
+        while (searchFrom < text.length) {
+            separator.lastIndex = searchFrom;
+            const match = separator.exec(text);
+            if (match === null || match.index >= text.length) {
+                break;
+            }
+            const matchEnd = match.index + match[0].length;
+            if (matchEnd === this.partStart) {
+                searchFrom = indexAfterEmptyMatch(text, match.index, separator.unicode);
+            } else {
+                const part = text.substring(this.partStart, match.index);
+                this.partStart = matchEnd;
+                return Optional.of(part);
+            }
+        }
+        this.ended = true;
+        const lastPart = text.substring(this.partStart);
+        return lastPart === '' && (this.omitTrailingEmpty || (text === '' && this.matchesEmptyText()))
+            ? Optional.empty()
+            : Optional.of(lastPart);
+    }
+
+    private matchesEmptyText(): boolean {
+        this.separator.lastIndex = 0;
+        return this.separator.test('');
+    }
+
+    public get(): string | undefined {
+        const next = this.peek();
+        if (next.isPresent()) {
+            this.lookAhead = Optional.empty();
+            return next.get();
+        }
+    }
+
+    public hasNext(): boolean {
+        return this.peek().isPresent();
+    }
+}
+
+class MatchSource implements Source<RegExpExecArray> {
+    private pattern: RegExp;
+    private text: string;
+    private lookAhead: Optional<Optional<RegExpExecArray>>;
+
+    constructor(pattern: RegExp, text: string) {
+        this.pattern = pattern;
+        this.text = text;
+        this.lookAhead = Optional.empty();
+    }
+
+    private peek(): Optional<RegExpExecArray> {
+        if (!this.lookAhead.isPresent()) {
+            const match = this.pattern.exec(this.text);
+            if (match !== null && match[0] === '') {
+                this.pattern.lastIndex = indexAfterEmptyMatch(this.text, this.pattern.lastIndex, this.pattern.unicode);
+            }
+            this.lookAhead = Optional.of(Optional.ofNullable(<RegExpExecArray>match));
+        }
+        return this.lookAhead.get();
+    }
+
+    public get(): RegExpExecArray | undefined {
+        const next = this.peek();
+        if (next.isPresent()) {
+            this.lookAhead = Optional.empty();
+            return next.get();
+        }
+    }
+
+    public hasNext(): boolean {
+        return this.peek().isPresent();
+    }
+}
+
+const FILE_CHUNK_SIZE = 64 * 1024;
+
+class FileLinesSource implements CloseableSource<string> {
+    private fileDescriptor: Optional<number>;
+    private decoder: StringDecoders.StringDecoder;
+    private chunk: Buffer;
+    private pending: string[];
+    private heldBack: string;
+    private lines: string[];
+    private endOfFile: boolean;
+
+    constructor(path: string, encoding: string) {
+        const fs: typeof FS = require("fs");
+        const stringDecoders: typeof StringDecoders = require("string_decoder");
+        this.decoder = new stringDecoders.StringDecoder(encoding);
+        this.fileDescriptor = Optional.of(fs.openSync(path, 'r'));
+        this.chunk = Buffer.alloc(FILE_CHUNK_SIZE);
+        this.pending = [];
+        this.heldBack = '';
+        this.lines = [];
+        this.endOfFile = false;
+    }
+
+    /**
+     * reads chunks of the file until there is at least one complete line, or the end of the file is reached
+     */
+    private fill(): void {
+        const fs: typeof FS = require("fs");
+        while (this.lines.length === 0 && !this.endOfFile) {
+            const bytesRead = this.fileDescriptor.isPresent()
+                ? fs.readSync(this.fileDescriptor.get(), this.chunk, 0, FILE_CHUNK_SIZE, null)
+                : 0;
+            if (bytesRead === 0) {
+                this.endOfFile = true;
+                this.releaseFile();
+                this.addLines(this.decoder.end(), true);
+            } else {
+                this.addLines(this.decoder.write(this.chunk.slice(0, bytesRead)), false);
+            }
+        }
+    }
+
+    /**
+     * adds the lines completed by the newly read text, only the new text is scanned for line terminators, the 
+     * pieces of the unfinished last line are kept until more of the file is read, as is a \r at the end of the
+     * text, as it may be followed by a \n.
+     */
+    private addLines(read: string, atEnd: boolean): void {
+        const text = this.heldBack + read;
+        this.heldBack = !atEnd && text.charAt(text.length - 1) === '\r' ? '\r' : '';
+        const parts = text.substring(0, text.length - this.heldBack.length).split(LINE_TERMINATOR);
+        const lastPart = <string>parts.pop();
+        if (parts.length > 0) {
+            parts[0] = this.pending.join('') + parts[0];
+            this.pending = [];
+        }
+        this.pending.push(lastPart);
+        if (atEnd) {
+            const lastLine = this.pending.join('');
+            this.pending = [];
+            if (lastLine !== '') {
+                parts.push(lastLine);
+            }
+        }
+        this.lines.push(...parts);
+    }
+
+    public get(): string | undefined {
+        this.fill();
+        return this.lines.shift();
+    }
+
+    public hasNext(): boolean {
+        this.fill();
+        return this.lines.length > 0;
+    }
+
+    public close(): void {
+        this.releaseFile();
+        this.endOfFile = true;
+        this.pending = [];
+        this.heldBack = '';
+        this.lines = [];
+    }
+
+    private releaseFile(): void {
+        if (this.fileDescriptor.isPresent()) {
+            const fs: typeof FS = require("fs");
+            const fileDescriptor = this.fileDescriptor.get();
+            this.fileDescriptor = Optional.empty();
+            fs.closeSync(fileDescriptor);
+        }
+    }
+}
+
+class ReplaySource<S> implements Source<S> {
+    private buffer: ReplayBuffer<S>;
+    private position: number;
+
+    constructor(buffer: ReplayBuffer<S>) {
+        this.buffer = buffer;
+        this.position = 0;
+    }
+
+    public get(): S | undefined {
+        if (this.hasNext()) {
+            return this.buffer.get(this.position++);
+        }
+    }
+
+    public hasNext(): boolean {
+        return this.buffer.has(this.position);
+    }
 }
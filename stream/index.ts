@@ -1,9 +1,16 @@
-import { Function, Supplier, BiConsumer, Consumer, Predicate, BiPredicate, Comparator, BiFunction } from "../functions";
+import { Function, Supplier, BiConsumer, Consumer, Predicate, BiPredicate, Comparator, BiFunction, Combiner, Runnable } from "../functions";
 import Collectors, { Collector } from "../collectors";
 import Optional from "../optional";
-import { ProcessorPipeline } from "../processorPipeline";
-import { Processor } from "../processor";
-import { Source } from "../source";
+import Result from "../result";
+import { NumberSummaryStatistics, RingBuffer } from "../collectors/mutableCollections";
+import { ProcessorPipeline, ErrorPolicy } from "../processorPipeline";
+import { Processor, MapAsyncOptions } from "../processor";
+import AsyncStream from "../asyncStream";
+import { Source, ReplayBuffer } from "../source";
+import { StreamProcessingError, IllegalArgumentException, IllegalStateException } from "../errors";
+import { Entry } from "../map";
+import { toReadable, pipeTo } from "../nodeStreams";
+import { Readable, Writable } from "stream";
 
 /**
  * A stream is a sequence of elements with possibly unlimited length
@@ -35,10 +42,10 @@ import { Source } from "../source";
  * Caution: short circuiting operations are only effective on a stateless pipeline, or one where each
  * stateful operations are first proceeded by a short circuiting one, otherwise an infinte loop can still happen.
  * for example consider an infinite stream S. S.findFirst(); will correctly short circuit and return the first item of the
- * stream. S.distinct().findFirst(); on the other hand will infinitly loop as distinct() tries to greedily consume elements
- * before proceeding. this could be remedied by first limiting the streams output. S.limit(10).distinct().findFirst();
+ * stream. S.sorted().findFirst(); on the other hand will infinitly loop as sorted() tries to greedily consume elements
+ * before proceeding. this could be remedied by first limiting the streams output. S.limit(10).sorted().findFirst();
  */
-interface Stream<T> {
+interface Stream<T> extends Iterable<T> {
 
     /**
      * Terminal Operation - Short Circuting:
@@ -55,12 +62,41 @@ interface Stream<T> {
      */
     anyMatch(predicate: Predicate<T>): boolean;
 
+    /**
+     * Intermediate Operation:
+     * Returns a stream of arrays of consecutive elements of this stream, each array containing size elements,
+     * except for the last array, which contains the remaining elements. Arrays are returned as soon as they are
+     * filled, so chunk can be used on infinite streams.
+     * throws an IllegalArgumentException if size is not a positive integer.
+     * @param size the number of elements in each array
+     */
+    chunk(size: number): Stream<T[]>;
+
+    /**
+     * Closes the stream, running all the close handlers registered with onClose on this stream, or on the streams
+     * it was built from, in the order they were registered. Streams reading from a resource, such as Stream.ofFileLines,
+     * release the resource when closed. Handlers are only run once, no matter how many times the stream is closed, 
+     * every handler is run even if one throws, the first error thrown is rethrown once all have run.
+     * close can be called whether or not the stream has been operated upon, once closed the stream can no longer
+     * be operated upon, any operation throws an IllegalStateException.
+     */
+    close(): void;
+
     /**
      * Terminal Operation:
      * returns the count of all the elements of the stream.
      */
     count(): number;
 
+    /**
+     * Intermediate Operation:
+     * Returns a stream consisting of the elements of this stream after discarding the longest prefix 
+     * of elements that match the given predicate. once an element does not match, it and all the following 
+     * elements are returned, the predicate is not evaluated again.
+     * @param predicate 
+     */
+    dropWhile(predicate: Predicate<T>): Stream<T>;
+
     /**
      * @deprecated: use collect instead:
      * Terminal Operation:
@@ -90,14 +126,24 @@ interface Stream<T> {
      */
     collect<R, A>(collector: Collector<T, A, R>): R;
     /**
-     * Intermediate Operation - Stateful:
-     * return a distinct stream of elements according to the given equality function, if an equality function 
-     * is not supplied, the BiPredicate.defaultEquality() function is used. This function is stateful because
-     * it needs to keep track of previous elements, but does not need access to the full stream before proceeding
+     * Intermediate Operation:
+     * returns a stream of the first occurrence of each distinct element, elements are passed on as they arrive, so
+     * this also works on infinite streams. Without an equality function each element is hashed with its hash code 
+     * (the same hashing used by Map) and only compared, with BiPredicate.defaultEquality() (===), to the previous
+     * elements with the same hash code. With an equality function each element is compared against every 
+     * previous distinct element instead.
      * @param equalsFunction function that takes two parameters, returns true if they are equal, false otherwise
      */
     distinct(equalsFunction?: BiPredicate<T, T>): Stream<T>;
 
+    /**
+     * Intermediate Operation:
+     * returns a stream of the first element for each distinct key, the keys are extracted from the elements with the
+     * given key function, and are considered equal when they would be the same key in a Map (they are structurally equal).
+     * @param keyFunction function extracting the key to compare elements by
+     */
+    distinctBy<K>(keyFunction: Function<T, K>): Stream<T>;
+
     /**
      * Intermediate Operation:
      * returns a stream whose elements are those from the current stream that match the given predicate
@@ -120,6 +166,23 @@ interface Stream<T> {
      */
     findAny(): Optional<T>;
 
+    /**
+     * Terminal Operation:
+     * returns an Optional containing the last element of the stream, or an empty Optional if the stream is empty.
+     * only the most recent element is held on to while the stream is consumed, the stream must be finite.
+     */
+    findLast(): Optional<T>;
+
+    /**
+     * Terminal Operation:
+     * returns an array of the last n elements of the stream, in the order they occur in the stream, or all the 
+     * elements if the stream has less than n elements. only the n most recent elements are held on to while 
+     * the stream is consumed, the stream must be finite.
+     * throws an IllegalArgumentException if n is not a non-negative integer.
+     * @param n the number of elements to return
+     */
+    findLastN(n: number): T[];
+
     /**
      * Intermediate Operation:
      * A one to many mapping Function, returns a stream whos elements consist of the 
@@ -162,6 +225,11 @@ interface Stream<T> {
      */
     forEach(consumer: Consumer<T>): void;
 
+    /**
+     * returns true if the terminal operation collect (and toArray) of this stream will be run in parallel
+     */
+    isParallel(): boolean;
+
     /**
      * Intermediate Operation - Short Circuiting
      * returns a stream that consists of less than or equal to maxSize elements
@@ -177,6 +245,36 @@ interface Stream<T> {
      */
     map<U>(Function: Function<T, U>): Stream<U>;
 
+    /**
+     * Intermediate Operation:
+     * Returns a stream consisting of the Results of applying the given function to the elements of this stream,
+     * a success holding the returned value, or a failure holding the error if the function throws, so a throwing
+     * element does not abort the stream.
+     * @param Function: function that transforms a value in the stream to a new value, and may throw;
+     */
+    mapTry<U>(Function: Function<T, U>): Stream<Result<U, Error>>;
+
+    /**
+     * Intermediate Operation:
+     * Returns an AsyncStream consisting of the results of applying the given Promise returning function to the 
+     * elements of this stream, elements are pulled from this stream lazily, keeping up to options.concurrency 
+     * Promises in flight at once. Results are returned in the order of the elements unless options.ordered 
+     * is false, in which case they are returned as they complete. The results can be awaited through the
+     * terminal operations of the AsyncStream, i.e. await stream.mapAsync(fn, { concurrency: 5 }).collect(collector)
+     * throws an IllegalArgumentException if the concurrency is not a positive integer.
+     * @param Function: function that transforms a value in the stream to a Promise of a new value;
+     * @param options: the concurrency limit and ordering of the results
+     */
+    mapAsync<U>(Function: Function<T, U | Promise<U>>, options: MapAsyncOptions): AsyncStream<U>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a NumberStream consisting of the results of applying the given number returning function
+     * to the elements of this stream.
+     * @param Function: function that transforms a value in the stream to a number;
+     */
+    mapToNumber(Function: Function<T, number>): NumberStream;
+
     /**
      * Terminal Operation:
      * returns the largest element in the stream if the stream is not empty otherwise return Optional.empty();
@@ -203,6 +301,49 @@ interface Stream<T> {
      */
     noneMatch(predicate: Predicate<T>): boolean;
 
+    /**
+     * Returns an equivalent stream with the handler added to the handlers run when the stream, or any stream built 
+     * from it, is closed, see close.
+     * @param handler 
+     */
+    onClose(handler: Runnable): Stream<T>;
+
+    /**
+     * Returns an equivalent stream that handles errors thrown by its operations according to the policy, 
+     * instead of aborting the terminal operation. The policy applies to this operation and every operation before it,
+     * not to operations added after it, errors are given to the policy as a StreamProcessingError describing the 
+     * operation and element that failed. Without a policy, the error is rethrown from the terminal operation as it was thrown.
+     * skip: the element that failed is dropped and the stream continues with the next element
+     * stop: the stream ends at the element that failed, as if the source had run out
+     * a Consumer: the consumer is given the error, and the element that failed is dropped
+     * 
+     * a stateful operation such as sorted can not continue after it fails, so it ends the stream whatever the policy,
+     * policies only apply when the stream is processed sequentially.
+     * @param policy 
+     */
+    onError(policy: ErrorPolicy): Stream<T>;
+
+    /**
+     * Returns an equivalent stream that is parallel, when the stream is collected, an array or range backed source
+     * is split into chunks and the leading map, filter and flatMapList operations of the stream are run over each chunk 
+     * in a separate Node worker thread, the results of each chunk are collected separately and then merged using the 
+     * collector's combiner. Any remaining operations are run sequentially, as are all other terminal operations.
+     * 
+     * the functions given to the parallel operations are sent to the workers as source code, so they must be self contained,
+     * and not reference any variables from outside of the function, if one does the stream is processed sequentially instead. 
+     * elements are copied to and from the workers so they should be plain data, if an element can not be copied, or a function
+     * throws a ReferenceError or TypeError in a worker, the stream is also processed sequentially. Any other error thrown 
+     * in a worker is rethrown as an IllegalStateException, with the original error as its cause.
+     *
+     * NOTE: collecting a parallel stream blocks the calling thread until every worker has finished, its event loop
+     * does not run in the meantime, so no timers, I/O callbacks or promises of that thread are run until the
+     * collect returns. If the workers do not finish within the timeout they are stopped and an IllegalStateException
+     * is thrown.
+     * @param parallelism number of chunks to split the source into, defaults to the number of cpus
+     * @param timeout the longest time in milliseconds to block waiting for the workers, defaults to ten minutes
+     */
+    parallel(parallelism?: number, timeout?: number): Stream<T>;
+
     /**
      * Intermediate Operation:
      * applies the given consumer to each item in the pipeline as an intermediate operation
@@ -213,6 +354,15 @@ interface Stream<T> {
      */
     peek(consumer: Consumer<T>): Stream<T>;
 
+    /**
+     * Terminal Operation:
+     * writes the elements of the stream to the Node.js Writable, waiting for the writable to drain whenever its buffer
+     * is full, and ends the writable after the last element. Resolves once the writable has finished, rejects if the 
+     * stream or the writable fails.
+     * @param writable object mode (or string/Buffer accepting) Writable to write the elements to
+     */
+    pipeTo(writable: Writable): Promise<void>;
+
     /**
      * Terminal Operation:
      * applies a reduction on the elements of the stream using the given accumulator function.
@@ -222,12 +372,56 @@ interface Stream<T> {
      */
     reduce(accumulator: BiFunction<T>, initialValue?: T): Optional<T>;
 
+    /**
+     * Terminal Operation:
+     * applies a reduction on the elements of the stream, the same as reduce, but starting with the
+     * last element of the stream and working back to the first.
+     * @param accumulator function combining the current reduced value with the next element
+     * @param initialValue optional starting value of the reduction
+     */
+    reduceRight(accumulator: BiFunction<T>, initialValue?: T): Optional<T>;
+
+    /**
+     * Returns an equivalent stream that, when this operation or any operation before it throws an error, returns the 
+     * result of applying the given function to the error in place of the element that failed, see onError.
+     * @param Function function returning a replacement value for the StreamProcessingError describing the failure
+     */
+    recoverWith(Function: Function<StreamProcessingError, T>): Stream<T>;
+
+    /**
+     * Intermediate Operation - Stateful:
+     * returns a stream of the elements of this stream in reverse order, all the elements of the stream 
+     * are consumed before the first element is returned.
+     */
+    reverse(): Stream<T>;
+
     /**
      * returns a StreamIterator of the current stream, allowing easier
      * step by step data retrieval from the stream
      */
     streamIterator(): StreamIterator<T>;//TODO
 
+    /**
+     * Terminal Operation:
+     * returns a StreamSupplier that creates new streams of the values of this stream, each created stream 
+     * returns all the values of this stream from the first one, and can have its own operations applied to it. 
+     * Values are pulled from this stream only as the created streams need them, and are kept so that the other 
+     * created streams can return them too, so this stream is only processed once. 
+     */
+    replayable(): StreamSupplier<T>;
+
+    /**
+     * Terminal Operation:
+     * returns a StreamIterator of the current stream, making the stream usable anywhere an ES Iterable
+     * is expected, such as for...of loops, spread, Array.from, and destructuring.
+     */
+    [Symbol.iterator](): StreamIterator<T>;
+
+    /**
+     * Returns an equivalent stream that is sequential, see parallel()
+     */
+    sequential(): Stream<T>;
+
     /**
      * Intermediate Operation: 
      * Returns a stream consisting of all the value after discarding the first n
@@ -236,6 +430,24 @@ interface Stream<T> {
      */
     skip(n: number): Stream<T>;
 
+    /**
+     * alias of dropWhile
+     * @param predicate 
+     */
+    skipWhile(predicate: Predicate<T>): Stream<T>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream of sliding windows over the elements of this stream, each window is an array of size consecutive 
+     * elements, and a new window starts every step elements. Only full windows are returned, if the step is larger than 
+     * the size, the elements between windows are skipped. Windows are returned as soon as they are filled, so sliding 
+     * can be used on infinite streams.
+     * throws an IllegalArgumentException if size or step is not a positive integer.
+     * @param size the number of elements in each window
+     * @param step the number of elements between the start of each window, defaults to 1
+     */
+    sliding(size: number, step?: number): Stream<T[]>;
+
     /**
      * Intermediate Operation - Stateful:
      * If comparator is passed in, it is used to sort the values in the stream, otherwise
@@ -244,28 +456,79 @@ interface Stream<T> {
      */
     sorted(comparator?: Comparator<T>): Stream<T>;
 
+    /**
+     * Intermediate Operation - Short Circuiting:
+     * Returns a stream consisting of the longest prefix of elements of this stream that match the given predicate.
+     * once an element does not match, no more elements are pulled from the stream, 
+     * so takeWhile can create a finite stream out of an infinite stream.
+     * @param predicate 
+     */
+    takeWhile(predicate: Predicate<T>): Stream<T>;
+
     /**
      * Terminal Operation: 
      * returns the Stream as an array of elements.
      */
     toArray(): T[];
 
+    /**
+     * Terminal Operation:
+     * returns an object mode Node.js Readable of the elements of the stream, elements are only pulled through the 
+     * stream as the Readable is read from, so a slow reader holds back the stream. 
+     * null elements can not be pushed through a Readable, and cause it to error.
+     */
+    toReadable(): Readable;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream of arrays of consecutive elements of this stream, where each element that matches 
+     * the predicate starts a new array. The predicate is not tested against the first element.
+     * @param predicate returns true for elements that should start a new array
+     */
+    windowBy(predicate: Predicate<T>): Stream<T[]>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream of the results of combining the elements of this stream and the other stream pairwise, 
+     * the resulting stream ends as soon as either of the streams ends.
+     * @param other stream to combine with this stream
+     * @param combiner function combining an element of this stream with the element of the other stream at the same position
+     */
+    zipWith<U, R>(other: Stream<U>, combiner: Combiner<T, U, R>): Stream<R>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream of Entries of the index of each element in the stream (starting at 0) to the element.
+     */
+    zipWithIndex(): Stream<Entry<number, T>>;
+
+    /**
+     * Intermediate Operation:
+     * Returns a stream of the results of combining the elements of this stream and the other stream pairwise,
+     * once one of the streams ends, its fill value is used in place of its elements until the other stream ends.
+     * @param other stream to combine with this stream
+     * @param thisFill value used in place of the elements of this stream once it ends
+     * @param otherFill value used in place of the elements of the other stream once it ends
+     * @param combiner function combining an element of this stream with the element of the other stream at the same position
+     */
+    zipLongest<U, R>(other: Stream<U>, thisFill: T, otherFill: U, combiner: Combiner<T, U, R>): Stream<R>;
+
     //V2 //todo
-    //reverse() //intermediate stateful
     //append(stream: Stream<T>): Stream<T> //intermediate
     //skipRight(n: number): Stream<> //stateful drops the LAST n values in the stream
-    //skipWhile(predicate: Predicate<T>): Stream<T>, //intermediate remove elements from the stream while predicate is true, once one value is false, stop dropping.
-    //reduceRight()
-    //findLast()
     //findFirstN()
-    //findLastN()
     //findAnyN()
     //take(n) alias of findFirstN
-    //chunk(size) //returns list of lists of length size
-    //lazyDistinct(equalityTest?)//filter out values as they pass through, never returning the same value twice
 }
 
-export interface StreamIterator<T> {
+/**
+ * Functional Type:
+ * A Supplier of Streams, a Stream can only be operated on once, so a new Stream is needed every time the values are
+ * to be processed again, see Stream.replayable
+ */
+export type StreamSupplier<T> = Supplier<Stream<T>>;
+
+export interface StreamIterator<T> extends IterableIterator<T> {
     /**
      * Returns true if there is another value available in the iterator, false otherwise
      */
@@ -285,6 +548,12 @@ export interface StreamIterator<T> {
      */
     tryAdvance(consumer: Consumer<T>): boolean;
 
+    /**
+     * ES Iterator protocol method, returns an IteratorResult describing the next value of the iterator,
+     * or a result with done set to true if no values remain.
+     */
+    next(): IteratorResult<T>;
+
     //V2 //todo
 
     //take(n:number): []T;
@@ -292,6 +561,60 @@ export interface StreamIterator<T> {
     //forEachRemaining(consumer: Consumer<T>): void;
 }
 
+/**
+ * A Stream of numbers, supporting the numeric terminal operations sum, average and summaryStatistics
+ * on top of all the operations of a regular Stream. Intermediate operations that do not change the 
+ * type of the elements continue to return a NumberStream.
+ */
+export interface NumberStream extends Stream<number> {
+
+    /**
+     * Terminal Operation:
+     * returns an Optional describing the arithmetic mean of the elements of the stream, 
+     * or an empty Optional if the stream is empty.
+     */
+    average(): Optional<number>;
+
+    /**
+     * returns a regular Stream of the elements of this stream.
+     */
+    asStream(): Stream<number>;
+
+    /**
+     * alias of asStream()
+     */
+    boxed(): Stream<number>;
+
+    /**
+     * Terminal Operation:
+     * returns the sum of the elements of the stream, 0 if the stream is empty.
+     */
+    sum(): number;
+
+    /**
+     * Terminal Operation:
+     * returns a NumberSummaryStatistics describing the count, sum, min, max, and average of the elements of the stream.
+     */
+    summaryStatistics(): NumberSummaryStatistics;
+
+    distinct(equalsFunction?: BiPredicate<number, number>): NumberStream;
+    distinctBy<K>(keyFunction: Function<number, K>): NumberStream;
+    dropWhile(predicate: Predicate<number>): NumberStream;
+    filter(predicate: Predicate<number>): NumberStream;
+    limit(maxSize: number): NumberStream;
+    onClose(handler: Runnable): NumberStream;
+    onError(policy: ErrorPolicy): NumberStream;
+    parallel(parallelism?: number, timeout?: number): NumberStream;
+    peek(consumer: Consumer<number>): NumberStream;
+    recoverWith(Function: Function<StreamProcessingError, number>): NumberStream;
+    reverse(): NumberStream;
+    sequential(): NumberStream;
+    skip(n: number): NumberStream;
+    skipWhile(predicate: Predicate<number>): NumberStream;
+    sorted(comparator?: Comparator<number>): NumberStream;
+    takeWhile(predicate: Predicate<number>): NumberStream;
+}
+
 //Static methods of the stream interface
 const Stream = {
     /**
@@ -310,6 +633,75 @@ const Stream = {
         return PipelineStream.of(values);
     },
 
+    /**
+     * Creates a new stream from the given ES Iterable, such as a generator, Set, or native Map.
+     * values are only pulled from the iterable as they are needed by the stream.
+     * @param iterable 
+     */
+    ofIterable<T>(iterable: Iterable<T>): Stream<T> {
+        return PipelineStream.ofSource(Source.iterableSource(iterable));
+    },
+
+    /**
+     * Creates a new AsyncStream of the values read from the given Node.js Readable, such as a file stream or
+     * a readline/NDJSON parsing transform. Values are only read as they are needed by the stream, so the readable is 
+     * paused while the stream is not being consumed, the terminal operations of the AsyncStream return Promises.
+     * @param readable 
+     */
+    fromReadable<T>(readable: Readable): AsyncStream<T> {
+        return AsyncStream.ofIterable<T>(readable);
+    },
+
+    /**
+     * Creates a new stream pulling its values from the given Source, such as Source.fromIterator(cursor)
+     * or Source.fromGenerator(function* () { ... })
+     * @param source 
+     */
+    ofSource<T>(source: Source<T>): Stream<T> {
+        return PipelineStream.ofSource(source);
+    },
+
+    /**
+     * Creates a new stream of the lines of the text, lines are separated by \n, \r\n or \r, and do not include the
+     * line terminator. A line terminator at the end of the text does not start another, empty, line.
+     * lines are only found as they are needed by the stream.
+     * @param text 
+     */
+    lines(text: string): Stream<string> {
+        return PipelineStream.ofSource(Source.linesSource(text));
+    },
+
+    /**
+     * Creates a new stream of the parts of the text between the matches of the separator, split the same way as 
+     * String.prototype.split (without including captured groups), parts are only found as they are needed by the stream.
+     * @param text text to split
+     * @param separator string or regular expression to split the text on
+     */
+    split(text: string, separator: RegExp | string): Stream<string> {
+        return PipelineStream.ofSource(Source.splitSource(text, separator));
+    },
+
+    /**
+     * Creates a new stream of all the matches of the regular expression in the text, as returned by RegExp.exec,
+     * the expression is used as if it had the global flag, the given RegExp itself is not changed.
+     * @param pattern regular expression to match
+     * @param text text to search
+     */
+    ofMatches(pattern: RegExp, text: string): Stream<RegExpExecArray> {
+        return PipelineStream.ofSource(Source.matchSource(pattern, text));
+    },
+
+    /**
+     * Creates a new stream of the lines of the file at the path, see Stream.lines. The file is opened straight away,
+     * and read in chunks as lines are needed by the stream, it is closed once all the lines have been read, 
+     * or when the stream is closed, so a stream that is not read to the end should be closed.
+     * @param path path of the file to read
+     * @param encoding encoding of the text of the file, defaults to utf8
+     */
+    ofFileLines(path: string, encoding: string = 'utf8'): Stream<string> {
+        return PipelineStream.ofSource(Source.fileLinesSource(path, encoding));
+    },
+
     /**
      * creates a stream of a single element with the given source value;
      * @param value 
@@ -346,6 +738,18 @@ const Stream = {
         return PipelineStream.ofSource(Source.iterateSource(seed, getNext))
     },
 
+    /**
+     * creates a stream of values built up from a seed, the Function is applied to the seed and returns either
+     * an Optional holding the next value of the stream paired with the seed to apply it to next, or an empty 
+     * Optional to end the stream, so you have a stream like:
+     * unfold(1, n => n <= 3 ? Optional.of([n, n + 1]) : Optional.empty()) -> 1, 2, 3
+     * @param seed initial state passed to the Function
+     * @param Function function producing the next value and the next seed from the current seed
+     */
+    unfold<S, T>(seed: S, Function: Function<S, Optional<[T, S]>>): Stream<T> {
+        return PipelineStream.ofSource(Source.unfoldSource(seed, Function));
+    },
+
     /**
      * creates a new stream consisting of all the values of s1, followed by all the values of s2
      * @param s1 first stream
@@ -355,6 +759,17 @@ const Stream = {
         return PipelineStream.concat(s1, s2);
     },
 
+    /**
+     * creates a new stream of the results of combining the values of s1 and s2 pairwise,
+     * the stream ends as soon as either s1 or s2 ends
+     * @param s1 first stream
+     * @param s2 second stream
+     * @param combiner function combining a value of s1 with the value of s2 at the same position
+     */
+    zip<A, B, R>(s1: Stream<A>, s2: Stream<B>, combiner: Combiner<A, B, R>): Stream<R> {
+        return PipelineStream.zip(s1, s2, combiner);
+    },
+
     /**
      * returns a stream of numbers starting at startInclusive, and going to up 
      * to but not including endExculsive in increments of 1, if a step is passed in, the 
@@ -370,8 +785,8 @@ const Stream = {
      * @param endExclusive end of the range, not included
      * @param step an optional param to define the step size, defaults to 1 if nothing is supplied
      */
-    range(startInclusive: number, endExclusive: number, step?: number): Stream<number> {
-        return PipelineStream.ofSource(Source.rangeSource(startInclusive, endExclusive, step));
+    range(startInclusive: number, endExclusive: number, step?: number): NumberStream {
+        return PipelineNumberStream.ofNumberSource(Source.rangeSource(startInclusive, endExclusive, step));
     },
 
     /**
@@ -386,7 +801,7 @@ const Stream = {
      * @param endInclusive end of the range
      * @param step an optional param to define the step size, defaults to 1 if nothing is supplied
      */
-    rangeClosed(startInclusive: number, endInclusive: number, step?: number): Stream<number> {
+    rangeClosed(startInclusive: number, endInclusive: number, step?: number): NumberStream {
         return startInclusive < endInclusive
             ? Stream.range(startInclusive, endInclusive + 1, step)
             : Stream.range(startInclusive, endInclusive - 1, step);
@@ -398,18 +813,43 @@ const Stream = {
 
 }
 
+/**
+ * open: no operation has been applied to the stream yet
+ * linked: an intermediate operation has been applied, creating a new stream from this one
+ * consumed: a terminal operation has been applied
+ * iterating: the stream is being used as a StreamIterator
+ * closed: the stream has been closed
+ */
+type StreamState = 'open' | 'linked' | 'consumed' | 'iterating' | 'closed';
+
 class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     pipeline: ProcessorPipeline<S, T>;
-    private processingStarted = false;
+    private state: StreamState = 'open';
 
-    private constructor(pipeline: ProcessorPipeline<S, T>) {
+    protected constructor(pipeline: ProcessorPipeline<S, T>) {
         this.pipeline = pipeline;
     }
 
-    private newPipeline<U>(processor: Processor<any, U>): ProcessorPipeline<S, U> {
+    protected newPipeline<U>(processor: Processor<any, U>): ProcessorPipeline<S, U> {
+        this.use('linked');
         return this.pipeline.addProcessor(processor);
     }
 
+    /**
+     * marks the stream as used by an operation, a stream can only have one intermediate or terminal operation 
+     * applied to it, throws an IllegalStateException if the stream has already been used.
+     */
+    protected use(state: StreamState): void {
+        this.throwIfUsed();
+        this.state = state;
+    }
+
+    private throwIfUsed(): void {
+        if (this.state !== 'open') {
+            throw new IllegalStateException('stream has already been operated upon or closed');
+        }
+    }
+
     //streamIterator methods
     public hasNext(): boolean {
         return this.pipeline.hasNext();
@@ -429,10 +869,29 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
         }
     }
 
+    public next(): IteratorResult<T> {
+        const next: Optional<T> = this.getNext();
+        return next.isPresent()
+            ? { done: false, value: next.get() }
+            : doneResult();
+    }
+
     public streamIterator(): StreamIterator<T> {
+        if (this.state !== 'iterating') {
+            this.use('iterating');
+        }
         return this;
     }
 
+    public replayable(): StreamSupplier<T> {
+        const buffer = new ReplayBuffer(this.streamIterator());
+        return () => PipelineStream.ofSource(Source.replaySource(buffer));
+    }
+
+    public [Symbol.iterator](): StreamIterator<T> {
+        return this.streamIterator();
+    }
+
     public static of<S>(source: S[]): Stream<S> {
         return PipelineStream.ofSource(Source.arraySource(source));
     }
@@ -454,12 +913,17 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
             .flatMapOptional(Function.identity());
     }
 
-    private getNextProcessedItem(): Optional<any> {
-        this.processingStarted = true;
+    public static zip<A, B, R>(stream1: Stream<A>, stream2: Stream<B>, combiner: Combiner<A, B, R>): Stream<R> {
+        return PipelineStream.ofSource<Optional<R>>(Source.zipSource(stream1, stream2, combiner))
+            .flatMapOptional(Function.identity());
+    }
+
+    protected getNextProcessedItem(): Optional<any> {
         return this.pipeline.getNextResult();
     }
 
     public allMatch(predicate: Predicate<T>): boolean {
+        this.use('consumed');
         let nextItem: Optional<T> = this.getNextProcessedItem();
         while (nextItem.isPresent()) {
             if (predicate(nextItem.get()) === false) {
@@ -471,6 +935,7 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     }
 
     public noneMatch(predicate: Predicate<T>): boolean {
+        this.use('consumed');
         let nextItem: Optional<T> = this.getNextProcessedItem();
         while (nextItem.isPresent()) {
             if (predicate(nextItem.get()) === true) {
@@ -482,6 +947,7 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     }
 
     public anyMatch(predicate: Predicate<T>): boolean {
+        this.use('consumed');
         let nextItem: Optional<T> = this.getNextProcessedItem();
         while (nextItem.isPresent()) {
             if (predicate(nextItem.get()) === true) {
@@ -493,6 +959,7 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     }
 
     public count(): number {
+        this.use('consumed');
         let count = 0;
         let nextItem: Optional<T> = this.getNextProcessedItem();
         while (nextItem.isPresent()) {
@@ -503,14 +970,33 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     }
 
     public findFirst(): Optional<T> {
+        this.use('consumed');
         return this.getNextProcessedItem();
     }
 
     public findAny(): Optional<T> {
+        this.use('consumed');
         return this.getNextProcessedItem();
     }
 
+    public findLast(): Optional<T> {
+        const last = this.findLastN(1);
+        return last.length > 0
+            ? Optional.of(last[0])
+            : Optional.empty();
+    }
+
+    public findLastN(n: number): T[] {
+        if (!Number.isInteger(n) || n < 0) {
+            throw new IllegalArgumentException(`findLastN n must be a non-negative integer, got ${n}`);
+        }
+        const buffer = RingBuffer.ofCapacity<T>(n);
+        this.forEachOrdered(item => buffer.add(item));
+        return buffer.toArray();
+    }
+
     public customCollect<R>(supplier: Supplier<R>, accumulator: BiConsumer<R, T>, combiner: BiConsumer<R, R>): R {
+        this.use('consumed');
         let container: R = supplier();
         let nextItem: Optional<T> = this.getNextProcessedItem();
         while (nextItem.isPresent()) {
@@ -526,6 +1012,11 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     public collect<R, A>(firstArg: Collector<T, A, R> | Supplier<R>, accumulator?: BiConsumer<R, T>, combiner?: BiConsumer<R, R>): R | undefined {
         if (firstArg instanceof Collector) {
             const collector: Collector<T, A, R> = firstArg;
+            this.use('consumed');
+            const parallelResults: Optional<T[][]> = this.pipeline.runParallel();
+            if (parallelResults.isPresent()) {
+                return this.combineChunks(parallelResults.get(), collector);
+            }
             let container = collector.supplier()();
             let nextItem: Optional<T> = this.getNextProcessedItem();
             while (nextItem.isPresent()) {
@@ -539,11 +1030,81 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
         }
     }
 
+    /**
+     * collects each chunk into its own container, and then merges them all together using the collector's combiner
+     */
+    private combineChunks<R, A>(chunks: T[][], collector: Collector<T, A, R>): R {
+        const containers: A[] = chunks.map(chunk => {
+            const container = collector.supplier()();
+            chunk.forEach(item => collector.accumulator()(container, item));
+            return container;
+        });
+        const combined = containers.length > 0
+            ? containers.reduce((combined, container) => collector.combiner()(combined, container))
+            : collector.supplier()();
+        return collector.finisher()(combined);
+    }
+
+    public isParallel(): boolean {
+        return this.pipeline.isParallel();
+    }
+
+    public parallel(parallelism?: number, timeout?: number): this {
+        this.throwIfUsed();
+        this.pipeline.setParallel(true, parallelism, timeout);
+        return this;
+    }
+
+    public sequential(): this {
+        this.throwIfUsed();
+        this.pipeline.setParallel(false);
+        return this;
+    }
+
+    public close(): void {
+        if (this.state !== 'closed') {
+            this.state = 'closed';
+            this.pipeline.close();
+        }
+    }
+
+    public onClose(handler: Runnable): this {
+        this.throwIfUsed();
+        this.pipeline.onClose(handler);
+        return this;
+    }
+
+    public onError(policy: ErrorPolicy): this {
+        this.throwIfUsed();
+        this.pipeline.setErrorPolicy(policy);
+        return this;
+    }
+
+    public recoverWith(Function: Function<StreamProcessingError, T>): this {
+        this.throwIfUsed();
+        this.pipeline.setRecovery(Function);
+        return this;
+    }
+
     public map<U>(Function: Function<T, U>): Stream<U> {
         const newPipeline = this.newPipeline(Processor.mapProcessor(Function));
         return new PipelineStream<S, U>(newPipeline);
     }
 
+    public mapTry<U>(Function: Function<T, U>): Stream<Result<U, Error>> {
+        const newPipeline = this.newPipeline(Processor.mapTryProcessor(Function));
+        return new PipelineStream<S, Result<U, Error>>(newPipeline);
+    }
+
+    public mapAsync<U>(Function: Function<T, U | Promise<U>>, options: MapAsyncOptions): AsyncStream<U> {
+        return AsyncStream.ofIterable(this.streamIterator()).mapAsync(Function, options);
+    }
+
+    public mapToNumber(Function: Function<T, number>): NumberStream {
+        const newPipeline = this.newPipeline(Processor.mapProcessor(Function));
+        return new PipelineNumberStream<S>(newPipeline);
+    }
+
     public peek<U>(consumer: Consumer<T>): Stream<T> {
         const newPipeline = this.newPipeline(Processor.peekProcessor(consumer));
         return new PipelineStream<S, T>(newPipeline);
@@ -575,8 +1136,20 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     }
 
     public distinct(equalsFunction?: BiPredicate<T, T>): Stream<T> {
-        const equalsFunctionToUse: BiPredicate<T, T> = equalsFunction ? equalsFunction : BiPredicate.defaultEquality()
-        const newPipeline = this.newPipeline(Processor.distinctProcessor(equalsFunctionToUse));
+        const processor: Processor<T, T> = equalsFunction
+            ? Processor.distinctProcessor(equalsFunction)
+            : Processor.hashDistinctProcessor(Function.identity<T>(), BiPredicate.defaultEquality());
+        const newPipeline = this.newPipeline(processor);
+        return new PipelineStream<S, T>(newPipeline);
+    }
+
+    public distinctBy<K>(keyFunction: Function<T, K>): Stream<T> {
+        const newPipeline = this.newPipeline(Processor.hashDistinctProcessor(keyFunction));
+        return new PipelineStream<S, T>(newPipeline);
+    }
+
+    public reverse(): Stream<T> {
+        const newPipeline = this.newPipeline(Processor.reverseProcessor<T>());
         return new PipelineStream<S, T>(newPipeline);
     }
 
@@ -586,12 +1159,62 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
         return new PipelineStream<S, T>(newPipeline);
     }
 
+    public chunk(size: number): Stream<T[]> {
+        if (!isPositiveInteger(size)) {
+            throw new IllegalArgumentException(`chunk size must be a positive integer, got ${size}`);
+        }
+        const newPipeline = this.newPipeline(Processor.chunkProcessor<T>(size));
+        return new PipelineStream<S, T[]>(newPipeline);
+    }
+
+    public sliding(size: number, step?: number): Stream<T[]> {
+        const stepToUse = step !== undefined ? step : 1;
+        if (!isPositiveInteger(size) || !isPositiveInteger(stepToUse)) {
+            throw new IllegalArgumentException(`sliding size and step must be positive integers, got size ${size} and step ${stepToUse}`);
+        }
+        const newPipeline = this.newPipeline(Processor.slidingProcessor<T>(size, stepToUse));
+        return new PipelineStream<S, T[]>(newPipeline);
+    }
+
+    public windowBy(predicate: Predicate<T>): Stream<T[]> {
+        const newPipeline = this.newPipeline(Processor.windowByProcessor(predicate));
+        return new PipelineStream<S, T[]>(newPipeline);
+    }
+
+    public zipWith<U, R>(other: Stream<U>, combiner: Combiner<T, U, R>): Stream<R> {
+        return PipelineStream.zip(this, other, combiner);
+    }
+
+    public zipWithIndex(): Stream<Entry<number, T>> {
+        return this.zipWith(Stream.iterate(0, i => i + 1), (value, index) => Entry.of(index, value));
+    }
+
+    public zipLongest<U, R>(other: Stream<U>, thisFill: T, otherFill: U, combiner: Combiner<T, U, R>): Stream<R> {
+        return PipelineStream.ofSource<Optional<R>>(Source.zipLongestSource(this, other, thisFill, otherFill, combiner))
+            .flatMapOptional(Function.identity());
+    }
+
+    public takeWhile(predicate: Predicate<T>): Stream<T> {
+        const newPipeline = this.newPipeline(Processor.takeWhileProcessor(predicate));
+        return new PipelineStream<S, T>(newPipeline);
+    }
+
+    public dropWhile(predicate: Predicate<T>): Stream<T> {
+        const newPipeline = this.newPipeline(Processor.dropWhileProcessor(predicate));
+        return new PipelineStream<S, T>(newPipeline);
+    }
+
+    public skipWhile(predicate: Predicate<T>): Stream<T> {
+        return this.dropWhile(predicate);
+    }
+
     public limit(maxSize: number): Stream<T> {
         const newPipeline = this.newPipeline(Processor.limitProcessor(maxSize));
         return new PipelineStream<S, T>(newPipeline);
     }
 
     public forEachOrdered(consumer: Consumer<T>): void {
+        this.use('consumed');
         let nextItem: Optional<T> = this.getNextProcessedItem();
         while (nextItem.isPresent()) {
             consumer(nextItem.get())
@@ -604,6 +1227,7 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     }
 
     public max(comparator?: Comparator<T>): Optional<T> {
+        this.use('consumed');
         const comparatorToUse: Comparator<T> = comparator ? comparator : Comparator.default();
 
         let maxValue = this.getNextProcessedItem();
@@ -620,6 +1244,7 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
     }
 
     public min(comparator?: Comparator<T>): Optional<T> {
+        this.use('consumed');
         const comparatorToUse: Comparator<T> = comparator ? comparator : Comparator.default();
 
         let minValue = this.getNextProcessedItem();
@@ -634,6 +1259,7 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
         return minValue;
     }
     public reduce(accumulator: BiFunction<T>, initialValue?: T): Optional<T> {
+        this.use('consumed');
         let currentValue: Optional<T> = Optional.ofNullable(initialValue);
         let nextItem = this.getNextProcessedItem();
         while (nextItem.isPresent()) {
@@ -647,10 +1273,131 @@ class PipelineStream<S, T> implements Stream<T>, StreamIterator<T> {
         return currentValue;
     }
 
+    public reduceRight(accumulator: BiFunction<T>, initialValue?: T): Optional<T> {
+        return this.reverse().reduce(accumulator, initialValue);
+    }
+
     public toArray(): T[] {
         return this.collect(Collectors.toList());
     }
 
+    public toReadable(): Readable {
+        return toReadable(this.streamIterator());
+    }
+
+    public pipeTo(writable: Writable): Promise<void> {
+        return pipeTo(this.streamIterator(), writable);
+    }
+
+}
+
+class PipelineNumberStream<S> extends PipelineStream<S, number> implements NumberStream {
+
+    public constructor(pipeline: ProcessorPipeline<S, number>) {
+        super(pipeline);
+    }
+
+    public static ofNumberSource(source: Source<number>): NumberStream {
+        return new PipelineNumberStream<number>(ProcessorPipeline.create(source));
+    }
+
+    //streams returned from the PipelineStream operations are always PipelineStreams
+    private static fromStream<S>(stream: Stream<number>): NumberStream {
+        return new PipelineNumberStream<S>((<PipelineStream<S, number>>stream).pipeline);
+    }
+
+    public sum(): number {
+        this.use('consumed');
+        let sum = 0;
+        let nextItem: Optional<number> = this.getNextProcessedItem();
+        while (nextItem.isPresent()) {
+            sum = sum + nextItem.get();
+            nextItem = this.getNextProcessedItem();
+        }
+        return sum;
+    }
+
+    public average(): Optional<number> {
+        this.use('consumed');
+        let sum = 0;
+        let count = 0;
+        let nextItem: Optional<number> = this.getNextProcessedItem();
+        while (nextItem.isPresent()) {
+            sum = sum + nextItem.get();
+            count++;
+            nextItem = this.getNextProcessedItem();
+        }
+        return count > 0
+            ? Optional.of(sum / count)
+            : Optional.empty();
+    }
+
+    public summaryStatistics(): NumberSummaryStatistics {
+        const statistics = NumberSummaryStatistics.create();
+        this.forEachOrdered(n => statistics.accept(n));
+        return statistics;
+    }
+
+    public asStream(): Stream<number> {
+        this.use('linked');
+        return new PipelineStream<S, number>(this.pipeline);
+    }
+
+    public boxed(): Stream<number> {
+        return this.asStream();
+    }
+
+    public distinct(equalsFunction?: BiPredicate<number, number>): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.distinct(equalsFunction));
+    }
+
+    public distinctBy<K>(keyFunction: Function<number, K>): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.distinctBy(keyFunction));
+    }
+
+    public dropWhile(predicate: Predicate<number>): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.dropWhile(predicate));
+    }
+
+    public filter(predicate: Predicate<number>): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.filter(predicate));
+    }
+
+    public limit(maxSize: number): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.limit(maxSize));
+    }
+
+    public peek(consumer: Consumer<number>): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.peek(consumer));
+    }
+
+    public reverse(): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.reverse());
+    }
+
+    public skip(n: number): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.skip(n));
+    }
+
+    public skipWhile(predicate: Predicate<number>): NumberStream {
+        return this.dropWhile(predicate);
+    }
+
+    public sorted(comparator?: Comparator<number>): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.sorted(comparator));
+    }
+
+    public takeWhile(predicate: Predicate<number>): NumberStream {
+        return PipelineNumberStream.fromStream<S>(super.takeWhile(predicate));
+    }
 }
 
+const isPositiveInteger = (n: number): boolean => Number.isInteger(n) && n > 0;
+
+/**
+ * the result of an iterator with no values left, typed as the result of an iterator of no values at all,
+ * which is a result of an iterator of any type of value
+ */
+const doneResult = (): IteratorResult<never> => <IteratorResult<never>>{ done: true, value: undefined };
+
 export default Stream;
@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import { AsyncSource } from "../asyncSource";
+import AsyncStream from "../asyncStream";
+
+describe('AsyncSource tests', () => {
+    describe('Iterable Source', () => {
+        it('should return values from an async iterable in order', async () => {
+            async function* values() {
+                yield 1;
+                yield 2;
+            }
+            const source: AsyncSource<number> = AsyncSource.iterableSource(values());
+
+            expect(await source.get()).to.equal(1);
+            expect(await source.get()).to.equal(2);
+            expect(await source.get()).to.equal(undefined);
+        });
+
+        it('should resolve promises from a sync iterable', async () => {
+            const source: AsyncSource<number> = AsyncSource.iterableSource([Promise.resolve(1)]);
+
+            expect(await source.get()).to.equal(1);
+        });
+
+        it('should hasNext only while values remain, without consuming', async () => {
+            const source: AsyncSource<number> = AsyncSource.iterableSource([1]);
+
+            expect(await source.hasNext()).to.equal(true);
+            expect(await source.hasNext()).to.equal(true);
+            await source.get();
+            expect(await source.hasNext()).to.equal(false);
+        });
+    });
+
+    describe('Supplier Source', () => {
+        it('should return values from the supplier', async () => {
+            const source: AsyncSource<number> = AsyncSource.supplierSource(() => Promise.resolve(5));
+
+            expect(await source.get()).to.equal(5);
+            expect(await source.hasNext()).to.equal(true);
+        });
+    });
+
+    describe('FlatMap Source', () => {
+        it('should return values from each inner stream in turn', async () => {
+            const streams = AsyncStream.ofValues(AsyncStream.ofValues(1, 2), AsyncStream.empty<number>(), AsyncStream.ofValues(3));
+            const source: AsyncSource<number> = AsyncSource.flatMapSource(streams);
+
+            expect(await source.get()).to.equal(1);
+            expect(await source.get()).to.equal(2);
+            expect(await source.hasNext()).to.equal(true);
+            expect(await source.get()).to.equal(3);
+            expect(await source.hasNext()).to.equal(false);
+        });
+    });
+});
@@ -0,0 +1,297 @@
+import AsyncStream from '../asyncStream';
+import Stream from '../stream';
+import Collectors from '../collectors';
+import { use, spy, expect } from "chai";
+import * as spies from "chai-spies";
+import { Map } from '../map';
+import { Writable } from 'stream';
+use(spies);
+
+const delayed = <T>(value: T, ms: number = 1): Promise<T> => new Promise(resolve => setTimeout(() => resolve(value), ms));
+
+describe('AsyncStream tests', () => {
+
+    describe('construction', () => {
+        it('it should create a stream from an array', async () => {
+            const result = await AsyncStream.of([1, 2, 3]).toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('it should create a stream from values', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3).toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('it should create an empty stream', async () => {
+            const result = await AsyncStream.empty().toArray();
+
+            expect(result.length).to.equal(0);
+        });
+
+        it('it should create a stream from an async generator', async () => {
+            async function* pages() {
+                yield await delayed(1);
+                yield await delayed(2);
+            }
+            const result = await AsyncStream.ofIterable(pages()).toArray();
+
+            expect(result).to.eql([1, 2]);
+        });
+
+        it('it should create a stream from an iterable of promises', async () => {
+            const result = await AsyncStream.ofIterable([delayed(1), delayed(2)]).toArray();
+
+            expect(result).to.eql([1, 2]);
+        });
+
+        it('it should create a stream from a Stream', async () => {
+            const result = await AsyncStream.ofIterable(Stream.iterate(1, i => i + 1)).limit(3).toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('it should generate an infinite stream from an async supplier', async () => {
+            let count = 0;
+            const result = await AsyncStream.generate(() => delayed(count++)).limit(3).toArray();
+
+            expect(result).to.eql([0, 1, 2]);
+        });
+    });
+
+    describe('intermediate operations', () => {
+        it('map should resolve promises returned from the mapper', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3)
+                .map(i => delayed(i * 2))
+                .map(i => i + 1)
+                .toArray();
+
+            expect(result).to.eql([3, 5, 7]);
+        });
+
+        it('filter should keep matching elements', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3, 4)
+                .filter(i => i % 2 === 0)
+                .toArray();
+
+            expect(result).to.eql([2, 4]);
+        });
+
+        it('flatMap should flatten inner streams in order', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3)
+                .flatMap(i => AsyncStream.ofValues(i, i * 10))
+                .toArray();
+
+            expect(result).to.eql([1, 10, 2, 20, 3, 30]);
+        });
+
+        it('flatMap should skip empty inner streams', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3)
+                .flatMap(i => i === 2 ? AsyncStream.empty<number>() : AsyncStream.ofValue(i))
+                .toArray();
+
+            expect(result).to.eql([1, 3]);
+        });
+
+        it('limit should stop pulling from the source', async () => {
+            const supplier = spy(() => delayed(1));
+            const result = await AsyncStream.generate(supplier).limit(2).toArray();
+
+            expect(result).to.eql([1, 1]);
+            expect(supplier).to.have.been.called.exactly(2);
+        });
+
+        it('skip should drop the first n elements', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3, 4).skip(2).toArray();
+
+            expect(result).to.eql([3, 4]);
+        });
+
+        it('distinct should remove duplicates', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 1, 3, 2).distinct().toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('sorted should sort all elements', async () => {
+            const result = await AsyncStream.ofValues(3, 1, 2)
+                .map(i => delayed(i))
+                .sorted()
+                .toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('peek should call the consumer lazily', async () => {
+            const consumer = spy();
+            const stream = AsyncStream.ofValues(1, 2).peek(consumer);
+
+            expect(consumer).to.not.have.been.called();
+            await stream.toArray();
+            expect(consumer).to.have.been.called.exactly(2);
+        });
+    });
+
+    describe('terminal operations', () => {
+        it('collect should work with existing Collectors', async () => {
+            const result: Map<boolean, number[]> = await AsyncStream.ofValues(1, 2, 3, 4)
+                .map(i => delayed(i))
+                .collect(Collectors.partitioningBy((i: number) => i % 2 === 0));
+
+            expect(result.get(true)).to.eql([2, 4]);
+            expect(result.get(false)).to.eql([1, 3]);
+        });
+
+        it('collect should work with supplier and accumulator', async () => {
+            const result = await AsyncStream.ofValues('a', 'b')
+                .collect(() => [] as string[], (list, item) => list.push(item), (l1, l2) => l1.push(...l2));
+
+            expect(result).to.eql(['a', 'b']);
+        });
+
+        it('reduce should reduce the elements', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3).reduce((a, b) => a + b);
+
+            expect(result.get()).to.equal(6);
+        });
+
+        it('reduce should return initial value for empty stream', async () => {
+            const result = await AsyncStream.empty<number>().reduce((a, b) => a + b, 10);
+
+            expect(result.get()).to.equal(10);
+        });
+
+        it('findFirst should return the first element', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3).filter(i => i > 1).findFirst();
+
+            expect(result.get()).to.equal(2);
+        });
+
+        it('findFirst should return empty on empty stream', async () => {
+            const result = await AsyncStream.empty().findFirst();
+
+            expect(result.isPresent()).to.be.false;
+        });
+
+        it('forEach should consume every element in order', async () => {
+            const result: number[] = [];
+            await AsyncStream.ofValues(1, 2, 3).map(i => delayed(i, 4 - i)).forEach(i => result.push(i));
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('count should count the elements', async () => {
+            const result = await AsyncStream.ofValues(1, 2, 3).count();
+
+            expect(result).to.equal(3);
+        });
+
+        it('should be usable in a for await loop', async () => {
+            const result: number[] = [];
+            for await (const value of AsyncStream.ofValues(1, 2, 3).map(i => delayed(i))) {
+                result.push(value);
+            }
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('should reject when a mapper rejects', async () => {
+            const error = new Error('failed');
+            let caught: any;
+            try {
+                await AsyncStream.ofValues(1).map(i => Promise.reject(error)).toArray();
+            } catch (e) {
+                caught = e;
+            }
+
+            expect(caught).to.equal(error);
+        });
+    });
+
+    describe('mapAsync', () => {
+        const tracking = () => {
+            const state = { inFlight: 0, maxInFlight: 0 };
+            const mapper = (value: number) => {
+                state.inFlight++;
+                state.maxInFlight = Math.max(state.maxInFlight, state.inFlight);
+                return delayed(value * 2, (7 - value) * 5).then(result => {
+                    state.inFlight--;
+                    return result;
+                });
+            };
+            return { state, mapper };
+        };
+
+        it('it should keep at most concurrency Promises in flight, preserving order', async () => {
+            const { state, mapper } = tracking();
+            const result = await AsyncStream.of([1, 2, 3, 4, 5, 6]).mapAsync(mapper, { concurrency: 2 }).toArray();
+
+            expect(result).to.eql([2, 4, 6, 8, 10, 12]);
+            expect(state.maxInFlight).to.equal(2);
+        });
+
+        it('it should return results in completion order when not ordered', async () => {
+            const { mapper } = tracking();
+            const result = await AsyncStream.of([1, 2, 3]).mapAsync(mapper, { concurrency: 3, ordered: false }).toArray();
+
+            expect(result).to.eql([6, 4, 2]);
+        });
+
+        it('it should be available on Stream, lazily pulling from the stream', async () => {
+            const { state, mapper } = tracking();
+            const result = await Stream.iterate(1, i => i + 1)
+                .mapAsync(mapper, { concurrency: 3 })
+                .limit(4)
+                .collect(Collectors.toList());
+
+            expect(result).to.eql([2, 4, 6, 8]);
+            expect(state.maxInFlight).to.equal(3);
+        });
+
+        it('it should reject when a mapper rejects', async () => {
+            const error = new Error('failed');
+            let caught: any;
+            try {
+                await Stream.ofValues(1, 2, 3).mapAsync(i => i === 2 ? Promise.reject(error) : delayed(i), { concurrency: 2 }).toArray();
+            } catch (e) {
+                caught = e;
+            }
+
+            expect(caught).to.equal(error);
+        });
+    });
+
+    describe('Node.js stream adapters', () => {
+        it('it should write every element with pipeTo, waiting for the writable to drain', async () => {
+            const written: number[] = [];
+            let pulled = 0;
+            let mostAhead = 0;
+            await AsyncStream.of(Stream.range(0, 30).toArray())
+                .peek(() => {
+                    pulled++;
+                    mostAhead = Math.max(mostAhead, pulled - written.length);
+                })
+                .pipeTo(new Writable({
+                    objectMode: true,
+                    highWaterMark: 1,
+                    write: (value: number, encoding: string, callback: () => void) => setTimeout(() => {
+                        written.push(value);
+                        callback();
+                    }, 1),
+                }));
+
+            expect(written).to.eql(Stream.range(0, 30).toArray());
+            expect(mostAhead).to.be.below(30);
+        });
+
+        it('it should read the stream through toReadable', async () => {
+            const values: string[] = [];
+            for await (const value of AsyncStream.ofValues('a', 'b').map(s => delayed(s.toUpperCase())).toReadable()) {
+                values.push(value);
+            }
+
+            expect(values).to.eql(['A', 'B']);
+        });
+    });
+});
@@ -2,11 +2,16 @@ import { use, spy, expect } from "chai";
 import * as spies from "chai-spies";
 import Stream from "../stream";
 import Collectors, { Collector } from "../collectors";
-import { Map } from '../map';
+import { Map, LinkedHashMap, MultiMap, TreeMap, ImmutableMap, IdentityHashMap } from '../map';
+import { ImmutableList } from '../list';
+import { Set } from '../set';
 import Optional from "../optional";
+import Result from "../result";
+import AsyncStream from "../asyncStream";
+import { Writable } from "stream";
 import { Comparator } from "..";
 import { Function } from "../functions";
-import Errors from "../errors";
+import Errors, { IllegalStateException } from "../errors";
 use(spies);
 
 describe('Collectors', () => {
@@ -143,6 +148,56 @@ describe('Collectors', () => {
             expect(mapByFirstLetter.getOptional('d').get()).to.contain.members(['dog']);
             expect(mapByFirstLetter.getOptional('a').get()).to.contain.members(['ant']);
         });
+
+        it('it should create the result map with the map factory', () => {
+            const source = ["zebra", "dog", "ant", "dingo", "zoo", "cat"];
+            const countsByFirstLetter: TreeMap<string, number> = Stream.of(source)
+                .collect(Collectors.groupingBy(word => word.charAt(0), () => TreeMap.empty<string, number>(), Collectors.counting()));
+
+            expect(countsByFirstLetter.keySet()).to.eql(['a', 'c', 'd', 'z']);
+            expect(countsByFirstLetter.values()).to.eql([1, 1, 2, 2]);
+        });
+
+        it('it should keep the encounter order of the keys with a LinkedHashMap factory', () => {
+            const source = ["zebra", "dog", "ant", "dingo", "zoo", "cat"];
+            const byFirstLetter: Map<string, string[]> = Stream.of(source)
+                .collect(Collectors.groupingBy(word => word.charAt(0), () => LinkedHashMap.empty<string, string[]>(), Collectors.toList()));
+
+            expect(byFirstLetter.keySet()).to.eql(['z', 'd', 'a', 'c']);
+            expect(byFirstLetter.get('d')).to.eql(['dog', 'dingo']);
+        });
+
+        it('it should group the keys using the key equality of the map factory', () => {
+            const ignoringCase: Comparator<string> = (s1, s2) => s1.toLowerCase().localeCompare(s2.toLowerCase());
+            const counts: TreeMap<string, number> = Stream.of(['a', 'A', 'b'])
+                .collect(Collectors.groupingBy(s => s, () => TreeMap.empty<string, number>(ignoringCase), Collectors.counting()));
+
+            expect(counts.get('a')).to.equal(2);
+            expect(counts.get('b')).to.equal(1);
+            expect(counts.keySet().length).to.equal(2);
+        });
+
+        it('it should keep keys apart that are different to an IdentityHashMap factory', () => {
+            const first = { id: 1 };
+            const second = { id: 1 };
+            const groups: Map<object, number[]> = Stream.of([1, 2, 3])
+                .collect(Collectors.groupingBy(n => n === 2 ? second : first, () => IdentityHashMap.empty<object, number[]>(), Collectors.toList()));
+
+            expect(groups.get(first)).to.eql([1, 3]);
+            expect(groups.get(second)).to.eql([2]);
+        });
+
+        it('it should combine the groups of two containers with the map factory', () => {
+            const collector = Collectors.groupingBy((s: string) => s.charAt(0), () => TreeMap.empty<string, number>(), Collectors.counting());
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            ['ab', 'ac', 'b'].forEach(s => collector.accumulator()(first, s));
+            ['ad', 'c'].forEach(s => collector.accumulator()(second, s));
+            const counts = collector.finisher()(collector.combiner()(first, second));
+
+            expect(counts.keySet()).to.eql(['a', 'b', 'c']);
+            expect(counts.values()).to.eql([3, 1, 1]);
+        });
     });
 
     describe('mapping', () => {
@@ -401,6 +456,15 @@ describe('Collectors', () => {
             expect(action).to.throw(Errors.IllegalStateException);
         });
 
+        it('throws an IllegalStateException naming the duplicate key', () => {
+            const action = () => Stream.ofValues("1", "2", "2").collect(Collectors.toMap(
+                (str) => `key:${str}`,
+                parseInt
+            ));
+
+            expect(action).to.throw(IllegalStateException, 'duplicate key key:2');
+        });
+
         it('saves all items and merges with merger when there is dupes', () => {
             const source = ["1", "2", "2"];
             const stream = Stream.of(source);
@@ -414,5 +478,325 @@ describe('Collectors', () => {
             expect(resultMap.get(`key:2`)).to.eq(4);
 
         });
+
+        it('saves all items into the map created by the map factory', () => {
+            const source = ["3", "1", "2", "1"];
+            const resultMap: LinkedHashMap<string, number> = Stream.of(source).collect(Collectors.toMap(
+                (str) => `key:${str}`,
+                parseInt,
+                (i, i2) => i + i2,
+                () => LinkedHashMap.empty<string, number>(),
+            ));
+
+            expect(resultMap.keySet()).to.eql(['key:3', 'key:1', 'key:2']);
+            expect(resultMap.get('key:1')).to.eq(2);
+        });
+    });
+
+    describe('toMultiMap', () => {
+        it('it should add every item to the values of its key', () => {
+            const result: MultiMap<number, string> = Stream.ofValues("a", "bb", "c", "a")
+                .collect(Collectors.toMultiMap(str => str.length, str => str));
+
+            expect(result.keys()).to.eql([1, 2]);
+            expect(result.get(1)).to.eql(["a", "c", "a"]);
+            expect(result.get(2)).to.eql(["bb"]);
+        });
+
+        it('it should collect into the multimap created by the factory', () => {
+            const result = Stream.ofValues("a", "bb", "c", "a")
+                .collect(Collectors.toMultiMap(str => str.length, str => str, () => MultiMap.setBacked<number, string>()));
+
+            expect(result.get(1)).to.have.members(["a", "c"]);
+            expect(result.size()).to.eq(3);
+        });
+    });
+
+    describe('toSet', () => {
+        it('it should collect the distinct items into a set', () => {
+            const result: Set<string> = Stream.ofValues("a", "b", "a", "c").collect(Collectors.toSet());
+
+            expect(result.size()).to.eq(3);
+            expect(result.toArray()).to.have.members(["a", "b", "c"]);
+        });
+    });
+
+    describe('toTreeSet', () => {
+        it('it should collect the distinct items into a sorted set', () => {
+            const result = Stream.ofValues(3, 1, 2, 3).collect(Collectors.toTreeSet<number>());
+
+            expect(result.toArray()).to.eql([1, 2, 3]);
+        });
+
+        it('it should sort and dedupe the items with the comparator', () => {
+            const result = Stream.ofValues("bb", "a", "cc", "ddd").collect(Collectors.toTreeSet<string>((a, b) => b.length - a.length));
+
+            expect(result.toArray()).to.eql(["ddd", "bb", "a"]);
+        });
+    });
+
+    describe('toUnmodifiableList', () => {
+        it('it should collect the items into an ImmutableList', () => {
+            const result: ImmutableList<number> = Stream.ofValues(3, 1, 2).collect(Collectors.toUnmodifiableList());
+
+            expect(result.toArray()).to.eql([3, 1, 2]);
+        });
+    });
+
+    describe('toUnmodifiableMap', () => {
+        it('it should collect the items into an ImmutableMap', () => {
+            const result: ImmutableMap<string, number> = Stream.ofValues("a", "bb")
+                .collect(Collectors.toUnmodifiableMap(str => str, str => str.length));
+
+            expect(result.get("bb")).to.eq(2);
+            expect(() => result.put("c", 1)).to.throw(Errors.UnsupportedOperationException);
+        });
+
+        it('it should throw on duplicate keys unless there is a merger', () => {
+            const stream = () => Stream.ofValues("a", "b", "a");
+
+            expect(() => stream().collect(Collectors.toUnmodifiableMap(str => str, str => 1))).to.throw(Errors.IllegalStateException);
+            expect(stream().collect(Collectors.toUnmodifiableMap(str => str, str => 1, (v1, v2) => v1 + v2)).get("a")).to.eq(2);
+        });
+    });
+
+    describe('toUnmodifiableSet', () => {
+        it('it should collect the distinct items into an unmodifiable set', () => {
+            const result = Stream.ofValues(1, 2, 1).collect(Collectors.toUnmodifiableSet());
+
+            expect(result.toArray()).to.have.members([1, 2]);
+            expect(() => result.add(3)).to.throw(Errors.UnsupportedOperationException);
+        });
+    });
+
+    describe('partitioningByResult', () => {
+        it('it should collect the values of the successes and the errors of the failures in order', () => {
+            const error1 = new Error('first');
+            const error2 = new Error('second');
+            const partition = Stream.ofValues(Result.success(1), Result.failure<number>(error1), Result.success(2), Result.failure<number>(error2))
+                .collect(Collectors.partitioningByResult());
+
+            expect(partition.successes).to.eql([1, 2]);
+            expect(partition.failures).to.eql([error1, error2]);
+        });
+
+        it('it should return empty lists when there are no results', () => {
+            const partition = Stream.empty<Result<number, string>>().collect(Collectors.partitioningByResult());
+
+            expect(partition).to.eql({ successes: [], failures: [] });
+        });
+
+        it('it should collect the results of mapTry', () => {
+            const partition = Stream.ofValues('{"a":1}', '{', '[]')
+                .mapTry(json => JSON.parse(json))
+                .collect(Collectors.partitioningByResult());
+
+            expect(partition.successes).to.eql([{ a: 1 }, []]);
+            expect(partition.failures.length).to.equal(1);
+            expect(partition.failures[0]).to.be.instanceOf(SyntaxError);
+        });
+    });
+
+    describe('toWritable', () => {
+        const collectingWritable = (written: string[]) => new Writable({
+            objectMode: true,
+            highWaterMark: 1,
+            write: (value: string, encoding: string, callback: (error?: Error) => void) => setTimeout(() => {
+                if (value === 'bad') {
+                    callback(new Error('write failed'));
+                } else {
+                    written.push(value);
+                    callback();
+                }
+            }, 1),
+        });
+
+        it('it should write every element and resolve once the writable has finished', async () => {
+            const written: string[] = [];
+            await Stream.ofValues('a', 'b', 'c').collect(Collectors.toWritable(collectingWritable(written)));
+
+            expect(written).to.eql(['a', 'b', 'c']);
+        });
+
+        it('it should wait for the writable to drain when collecting an AsyncStream', async () => {
+            const written: string[] = [];
+            let pulled = 0;
+            let mostAhead = 0;
+            await AsyncStream.of(Stream.range(0, 20).boxed().map(n => `${n}`).toArray())
+                .peek(() => {
+                    pulled++;
+                    mostAhead = Math.max(mostAhead, pulled - written.length);
+                })
+                .collect(Collectors.toWritable(collectingWritable(written)));
+
+            expect(written.length).to.equal(20);
+            expect(mostAhead).to.be.at.most(3);
+        });
+
+        it('it should reject when the writable fails', async () => {
+            let caught;
+            try {
+                await AsyncStream.ofValues('a', 'bad', 'c', 'd').collect(Collectors.toWritable(collectingWritable([])));
+            } catch (e) {
+                caught = e;
+            }
+
+            expect(caught.message).to.equal('write failed');
+        });
+
+        it('it should write the elements of a parallel stream in encounter order', async () => {
+            const written: string[] = [];
+            await Stream.range(0, 10)
+                .parallel(3)
+                .map(n => `${n}`)
+                .collect(Collectors.toWritable(collectingWritable(written)));
+
+            expect(written).to.eql(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9']);
+        });
+
+        it('it should keep writing the elements of the combined sinks', async () => {
+            const written: string[] = [];
+            const collector = Collectors.toWritable<string>(collectingWritable(written));
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, 'a');
+            collector.accumulator()(second, 'b');
+            collector.accumulator()(second, 'c');
+            await collector.finisher()(collector.combiner()(first, second));
+
+            expect(written).to.eql(['a', 'b', 'c']);
+        });
+
+        it('it should stop listening to the writable once finished', async () => {
+            const writable = collectingWritable([]);
+            const listeners = writable.listenerCount('error');
+            const collector = Collectors.toWritable<string>(writable);
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(second, 'a');
+            await collector.finisher()(collector.combiner()(first, second));
+
+            expect(writable.listenerCount('error')).to.equal(listeners);
+        });
+
+        it('it should still write the elements after a collection has failed', async () => {
+            const written: string[] = [];
+            const collector = Collectors.toWritable<string>(collectingWritable(written));
+            const failing = Stream.ofValues('a', 'b').map(value => {
+                if (value === 'b') {
+                    throw new Error('mapping failed');
+                }
+                return value;
+            });
+
+            expect(() => failing.collect(collector)).to.throw();
+            await Stream.ofValues('c').collect(collector);
+            expect(written).to.eql(['a', 'c']);
+        });
+    });
+
+    describe('combiners', () => {
+        it('summingNumber combiner should add the totals of both containers', () => {
+            const collector = Collectors.summingNumber();
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, 1);
+            collector.accumulator()(second, 2);
+            collector.accumulator()(second, 3);
+
+            expect(collector.finisher()(collector.combiner()(first, second))).eq(6);
+        });
+
+        it('partitioningByResult combiner should concatenate both partitions', () => {
+            const collector = Collectors.partitioningByResult<number, string>();
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, Result.success(1));
+            collector.accumulator()(first, Result.failure('a'));
+            collector.accumulator()(second, Result.success(2));
+            collector.accumulator()(second, Result.failure('b'));
+
+            expect(collector.finisher()(collector.combiner()(first, second))).to.eql({ successes: [1, 2], failures: ['a', 'b'] });
+        });
+
+        it('toSet combiner should merge both sets', () => {
+            const collector = Collectors.toSet<number>();
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, 1);
+            collector.accumulator()(second, 1);
+            collector.accumulator()(second, 2);
+
+            expect(collector.finisher()(collector.combiner()(first, second)).toArray()).to.have.members([1, 2]);
+        });
+
+        it('averagingNumber combiner should average over both containers', () => {
+            const collector = Collectors.averagingNumber<number>(Function.identity());
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, 1);
+            collector.accumulator()(second, 2);
+            collector.accumulator()(second, 6);
+
+            expect(collector.finisher()(collector.combiner()(first, second))).eq(3);
+        });
+
+        it('summarizingNumber combiner should keep an average of zero when both containers are empty', () => {
+            const collector = Collectors.summarizingNumber();
+            const combined = collector.combiner()(collector.supplier()(), collector.supplier()());
+
+            expect(combined.getAverage()).eq(0);
+            expect(combined.getCount()).eq(0);
+        });
+
+        it('groupingBy combiner should concatenate the groups of both containers', () => {
+            const collector = Collectors.groupingBy((word: string) => word.charAt(0));
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, "cat");
+            collector.accumulator()(second, "car");
+            collector.accumulator()(second, "dog");
+
+            const combined = collector.finisher()(collector.combiner()(first, second));
+            expect(combined.get('c')).to.eql(["cat", "car"]);
+            expect(combined.get('d')).to.eql(["dog"]);
+        });
+
+        it('partitioningBy combiner should concatenate the partitions of both containers', () => {
+            const collector = Collectors.partitioningBy((i: number) => i > 2);
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, 1);
+            collector.accumulator()(first, 3);
+            collector.accumulator()(second, 2);
+            collector.accumulator()(second, 4);
+
+            const combined = collector.finisher()(collector.combiner()(first, second));
+            expect(combined.get(true)).to.eql([3, 4]);
+            expect(combined.get(false)).to.eql([1, 2]);
+        });
+
+        it('toMap combiner should throw an error on duplicate keys without a merger', () => {
+            const collector = Collectors.toMap((str: string) => str, parseInt);
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, "1");
+            collector.accumulator()(second, "1");
+
+            expect(() => collector.combiner()(first, second)).to.throw(Errors.IllegalStateException);
+        });
+
+        it('toMap combiner should merge duplicate keys with the merger', () => {
+            const collector = Collectors.toMap((str: string) => str, parseInt, (i1, i2) => i1 + i2);
+            const first = collector.supplier()();
+            const second = collector.supplier()();
+            collector.accumulator()(first, "1");
+            collector.accumulator()(second, "1");
+            collector.accumulator()(second, "2");
+
+            const combined = collector.combiner()(first, second);
+            expect(combined.get("1")).eq(2);
+            expect(combined.get("2")).eq(2);
+        });
     });
 });
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import Errors, {
+    Exception,
+    NoSuchElementException,
+    NullPointerException,
+    IllegalStateException,
+    IllegalArgumentException,
+    UnsupportedOperationException,
+    IndexOutOfBoundsException,
+    ConcurrentModificationException,
+} from "../errors";
+
+describe('Errors tests', () => {
+    describe('exception classes', () => {
+        const exceptions: [Function, Errors][] = [
+            [NoSuchElementException, Errors.NoSuchElementException],
+            [NullPointerException, Errors.NullPointerException],
+            [IllegalStateException, Errors.IllegalStateException],
+            [IllegalArgumentException, Errors.IllegalArgumentException],
+            [UnsupportedOperationException, Errors.UnsupportedOperationException],
+            [IndexOutOfBoundsException, Errors.IndexOutOfBoundsException],
+            [ConcurrentModificationException, Errors.ConcurrentModificationException],
+        ];
+
+        exceptions.forEach(([ExceptionClass, type]) => {
+            it(`${type} should be an instance of its class, Exception and Error`, () => {
+                const exception = new (ExceptionClass as any)();
+
+                expect(exception).to.be.instanceOf(ExceptionClass);
+                expect(exception).to.be.instanceOf(Exception);
+                expect(exception).to.be.instanceOf(Error);
+                expect(exception.name).to.equal(type);
+                expect(exception.message).to.equal(type);
+            });
+        });
+
+        it('it should not be an instance of the other exception classes', () => {
+            expect(new NoSuchElementException()).to.not.be.instanceOf(IllegalStateException);
+        });
+
+        it('it should start the message with the type, followed by the description', () => {
+            const exception = new IllegalStateException('duplicate key a');
+
+            expect(exception.message).to.equal('IllegalStateException: duplicate key a');
+            expect(() => { throw exception; }).to.throw(Errors.IllegalStateException);
+        });
+
+        it('it should keep the cause', () => {
+            const cause = new Error('root');
+            const exception = new IllegalArgumentException('wrapped', cause);
+            const outer = new IllegalStateException('outer', exception);
+
+            expect(outer.cause).to.equal(exception);
+            expect(outer.cause.cause).to.equal(cause);
+            expect(new NoSuchElementException().cause).to.be.undefined;
+        });
+
+        it('it should have a stack trace', () => {
+            expect(new NullPointerException().stack).to.be.a('string');
+        });
+    });
+});
@@ -0,0 +1,101 @@
+import { ImmutableList } from "../list";
+import { Errors } from "../errors";
+import Stream from "../stream";
+import { expect } from "chai";
+
+describe('ImmutableList tests', () => {
+    describe('of and copyOf', () => {
+        it('it should contain the values in order', () => {
+            const list = ImmutableList.of('a', 'b', 'c');
+
+            expect(list.size()).to.equal(3);
+            expect(list.get(1)).to.equal('b');
+            expect(list.toArray()).to.eql(['a', 'b', 'c']);
+        });
+
+        it('it should not be affected by changes to the array', () => {
+            const values = [1, 2];
+            const list = ImmutableList.copyOf(values);
+            values.push(3);
+            list.toArray().push(4);
+
+            expect(list.toArray()).to.eql([1, 2]);
+        });
+    });
+
+    describe('get', () => {
+        it('it should throw IndexOutOfBoundsException for an index outside of the list', () => {
+            const list = ImmutableList.of(1);
+
+            expect(() => list.get(1)).to.throw(Errors.IndexOutOfBoundsException);
+            expect(() => list.get(-1)).to.throw(Errors.IndexOutOfBoundsException);
+            expect(() => ImmutableList.empty().get(0)).to.throw(Errors.IndexOutOfBoundsException);
+        });
+    });
+
+    describe('append', () => {
+        it('it should return a new list with the value at the end', () => {
+            const original = ImmutableList.of(1, 2);
+            const appended = original.append(3);
+
+            expect(appended.toArray()).to.eql([1, 2, 3]);
+            expect(original.toArray()).to.eql([1, 2]);
+        });
+
+        it('it should hold many values', () => {
+            const values = Stream.range(0, 5000).toArray();
+            const list = ImmutableList.copyOf(values);
+
+            expect(list.size()).to.equal(5000);
+            expect(list.get(0)).to.equal(0);
+            expect(list.get(1056)).to.equal(1056);
+            expect(list.toArray()).to.eql(values);
+        });
+    });
+
+    describe('with', () => {
+        it('it should return a new list with the value replaced', () => {
+            const original = ImmutableList.copyOf(Stream.range(0, 100).toArray());
+            const updated = original.with(70, -1);
+
+            expect(updated.get(70)).to.equal(-1);
+            expect(original.get(70)).to.equal(70);
+            expect(updated.size()).to.equal(100);
+            expect(() => original.with(100, 1)).to.throw(Errors.IndexOutOfBoundsException);
+        });
+    });
+
+    describe('without', () => {
+        it('it should return a new list without the value at the index', () => {
+            const original = ImmutableList.of('a', 'b', 'c');
+            const updated = original.without(1);
+
+            expect(updated.toArray()).to.eql(['a', 'c']);
+            expect(original.toArray()).to.eql(['a', 'b', 'c']);
+        });
+    });
+
+    describe('contains and indexOf', () => {
+        it('it should find values in the list', () => {
+            const list = ImmutableList.of('a', 'b', 'b');
+
+            expect(list.contains('b')).to.be.true;
+            expect(list.contains('B', (v1, v2) => v1.toLowerCase() === v2.toLowerCase())).to.be.true;
+            expect(list.contains('c')).to.be.false;
+            expect(list.indexOf('b')).to.equal(1);
+            expect(list.indexOf('c')).to.equal(-1);
+        });
+    });
+
+    describe('stream and forEach', () => {
+        it('it should go over the values in order', () => {
+            const list = ImmutableList.of(1, 2, 3);
+            const seen: number[] = [];
+            list.forEach(value => seen.push(value));
+
+            expect(seen).to.eql([1, 2, 3]);
+            expect(list.stream().map(n => n * 2).toArray()).to.eql([2, 4, 6]);
+            expect(ImmutableList.empty().isEmpty()).to.be.true;
+        });
+    });
+});
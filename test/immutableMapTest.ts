@@ -0,0 +1,121 @@
+import { Map, Entry, ImmutableMap } from "../map";
+import { Errors } from "../errors";
+import Stream from "../stream";
+import { expect } from "chai";
+
+describe('ImmutableMap tests', () => {
+    describe('ofEntries', () => {
+        it('it should contain all the entries', () => {
+            const map = Map.ofEntries(Entry.of('a', 1), Entry.of('b', 2), Entry.of('c', 3), Entry.of('d', 4), Entry.of('e', 5), Entry.of('f', 6));
+
+            expect(map.size()).to.equal(6);
+            expect(map.get('f')).to.equal(6);
+            expect(map.keySet()).to.have.members(['a', 'b', 'c', 'd', 'e', 'f']);
+        });
+
+        it('it should use the last value of a duplicate key', () => {
+            const map = ImmutableMap.ofEntries(Entry.of('a', 1), Entry.of('a', 2));
+
+            expect(map.size()).to.equal(1);
+            expect(map.get('a')).to.equal(2);
+        });
+    });
+
+    describe('copyOf', () => {
+        it('it should not be affected by changes to the original map', () => {
+            const original = Map.of('a', 1);
+            const copy = Map.copyOf(original);
+            original.put('b', 2);
+
+            expect(copy.containsKey('b')).to.be.false;
+            expect(copy.get('a')).to.equal(1);
+        });
+
+        it('it should return the same map when it is already immutable', () => {
+            const map = ImmutableMap.empty<string, number>().with('a', 1);
+
+            expect(Map.copyOf(map)).to.equal(map);
+        });
+    });
+
+    describe('with', () => {
+        it('it should return a new map with the value, leaving the original unchanged', () => {
+            const original = ImmutableMap.empty<string, number>().with('a', 1);
+            const updated = original.with('a', 2).with('b', 3);
+
+            expect(original.get('a')).to.equal(1);
+            expect(original.size()).to.equal(1);
+            expect(updated.get('a')).to.equal(2);
+            expect(updated.get('b')).to.equal(3);
+            expect(updated.size()).to.equal(2);
+        });
+
+        it('it should hold many keys', () => {
+            const map = Stream.range(0, 2000).toArray()
+                .reduce((m: ImmutableMap<number, number>, n) => m.with(n, n * 2), ImmutableMap.empty<number, number>());
+
+            expect(map.size()).to.equal(2000);
+            expect(Stream.range(0, 2000).allMatch(n => map.get(n) === n * 2)).to.be.true;
+            expect(map.get(2000)).to.be.null;
+        });
+
+        it('it should keep keys with colliding hash codes apart', () => {
+            const map = ImmutableMap.empty<object, number>()
+                .with({ a: 1 }, 1)
+                .with({ a: 1 }, 2)
+                .with({ a: 2 }, 3);
+
+            expect(map.size()).to.equal(2);
+            expect(map.get({ a: 1 })).to.equal(2);
+        });
+    });
+
+    describe('without', () => {
+        it('it should return a new map without the key, leaving the original unchanged', () => {
+            const original = ImmutableMap.ofEntries(Entry.of('a', 1), Entry.of('b', 2));
+            const updated = original.without('a');
+
+            expect(updated.containsKey('a')).to.be.false;
+            expect(updated.size()).to.equal(1);
+            expect(original.containsKey('a')).to.be.true;
+            expect(original.without('c')).to.equal(original);
+        });
+
+        it('it should remove every key', () => {
+            const full = Stream.range(0, 500).toArray()
+                .reduce((m: ImmutableMap<number, number>, n) => m.with(n, n), ImmutableMap.empty<number, number>());
+            const emptied = Stream.range(0, 500).toArray()
+                .reduce((m: ImmutableMap<number, number>, n) => m.without(n), full);
+
+            expect(emptied.isEmpty()).to.be.true;
+            expect(emptied.entrySet()).to.eql([]);
+            expect(full.size()).to.equal(500);
+        });
+    });
+
+    describe('mutations', () => {
+        it('it should throw UnsupportedOperationException', () => {
+            const map = ImmutableMap.ofEntries(Entry.of('a', 1));
+
+            expect(() => map.put('b', 2)).to.throw(Errors.UnsupportedOperationException);
+            expect(() => map.remove('a')).to.throw(Errors.UnsupportedOperationException);
+            expect(() => map.clear()).to.throw(Errors.UnsupportedOperationException);
+            expect(() => map.putAll(Map.empty())).to.throw(Errors.UnsupportedOperationException);
+            expect(() => map.computeIfAbsent('a', () => 1)).to.throw(Errors.UnsupportedOperationException);
+            expect(() => map.merge('a', 1, (v1, v2) => v1 + v2)).to.throw(Errors.UnsupportedOperationException);
+            expect(() => map.replaceAll((k, v) => v)).to.throw(Errors.UnsupportedOperationException);
+            expect(map.get('a')).to.equal(1);
+        });
+    });
+
+    describe('read methods', () => {
+        it('it should support the read side of Map', () => {
+            const map = ImmutableMap.ofEntries(Entry.of('a', 1), Entry.of('b', 2));
+
+            expect(map.getOrDefault('c', 0)).to.equal(0);
+            expect(map.containsValue(2)).to.be.true;
+            expect(map.valueStream().reduce((a, b) => a + b).get()).to.equal(3);
+            expect(map.equals(Map.of('a', 1, 'b', 2))).to.be.true;
+        });
+    });
+});
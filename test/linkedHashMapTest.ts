@@ -0,0 +1,140 @@
+import { Map, LinkedHashMap } from "../map";
+import { Errors } from "../errors";
+import { expect } from "chai";
+
+describe('LinkedHashMap tests', () => {
+    describe('empty', () => {
+        it('it should create an empty map', () => {
+            const map = LinkedHashMap.empty<string, number>();
+
+            expect(map.isEmpty()).to.be.true;
+            expect(map.size()).to.equal(0);
+        });
+    });
+
+    describe('copyOf', () => {
+        it('it should copy all entries in the iteration order of the map', () => {
+            const original = LinkedHashMap.empty<string, number>();
+            original.put('c', 3);
+            original.put('a', 1);
+            original.put('b', 2);
+
+            expect(LinkedHashMap.copyOf(original).keySet()).to.eql(['c', 'a', 'b']);
+        });
+    });
+
+    describe('insertion order', () => {
+        it('it should iterate entries in the order they were inserted', () => {
+            const map = LinkedHashMap.empty<number, string>();
+            [5, 1, 30, 12, 2].forEach(n => map.put(n, `${n}`));
+
+            expect(map.keySet()).to.eql([5, 1, 30, 12, 2]);
+            expect(map.values()).to.eql(['5', '1', '30', '12', '2']);
+            expect(map.keyStream().toArray()).to.eql([5, 1, 30, 12, 2]);
+        });
+
+        it('it should not change the order when an existing key is updated or read', () => {
+            const map = LinkedHashMap.empty<string, number>();
+            map.put('a', 1);
+            map.put('b', 2);
+            expect(map.put('a', 3)).to.equal(1);
+            map.get('a');
+
+            expect(map.entrySet().map(e => [e.getKey(), e.getValue()])).to.eql([['a', 3], ['b', 2]]);
+        });
+
+        it('it should move a key to the end when it is removed and put again', () => {
+            const map = LinkedHashMap.empty<string, number>();
+            map.put('a', 1);
+            map.put('b', 2);
+            expect(map.remove('a')).to.equal(1);
+            map.put('a', 1);
+
+            expect(map.keySet()).to.eql(['b', 'a']);
+            expect(map.size()).to.equal(2);
+        });
+
+        it('it should throw NullPointerException for a null key', () => {
+            const map = LinkedHashMap.empty<any, number>();
+
+            expect(() => map.put(null, 1)).to.throw(Errors.NullPointerException);
+        });
+    });
+
+    describe('access order', () => {
+        it('it should move accessed entries to the end', () => {
+            const map = LinkedHashMap.empty<string, number>({ accessOrder: true });
+            map.put('a', 1);
+            map.put('b', 2);
+            map.put('c', 3);
+            map.get('a');
+            map.put('b', 4);
+
+            expect(map.keySet()).to.eql(['c', 'a', 'b']);
+        });
+
+        it('it should not count containsKey as an access', () => {
+            const map = LinkedHashMap.empty<string, number>({ accessOrder: true });
+            map.put('a', 1);
+            map.put('b', 2);
+            map.containsKey('a');
+
+            expect(map.keySet()).to.eql(['a', 'b']);
+        });
+    });
+
+    describe('removeEldestEntry', () => {
+        it('it should remove the eldest entry when the hook returns true', () => {
+            const evicted: string[] = [];
+            const map = LinkedHashMap.empty<string, number>({
+                removeEldestEntry: (eldest, m) => {
+                    const full = m.size() > 2;
+                    if (full) {
+                        evicted.push(eldest.getKey());
+                    }
+                    return full;
+                },
+            });
+            map.put('a', 1);
+            map.put('b', 2);
+            map.put('c', 3);
+            map.put('c', 4);
+
+            expect(map.keySet()).to.eql(['b', 'c']);
+            expect(evicted).to.eql(['a']);
+        });
+    });
+
+    describe('lru', () => {
+        it('it should evict the least recently accessed entry', () => {
+            const cache = LinkedHashMap.lru<string, number>(2);
+            cache.put('a', 1);
+            cache.put('b', 2);
+            cache.getOptional('a');
+            cache.put('c', 3);
+
+            expect(cache.containsKey('b')).to.be.false;
+            expect(cache.keySet()).to.eql(['a', 'c']);
+        });
+
+        it('it should be usable as a Map', () => {
+            const cache: Map<string, number> = LinkedHashMap.lru<string, number>(10);
+            cache.merge('a', 1, (v1, v2) => v1 + v2);
+            cache.merge('a', 1, (v1, v2) => v1 + v2);
+
+            expect(cache.get('a')).to.equal(2);
+        });
+    });
+
+    describe('hashing options', () => {
+        it('it should keep keys with colliding hashes apart', () => {
+            const map = LinkedHashMap.empty<string, number>({ hash: () => 0 });
+            map.put('a', 1);
+            map.put('b', 2);
+            map.remove('a');
+
+            expect(map.keySet()).to.eql(['b']);
+            expect(map.get('b')).to.equal(2);
+        });
+    });
+});
@@ -1,5 +1,6 @@
-import { Map } from "../map";
-import { Errors } from "../errors";
+import { Map, Entry, TreeMap, IdentityHashMap } from "../map";
+import { Set, TreeSet } from "../set";
+import { Errors, NullPointerException } from "../errors";
 import { BiPredicate, BiConsumer } from "../functions";
 import { use, spy, expect } from "chai";
 import * as spies from "chai-spies";
@@ -126,6 +127,7 @@ describe('Map tests', () => {
             const map: Map<any, string> = Map.empty();
 
             expect(() => map.put(key, val)).to.throw(Errors.NullPointerException);
+            expect(() => map.put(key, val)).to.throw(NullPointerException);
         });
 
         it('throw error if key is undefined', () => {
@@ -395,6 +397,14 @@ describe('Map tests', () => {
 
             expect(result.length).to.be.eq(0);
         });
+
+        it('returns the keys in the set created by the set factory', () => {
+            const map = Map.of(3, "3", 1, "1", 2, "2");
+            const result: Set<number> = map.keySet(() => TreeSet.empty<number>());
+
+            expect(result.toArray()).to.eql([1, 2, 3]);
+            expect(result.contains(2)).to.be.true;
+        });
     });
 
     describe('values', () => {
@@ -529,6 +539,24 @@ describe('Map tests', () => {
         });
     });
 
+    describe('size', () => {
+        it('returns the number of entries as keys are put, removed and cleared', () => {
+            [Map.empty<number, number>(), TreeMap.empty<number, number>(), IdentityHashMap.empty<number, number>()].forEach(map => {
+                map.put(1, 1);
+                map.put(2, 2);
+                map.put(1, 3);
+                expect(map.size()).to.equal(2);
+
+                map.remove(1);
+                map.remove(1);
+                expect(map.size()).to.equal(1);
+
+                map.clear();
+                expect(map.size()).to.equal(0);
+            });
+        });
+    });
+
     describe('remove', () => {
         it('removes the given key from the map, if it existed', () => {
             const key = 1;
@@ -555,6 +583,239 @@ describe('Map tests', () => {
 
             expect(result).to.be.null;
         });
+
+        it('removes the key only if it is mapped to the value when given a value', () => {
+            const map = Map.of(1, 'a');
+
+            expect(map.remove(1, 'b')).to.be.false;
+            expect(map.remove(2, 'a')).to.be.false;
+            expect(map.containsKey(1)).to.be.true;
+            expect(map.remove(1, 'a')).to.be.true;
+            expect(map.containsKey(1)).to.be.false;
+        });
     });
-});
 
+    describe('compute', () => {
+        it('sets the value to the result of the remapping function', () => {
+            const map = Map.of('a', 1);
+
+            expect(map.compute('a', (key, value) => value === null ? 0 : value + 1)).to.be.eq(2);
+            expect(map.compute('b', (key, value) => value === null ? 0 : value + 1)).to.be.eq(0);
+            expect(map.get('a')).to.be.eq(2);
+            expect(map.get('b')).to.be.eq(0);
+        });
+
+        it('removes the key when the remapping function returns null', () => {
+            const map = Map.of('a', 1);
+
+            expect(map.compute('a', () => null)).to.be.null;
+            expect(map.containsKey('a')).to.be.false;
+        });
+    });
+
+    describe('computeIfAbsent', () => {
+        it('sets the value of a missing key and returns it', () => {
+            const map = Map.empty<string, number[]>();
+            map.computeIfAbsent('a', () => []).push(1);
+            map.computeIfAbsent('a', () => []).push(2);
+
+            expect(map.get('a')).to.eql([1, 2]);
+        });
+
+        it('does not call the mapping function when the key has a value', () => {
+            const map = Map.of('a', 1);
+            const mapper = spy(() => 2);
+
+            expect(map.computeIfAbsent('a', mapper)).to.be.eq(1);
+            expect(mapper).to.not.have.been.called();
+        });
+
+        it('does not add the key when the mapping function returns null', () => {
+            const map = Map.empty<string, number>();
+
+            expect(map.computeIfAbsent('a', () => null)).to.be.null;
+            expect(map.containsKey('a')).to.be.false;
+        });
+    });
+
+    describe('computeIfPresent', () => {
+        it('remaps the value of a present key', () => {
+            const map = Map.of('a', 1);
+
+            expect(map.computeIfPresent('a', (key, value) => value * 10)).to.be.eq(10);
+            expect(map.get('a')).to.be.eq(10);
+        });
+
+        it('does nothing for a missing key', () => {
+            const map = Map.empty<string, number>();
+
+            expect(map.computeIfPresent('a', (key, value) => value * 10)).to.be.null;
+            expect(map.containsKey('a')).to.be.false;
+        });
+
+        it('removes the key when the remapping function returns null', () => {
+            const map = Map.of('a', 1);
+
+            expect(map.computeIfPresent('a', () => null)).to.be.null;
+            expect(map.containsKey('a')).to.be.false;
+        });
+    });
+
+    describe('replace', () => {
+        it('replaces the value only if the key is present', () => {
+            const map = Map.of('a', 1);
+
+            expect(map.replace('a', 2)).to.be.eq(1);
+            expect(map.replace('b', 2)).to.be.null;
+            expect(map.get('a')).to.be.eq(2);
+            expect(map.containsKey('b')).to.be.false;
+        });
+
+        it('replaces the value only if it is mapped to the old value', () => {
+            const map = Map.of('a', 1);
+
+            expect(map.replace('a', 5, 2)).to.be.false;
+            expect(map.get('a')).to.be.eq(1);
+            expect(map.replace('a', 1, 2)).to.be.true;
+            expect(map.get('a')).to.be.eq(2);
+        });
+    });
+
+    describe('replaceAll', () => {
+        it('replaces every value with the result of the function', () => {
+            const map = Map.of('a', 1, 'b', 2);
+            map.replaceAll((key, value) => key.length + value * 10);
+
+            expect(map.get('a')).to.be.eq(11);
+            expect(map.get('b')).to.be.eq(21);
+        });
+    });
+
+    describe('equals', () => {
+        it('returns true for maps with the same keys and values', () => {
+            expect(Map.of('a', testObj('x', 1), 'b', testObj('y', 2)).equals(Map.of('b', testObj('y', 2), 'a', testObj('x', 1)))).to.be.true;
+            expect(Map.of('a', 1).equals(TreeMap.copyOf(Map.of('a', 1)))).to.be.true;
+        });
+
+        it('returns false for maps with different keys or values', () => {
+            expect(Map.of('a', 1).equals(Map.of('a', 2))).to.be.false;
+            expect(Map.of('a', 1).equals(Map.of('b', 1))).to.be.false;
+            expect(Map.of('a', 1).equals(Map.of('a', 1, 'b', 2))).to.be.false;
+        });
+
+        it('returns false for maps whose values have colliding hashes', () => {
+            expect(Map.of('a', 'Aa').equals(Map.of('a', 'BB'))).to.be.false;
+        });
+    });
+
+    describe('hashCode', () => {
+        it('returns the same hash code for equal maps', () => {
+            const first = Map.of('a', 1, 'b', 2);
+            const second = Map.of('b', 2, 'a', 1);
+
+            expect(first.hashCode()).to.be.eq(second.hashCode());
+            expect(first.hashCode()).to.not.be.eq(Map.of('a', 1).hashCode());
+            expect(Map.empty().hashCode()).to.be.eq(0);
+        });
+    });
+
+    describe('toString', () => {
+        it('writes every entry of the map', () => {
+            const map = TreeMap.copyOf(Map.of<string, any>('a', 1, 'b', testObj('x', 2)));
+
+            expect(map.toString()).to.be.eq('{a=1, b={"a":"x","b":{"x":2}}}');
+            expect(`${Map.empty()}`).to.be.eq('{}');
+        });
+    });
+
+    describe('Entry', () => {
+        it('equals should compare keys and values', () => {
+            expect(Entry.of('a', testObj('x', 1)).equals(Entry.of('a', testObj('x', 1)))).to.be.true;
+            expect(Entry.of('a', 1).equals(Entry.of('a', 2))).to.be.false;
+        });
+
+        it('equals should tell apart keys and values with colliding hashes', () => {
+            expect(Entry.of('Aa', 1).equals(Entry.of('BB', 1))).to.be.false;
+            expect(Entry.of(1, 'Aa').equals(Entry.of(1, 'BB'))).to.be.false;
+        });
+
+        it('hashCode should be the same for equal entries', () => {
+            expect(Entry.of('a', 1).hashCode()).to.be.eq(Entry.of('a', 1).hashCode());
+        });
+
+        it('toString should write the key and value', () => {
+            expect(Entry.of('a', [1, 2]).toString()).to.be.eq('a=[1,2]');
+        });
+    });
+
+    describe('hashing options', () => {
+        it('keeps different keys with colliding hashes apart', () => {
+            const map = Map.empty<string, number>({ hash: () => 0 });
+            map.put('a', 1);
+            map.put('b', 2);
+
+            expect(map.get('a')).to.be.eq(1);
+            expect(map.get('b')).to.be.eq(2);
+            expect(map.remove('a')).to.be.eq(1);
+            expect(map.get('b')).to.be.eq(2);
+            expect(map.keySet()).to.eql(['b']);
+        });
+
+        it('uses the equality function to find keys', () => {
+            const map = Map.empty<string, number>({
+                hash: key => key.toLowerCase(),
+                equals: (k1, k2) => k1.toLowerCase() === k2.toLowerCase(),
+            });
+            map.put('Key', 1);
+
+            expect(map.put('KEY', 2)).to.be.eq(1);
+            expect(map.get('key')).to.be.eq(2);
+            expect(map.keySet()).to.eql(['Key']);
+        });
+
+        it('compares keys structurally by default', () => {
+            const map = Map.empty<object, number>({ hash: () => 'same' });
+            map.put(testObj('a', 1), 1);
+            map.put(testObj('a', 2), 2);
+            map.put(testObj('a', 1), 3);
+
+            expect(map.keySet().length).to.be.eq(2);
+            expect(map.get(testObj('a', 1))).to.be.eq(3);
+        });
+
+        it('hashes the key once when it is removed', () => {
+            let hashed = 0;
+            const map = Map.empty<string, number>({ hash: key => { hashed++; return key; } });
+            map.put('a', 1);
+            hashed = 0;
+
+            expect(map.remove('a')).to.be.eq(1);
+            expect(hashed).to.be.eq(1);
+        });
+    });
+
+    describe('IdentityHashMap', () => {
+        it('compares keys by identity', () => {
+            const key = testObj('a', 1);
+            const map = IdentityHashMap.empty<object, number>();
+            map.put(key, 1);
+            map.put(testObj('a', 1), 2);
+
+            expect(map.get(key)).to.be.eq(1);
+            expect(map.keySet().length).to.be.eq(2);
+            expect(map.get(testObj('a', 1))).to.be.null;
+        });
+
+        it('supports the Map operations', () => {
+            const map = IdentityHashMap.empty<string, number>();
+            map.put('a', 1);
+            map.merge('a', 2, (v1, v2) => v1 + v2);
+            map.computeIfAbsent('b', () => 5);
+
+            expect(map.remove('a')).to.be.eq(3);
+            expect(map.containsKey('a')).to.be.false;
+            expect(map.entrySet().map(e => e.toString())).to.eql(['b=5']);
+            expect(() => map.put(<any>null, 1)).to.throw(Errors.NullPointerException);
+        });
+    });
+});
@@ -0,0 +1,130 @@
+import { MultiMap } from "../map";
+import { Errors } from "../errors";
+import { expect } from "chai";
+
+describe('MultiMap tests', () => {
+    describe('put and get', () => {
+        it('it should collect every value of a key', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            expect(multiMap.put('a', 1)).to.be.true;
+            expect(multiMap.put('a', 1)).to.be.true;
+            multiMap.put('b', 2);
+
+            expect(multiMap.get('a')).to.eql([1, 1]);
+            expect(multiMap.get('b')).to.eql([2]);
+            expect(multiMap.get('c')).to.eql([]);
+        });
+
+        it('it should return a copy of the values', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            multiMap.put('a', 1);
+            multiMap.get('a').push(2);
+
+            expect(multiMap.get('a')).to.eql([1]);
+        });
+
+        it('it should drop duplicate values of a key when set backed', () => {
+            const multiMap = MultiMap.setBacked<string, number>();
+            expect(multiMap.put('a', 1)).to.be.true;
+            expect(multiMap.put('a', 1)).to.be.false;
+
+            expect(multiMap.get('a')).to.eql([1]);
+            expect(multiMap.size()).to.equal(1);
+        });
+
+        it('it should throw NullPointerException for a null key', () => {
+            const multiMap = MultiMap.listBacked<any, number>();
+
+            expect(() => multiMap.put(null, 1)).to.throw(Errors.NullPointerException);
+        });
+    });
+
+    describe('putAll', () => {
+        it('it should add all the values to the key', () => {
+            const multiMap = MultiMap.setBacked<string, number>();
+
+            expect(multiMap.putAll('a', [1, 2, 1])).to.be.true;
+            expect(multiMap.putAll('a', [2])).to.be.false;
+            expect(multiMap.get('a')).to.have.members([1, 2]);
+        });
+    });
+
+    describe('remove', () => {
+        it('it should remove a single value and drop keys without values', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            multiMap.putAll('a', [1, 2, 1]);
+
+            expect(multiMap.remove('a', 1)).to.be.true;
+            expect(multiMap.get('a')).to.eql([2, 1]);
+            expect(multiMap.remove('a', 3)).to.be.false;
+            multiMap.remove('a', 2);
+            multiMap.remove('a', 1);
+
+            expect(multiMap.containsKey('a')).to.be.false;
+            expect(multiMap.isEmpty()).to.be.true;
+        });
+    });
+
+    describe('removeAll', () => {
+        it('it should remove the key and return its values', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            multiMap.putAll('a', [1, 2]);
+
+            expect(multiMap.removeAll('a')).to.eql([1, 2]);
+            expect(multiMap.removeAll('a')).to.eql([]);
+            expect(multiMap.containsKey('a')).to.be.false;
+        });
+    });
+
+    describe('containsEntry', () => {
+        it('it should return true only for key value pairs in the multimap', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            multiMap.put('a', 1);
+
+            expect(multiMap.containsEntry('a', 1)).to.be.true;
+            expect(multiMap.containsEntry('a', 2)).to.be.false;
+            expect(multiMap.containsEntry('b', 1)).to.be.false;
+        });
+    });
+
+    describe('keys, values and entries', () => {
+        it('it should return keys in insertion order and flatten the values', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            multiMap.put('b', 1);
+            multiMap.put('a', 2);
+            multiMap.put('b', 3);
+
+            expect(multiMap.keys()).to.eql(['b', 'a']);
+            expect(multiMap.values()).to.eql([1, 3, 2]);
+            expect(multiMap.entries().map(e => `${e.getKey()}${e.getValue()}`)).to.eql(['b1', 'b3', 'a2']);
+            expect(multiMap.entryStream().count()).to.equal(3);
+            expect(multiMap.size()).to.equal(3);
+        });
+    });
+
+    describe('asMap', () => {
+        it('it should return a map of each key to its values', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            multiMap.putAll('a', [1, 2]);
+            multiMap.put('b', 3);
+            const map = multiMap.asMap();
+            map.remove('a');
+
+            expect(map.get('b')).to.eql([3]);
+            expect(multiMap.get('a')).to.eql([1, 2]);
+        });
+    });
+
+    describe('forEach and clear', () => {
+        it('it should visit every key value pair', () => {
+            const multiMap = MultiMap.listBacked<string, number>();
+            multiMap.putAll('a', [1, 2]);
+            const visited: string[] = [];
+            multiMap.forEach((key, value) => visited.push(`${key}${value}`));
+            multiMap.clear();
+
+            expect(visited).to.eql(['a1', 'a2']);
+            expect(multiMap.isEmpty()).to.be.true;
+        });
+    });
+});
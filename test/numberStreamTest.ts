@@ -0,0 +1,110 @@
+import Stream, { NumberStream } from '../stream';
+import { expect } from "chai";
+import { IllegalStateException } from '../errors';
+
+describe('NumberStream tests', () => {
+
+    describe('creation', () => {
+        it('range should return a NumberStream', () => {
+            const stream: NumberStream = Stream.range(0, 5);
+
+            expect(stream.sum()).to.equal(10);
+        });
+
+        it('rangeClosed should return a NumberStream', () => {
+            const stream: NumberStream = Stream.rangeClosed(0, 5);
+
+            expect(stream.sum()).to.equal(15);
+        });
+
+        it('mapToNumber should return a NumberStream of the mapped values', () => {
+            const stream: NumberStream = Stream.ofValues('a', 'bb', 'ccc').mapToNumber(s => s.length);
+
+            expect(stream.sum()).to.equal(6);
+        });
+    });
+
+    describe('sum', () => {
+        it('should return 0 for an empty stream', () => {
+            expect(Stream.range(0, 0).sum()).to.equal(0);
+        });
+    });
+
+    describe('average', () => {
+        it('should return the arithmetic mean of the values', () => {
+            const average = Stream.rangeClosed(1, 4).average();
+
+            expect(average.get()).to.equal(2.5);
+        });
+
+        it('should return empty for an empty stream', () => {
+            expect(Stream.range(0, 0).average().isPresent()).to.be.false;
+        });
+    });
+
+    describe('reuse', () => {
+        it('it should throw an IllegalStateException on a second terminal operation', () => {
+            const stream = Stream.range(0, 5);
+            stream.sum();
+
+            expect(() => stream.average()).to.throw(IllegalStateException);
+        });
+
+        it('it should throw an IllegalStateException when consuming a stream after asStream', () => {
+            const stream = Stream.range(0, 5);
+            stream.asStream();
+
+            expect(() => stream.sum()).to.throw(IllegalStateException);
+        });
+    });
+
+    describe('summaryStatistics', () => {
+        it('should describe the values in the stream', () => {
+            const statistics = Stream.ofValues(3, 1, 2).mapToNumber(n => n * 2).summaryStatistics();
+
+            expect(statistics.getCount()).to.equal(3);
+            expect(statistics.getSum()).to.equal(12);
+            expect(statistics.getMin()).to.equal(2);
+            expect(statistics.getMax()).to.equal(6);
+            expect(statistics.getAverage()).to.equal(4);
+        });
+    });
+
+    describe('intermediate operations', () => {
+        it('should stay a NumberStream through type preserving operations', () => {
+            const peeked: number[] = [];
+            const stream: NumberStream = Stream.iterate(5, n => n - 1).mapToNumber(n => n)
+                .limit(8)
+                .filter(n => n !== 0)
+                .peek(n => peeked.push(n))
+                .distinct()
+                .sorted()
+                .skip(1);
+
+            expect(stream.sum()).to.equal(14);
+            expect(peeked.length).to.equal(7);
+        });
+
+        it('should stay a NumberStream through takeWhile and dropWhile', () => {
+            const stream: NumberStream = Stream.range(0, 10)
+                .takeWhile(n => n < 6)
+                .dropWhile(n => n < 2)
+                .skipWhile(n => n < 3);
+
+            expect(stream.sum()).to.equal(12);
+        });
+
+        it('map should return a regular Stream', () => {
+            const result: string[] = Stream.range(0, 3).map(n => `${n}`).toArray();
+
+            expect(result).to.eql(['0', '1', '2']);
+        });
+    });
+
+    describe('boxed and asStream', () => {
+        it('should return a Stream of the same values', () => {
+            expect(Stream.range(0, 3).boxed().toArray()).to.eql([0, 1, 2]);
+            expect(Stream.range(0, 3).asStream().toArray()).to.eql([0, 1, 2]);
+        });
+    });
+});
@@ -1,7 +1,8 @@
 import Optional from "../optional";
 import { expect } from "chai";
-import Errors from "../errors";
-import { Predicate, Consumer, Function } from "../functions";
+import Errors, { NoSuchElementException, NullPointerException } from "../errors";
+import { Predicate, Consumer, Function, BiPredicate } from "../functions";
+import Stream from "../stream";
 
 describe('Optional tests', () => {
     describe('Optional.of()', () => {
@@ -16,6 +17,10 @@ describe('Optional tests', () => {
             expect(() => Optional.of(null)).to.throw(Errors.NullPointerException);
         });
 
+        it('should throw a NullPointerException instance if passed null', () => {
+            expect(() => Optional.of(null)).to.throw(NullPointerException);
+        });
+
         it('should throw "NullPointerException" if passed undefined', () => {
             expect(() => Optional.of(undefined)).to.throw(Errors.NullPointerException);
         });
@@ -93,6 +98,7 @@ describe('Optional tests', () => {
         it('should thow "NoSuchElementException" if empty', () => {
             const o = Optional.empty();
             expect(o.get).to.throw(Errors.NoSuchElementException);
+            expect(o.get).to.throw(NoSuchElementException);
         });
     })
 
@@ -290,4 +296,134 @@ describe('Optional tests', () => {
         });
     });
 
+    describe('isEmpty()', () => {
+        it('should return true for an empty optional', () => {
+            expect(Optional.empty().isEmpty()).to.equal(true);
+        });
+
+        it('should return false for a non-empty optional', () => {
+            expect(Optional.of(0).isEmpty()).to.equal(false);
+        });
+    });
+
+    describe('ifPresentOrElse(consumer: Consumer<T>, emptyAction: Runnable)', () => {
+        it('should invoke the consumer and not the empty action if value present', () => {
+            let consumed: string | null = null;
+            let emptyActionRun = false;
+            Optional.of('value').ifPresentOrElse(v => consumed = v, () => emptyActionRun = true);
+            expect(consumed).to.equal('value');
+            expect(emptyActionRun).to.equal(false);
+        });
+
+        it('should invoke the empty action and not the consumer if value not present', () => {
+            let consumerRun = false;
+            let emptyActionRun = false;
+            Optional.empty().ifPresentOrElse(v => consumerRun = true, () => emptyActionRun = true);
+            expect(consumerRun).to.equal(false);
+            expect(emptyActionRun).to.equal(true);
+        });
+    });
+
+    describe('or(supplier: Supplier<Optional<T>>)', () => {
+        it('should return this optional if value present, without invoking the supplier', () => {
+            let activated = false;
+            const optional = Optional.of('value');
+            const result = optional.or(() => { activated = true; return Optional.of('other'); });
+            expect(result).to.equal(optional);
+            expect(activated).to.equal(false);
+        });
+
+        it('should return the optional from the supplier if value not present', () => {
+            expect(Optional.empty<string>().or(() => Optional.of('other')).get()).to.equal('other');
+            expect(Optional.empty<string>().or(() => Optional.empty()).isPresent()).to.equal(false);
+        });
+    });
+
+    describe('stream()', () => {
+        it('should return a stream of the value if present', () => {
+            expect(Optional.of('value').stream().toArray()).to.eql(['value']);
+        });
+
+        it('should return an empty stream if value not present', () => {
+            expect(Optional.empty().stream().count()).to.equal(0);
+        });
+
+        it('should allow flattening a stream of optionals', () => {
+            const result = Stream.ofValues(Optional.of(1), Optional.empty<number>(), Optional.of(3))
+                .flatMap(optional => optional.stream())
+                .toArray();
+            expect(result).to.eql([1, 3]);
+        });
+    });
+
+    describe('orElseThrow()', () => {
+        it('should return value if present', () => {
+            expect(Optional.of('value').orElseThrow()).to.equal('value');
+        });
+
+        it('should throw "NoSuchElementException" if value not present', () => {
+            expect(() => Optional.empty().orElseThrow()).to.throw(Errors.NoSuchElementException);
+            expect(() => Optional.empty().orElseThrow()).to.throw(NoSuchElementException);
+        });
+    });
+
+    describe('zip(other: Optional<U>)', () => {
+        it('should return an optional of both values if both present', () => {
+            expect(Optional.of('a').zip(Optional.of(1)).get()).to.eql(['a', 1]);
+        });
+
+        it('should return an empty optional if either value not present', () => {
+            expect(Optional.of('a').zip(Optional.empty()).isPresent()).to.equal(false);
+            expect(Optional.empty().zip(Optional.of(1)).isPresent()).to.equal(false);
+        });
+    });
+
+    describe('combine(other: Optional<U>, combiner: Combiner<T, U, R>)', () => {
+        it('should return an optional of the combined values if both present', () => {
+            expect(Optional.of('a').combine(Optional.of(2), (s, n) => s.repeat(n)).get()).to.equal('aa');
+        });
+
+        it('should return an empty optional if either value not present, without invoking the combiner', () => {
+            let activated = false;
+            const combiner = (s: string, n: number) => { activated = true; return s; };
+            expect(Optional.of('a').combine(Optional.empty<number>(), combiner).isPresent()).to.equal(false);
+            expect(Optional.empty<string>().combine(Optional.of(1), combiner).isPresent()).to.equal(false);
+            expect(activated).to.equal(false);
+        });
+
+        it('should return an empty optional if the combiner returns null', () => {
+            expect(Optional.of('a').combine(Optional.of(1), (s, n) => null).isPresent()).to.equal(false);
+        });
+    });
+
+    describe('equals(other: Optional<T>, equalityTest?: BiPredicate<T, T>)', () => {
+        it('should return true if both optionals are empty', () => {
+            expect(Optional.empty().equals(Optional.empty())).to.equal(true);
+        });
+
+        it('should return false if only one optional is empty', () => {
+            expect(Optional.of(1).equals(Optional.empty())).to.equal(false);
+            expect(Optional.empty<number>().equals(Optional.of(1))).to.equal(false);
+        });
+
+        it('should compare the values with === by default', () => {
+            expect(Optional.of(1).equals(Optional.of(1))).to.equal(true);
+            expect(Optional.of(1).equals(Optional.of(2))).to.equal(false);
+            expect(Optional.of({ a: 1 }).equals(Optional.of({ a: 1 }))).to.equal(false);
+        });
+
+        it('should compare the values with the equality test if given', () => {
+            expect(Optional.of({ a: 1 }).equals(Optional.of({ a: 1 }), BiPredicate.hashEquality())).to.equal(true);
+        });
+    });
+
+    describe('toString()', () => {
+        it('should describe the value if present', () => {
+            expect(Optional.of(1).toString()).to.equal('Optional[1]');
+        });
+
+        it('should describe an empty optional', () => {
+            expect(Optional.empty().toString()).to.equal('Optional.empty');
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,248 @@
+import Stream, { NumberStream } from '../stream';
+import Collectors from '../collectors';
+import { expect } from "chai";
+import { IllegalStateException, IllegalArgumentException } from '../errors';
+
+describe('parallel Stream tests', () => {
+
+    describe('parallel', () => {
+        it('should make the stream parallel', () => {
+            const stream = Stream.of([1, 2, 3]);
+
+            expect(stream.isParallel()).to.be.false;
+            expect(stream.parallel().isParallel()).to.be.true;
+        });
+
+        it('should make the rest of the pipeline parallel', () => {
+            const stream = Stream.of([1, 2, 3])
+                .parallel()
+                .map(i => i + 1);
+
+            expect(stream.isParallel()).to.be.true;
+        });
+
+        it('should map and filter array backed streams, keeping the order of the elements', () => {
+            const result = Stream.of([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+                .parallel(3)
+                .map(i => i * 2)
+                .filter(i => i % 3 !== 0)
+                .toArray();
+
+            expect(result).to.eql([2, 4, 8, 10, 14, 16, 20]);
+        });
+
+        it('should process range backed streams', () => {
+            const result = Stream.range(0, 100)
+                .parallel(4)
+                .map(i => i * i)
+                .collect(Collectors.summingNumber());
+
+            expect(result).to.equal(328350);
+        });
+
+        it('should flatMapList and drop null values the same as a sequential stream', () => {
+            const result = Stream.ofValues<number | null>(1, null, 3)
+                .parallel(2)
+                .flatMapList(i => [i, null])
+                .map(i => i === 3 ? undefined : i)
+                .toArray();
+
+            expect(result).to.eql([1]);
+        });
+
+        it('should merge the results of each chunk with the collectors combiner', () => {
+            const result = Stream.of(["cat", "dog", "ant", "car", "cut", "dot"])
+                .parallel(3)
+                .map(word => word.toUpperCase())
+                .collect(Collectors.groupingBy(word => word.charAt(0)));
+
+            expect(result.get("C")).to.eql(["CAT", "CAR", "CUT"]);
+            expect(result.get("D")).to.eql(["DOG", "DOT"]);
+            expect(result.get("A")).to.eql(["ANT"]);
+        });
+
+        it('should run stateful operations sequentially after the parallel operations', () => {
+            const result = Stream.of([5, 3, 1, 4, 2])
+                .parallel(2)
+                .map(i => i * 10)
+                .sorted()
+                .limit(3)
+                .map(i => i + 1)
+                .toArray();
+
+            expect(result).to.eql([11, 21, 31]);
+        });
+
+        it('should fall back to sequential processing for sources that can not be split', () => {
+            const offset = 1;
+            const result = Stream.iterate(1, i => i + offset)
+                .parallel()
+                .limit(3)
+                .toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('should return the collectors empty result for an empty stream', () => {
+            const result = Stream.empty<number>()
+                .parallel(2)
+                .map(i => i + 1)
+                .toArray();
+
+            expect(result).to.eql([]);
+        });
+
+        it('should rethrow errors thrown in the worker', () => {
+            const action = () => Stream.of([1, 2])
+                .parallel(2)
+                .map(i => { throw new Error(`failed on ${i}`); })
+                .toArray();
+
+            expect(action).to.throw("failed on");
+        });
+
+        it('should rethrow worker errors as an IllegalStateException keeping the original error as the cause', () => {
+            let caught: any;
+            try {
+                Stream.of([1, 2])
+                    .parallel(2)
+                    .map(i => { throw new RangeError(`bad ${i}`); })
+                    .toArray();
+            } catch (e) {
+                caught = e;
+            }
+
+            expect(caught).to.be.instanceOf(IllegalStateException);
+            expect(caught.cause).to.be.instanceOf(RangeError);
+            expect(caught.cause.message).to.match(/^bad/);
+            expect(caught.cause.stack).to.contain('bad');
+        });
+
+        it('should process the values sequentially when a function refers to variables outside of itself', () => {
+            const offset = 10;
+            const result = Stream.of([1, 2, 3])
+                .parallel(2)
+                .map(i => i + offset)
+                .toArray();
+
+            expect(result).to.eql([11, 12, 13]);
+        });
+
+        it('should run the operations on worker threads', () => {
+            (<any>global).parallelStreamTestThread = 'main';
+            try {
+                const result = Stream.of([1, 2, 3])
+                    .parallel(2)
+                    .map(i => (<any>global).parallelStreamTestThread === undefined ? 'worker' : 'main')
+                    .toArray();
+
+                expect(result).to.eql(['worker', 'worker', 'worker']);
+            } finally {
+                delete (<any>global).parallelStreamTestThread;
+            }
+        });
+
+        it('should process the values sequentially when a value loses its prototype in the worker', () => {
+            class Point {
+                constructor(public x: number) { }
+                double(): number { return this.x * 2; }
+            }
+            const result = Stream.of([new Point(1), new Point(2), new Point(3)])
+                .parallel(2)
+                .map(point => point.double())
+                .toArray();
+
+            expect(result).to.eql([2, 4, 6]);
+        });
+
+        it('should process the values sequentially when a value can not be copied to a worker', () => {
+            const result = Stream.of([() => 1, () => 2])
+                .parallel(2)
+                .map(Function => Function())
+                .toArray();
+
+            expect(result).to.eql([1, 2]);
+        });
+
+        it('should process the values sequentially when a result can not be copied from a worker', () => {
+            const result = Stream.of([1, 2])
+                .parallel(2)
+                .map(i => () => i)
+                .toArray();
+
+            expect(result.map(Function => Function())).to.eql([1, 2]);
+        });
+
+        it('should rethrow a TypeError as it was thrown when the sequential fallback throws it too', () => {
+            const action = () => Stream.of([1, 2])
+                .parallel(2)
+                .map(i => { throw new TypeError(`bad ${i}`); })
+                .toArray();
+
+            expect(action).to.throw(TypeError, 'bad 1');
+        });
+
+        it('should throw instead of waiting forever when a worker exits without a result', () => {
+            const action = () => Stream.of([1, 2])
+                .parallel(2)
+                .map(i => process.exit(0))
+                .toArray();
+
+            expect(action).to.throw(IllegalStateException, 'worker exited without a result');
+        });
+
+        it('should stop the workers and throw once the timeout has passed', () => {
+            const action = () => Stream.of([1, 2])
+                .parallel(2, 50)
+                .map(i => {
+                    const end = Date.now() + 2000;
+                    while (Date.now() < end) { }
+                    return i;
+                })
+                .toArray();
+
+            expect(action).to.throw(IllegalStateException, 'did not finish within 50ms');
+        });
+
+        it('should throw an IllegalArgumentException for a timeout that is not positive', () => {
+            [0, -1, NaN].forEach(timeout =>
+                expect(() => Stream.of([1, 2]).parallel(2, timeout)).to.throw(IllegalArgumentException)
+            );
+        });
+
+        it('should run mapTry on the calling thread', () => {
+            const results = Stream.of([1, 2, 3])
+                .parallel(2)
+                .mapTry(i => { if (i === 2) { throw new Error('two'); } return i * 10; })
+                .toArray();
+
+            expect(results.map(result => result.isSuccess())).to.eql([true, false, true]);
+            expect(results[2].get()).to.equal(30);
+        });
+
+        it('should return a NumberStream from a NumberStream', () => {
+            const stream: NumberStream = Stream.range(1, 5).parallel(2);
+
+            expect(stream.sum()).to.equal(10);
+        });
+    });
+
+    describe('sequential', () => {
+        it('should make a parallel stream sequential', () => {
+            const stream = Stream.of([1, 2, 3]).parallel();
+
+            expect(stream.sequential().isParallel()).to.be.false;
+        });
+
+        it('should run closures that can not be run in parallel', () => {
+            const factor = 2;
+            const result = Stream.of([1, 2, 3])
+                .parallel()
+                .map(i => i * factor)
+                .sequential()
+                .toArray();
+
+            expect(result).to.eql([2, 4, 6]);
+        });
+    });
+});
@@ -3,10 +3,56 @@ import {use, spy, expect} from "chai";
 import * as spies from "chai-spies";
 import { Function, Comparator } from "../functions";
 import { Processor } from "../processor";
-import { ProcessorNode } from "../processorPipeline";
+import { ProcessorNode, ProcessorPipeline } from "../processorPipeline";
+import { StreamProcessingError, IllegalStateException } from "../errors";
+import { Source } from "../source";
+import Optional from "../optional";
 use(spies);
 
 describe('ProcessorPipeline tests', () => {
+    describe('addProcessor', () => {
+        it('should throw an IllegalStateException when the pipeline has already been extended', () => {
+            const pipeline = ProcessorPipeline.create(Source.arraySource([1, 2, 3]));
+            pipeline.addProcessor(Processor.mapProcessor((n: number) => n * 2));
+
+            expect(() => pipeline.addProcessor(Processor.mapProcessor((n: number) => n * 3))).to.throw(IllegalStateException);
+        });
+    });
+
+    describe('close', () => {
+        it('should run the close handlers of every pipeline built from the source once, in order', () => {
+            const closed: string[] = [];
+            const pipeline = ProcessorPipeline.create(Source.arraySource([1, 2, 3]));
+            pipeline.onClose(() => closed.push('first'));
+            const extended = pipeline.addProcessor(Processor.mapProcessor((n: number) => n * 2));
+            extended.onClose(() => closed.push('second'));
+            extended.close();
+            pipeline.close();
+
+            expect(closed).to.eql(['first', 'second']);
+        });
+
+        it('should run every handler before rethrowing the first error', () => {
+            const error = new Error('close failed');
+            const closed: string[] = [];
+            const pipeline = ProcessorPipeline.create(Source.arraySource([1]));
+            pipeline.onClose(() => { throw error; });
+            pipeline.onClose(() => { throw new Error('second failure'); });
+            pipeline.onClose(() => closed.push('last'));
+
+            expect(() => pipeline.close()).to.throw(error);
+            expect(closed).to.eql(['last']);
+        });
+
+        it('should close a CloseableSource', () => {
+            let closed = false;
+            const source = Object.assign(Source.arraySource([1]), { close: () => closed = true });
+            ProcessorPipeline.create(source).close();
+
+            expect(closed).to.equal(true);
+        });
+    });
+
     describe('ProcessorNode tests', () => {
         it('should create new node with empty previous and next', () => {
             const processor: Processor<string, string> = Processor.mapProcessor(Function.identity());
@@ -139,5 +185,63 @@ describe('ProcessorPipeline tests', () => {
 
             expect(statelessGetSpy).to.have.been.called();
         });
+
+        it('getProcessedValue wraps an error of the processor in a StreamProcessingError describing the stage and element', () => {
+            const cause = new Error('boom');
+            const processorNode = new ProcessorNode<string, string>(Processor.mapProcessor<string, string>(() => { throw cause; }), 3);
+            processorNode.addPreviousNode(new ProcessorNode(Processor.mapProcessor(Function.identity<string>())));
+            processorNode.addInput('value');
+
+            try {
+                processorNode.getProcessedValue();
+                expect.fail();
+            } catch (error) {
+                expect(error).to.be.instanceOf(StreamProcessingError);
+                expect(error.cause).to.equal(cause);
+                expect(error.stage).to.equal(3);
+                expect(error.stageName).to.equal('map');
+                expect(error.element).to.equal('value');
+                expect(error.message).to.equal('map (stage 3) failed on element value: boom');
+            }
+        });
+
+        it('getProcessedValue does not wrap an error already wrapped by a previous node', () => {
+            const wrapped = new StreamProcessingError(new Error('boom'), 1, 'filter', 'value');
+            const prev = new ProcessorNode<string, string>(Processor.mapProcessor<string, string>(() => { throw wrapped; }), 1);
+            prev.addInput('value');
+            const processorNode = new ProcessorNode(Processor.mapProcessor(Function.identity<string>()), 2);
+            processorNode.addPreviousNode(prev);
+
+            expect(() => processorNode.getProcessedValue()).to.throw(wrapped);
+        });
+
+        it('getProcessedValue gives errors to the error handler and returns its value', () => {
+            const processorNode = new ProcessorNode<string, string>(Processor.mapProcessor<string, string>(() => { throw new Error('boom'); }), 1);
+            processorNode.setErrorHandler(error => Optional.of(error.element + ' recovered'));
+            processorNode.addInput('value');
+
+            expect(processorNode.getProcessedValue().get()).to.equal('value recovered');
+        });
+
+        it('a stateful node has no next value after it fails', () => {
+            const processorNode = new ProcessorNode<number, number>(Processor.sortProcessor<number>(() => { throw new Error('boom'); }), 1);
+            processorNode.setErrorHandler(error => Optional.empty());
+            processorNode.addInput(1);
+            processorNode.addInput(2);
+
+            expect(processorNode.getProcessedValue().isPresent()).to.equal(false);
+            expect(processorNode.hasNext()).to.equal(false);
+        });
+
+        it('stopPulling stops the node from pulling values from the previous node', () => {
+            const prev = new ProcessorNode(Processor.mapProcessor(Function.identity<string>()));
+            prev.addInput('value');
+            const processorNode = new ProcessorNode(Processor.mapProcessor(Function.identity<string>()));
+            processorNode.addPreviousNode(prev);
+            processorNode.stopPulling();
+
+            expect(processorNode.hasNext()).to.equal(false);
+            expect(processorNode.getProcessedValue().isPresent()).to.equal(false);
+        });
     })
 });
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { Predicate, Function, BiPredicate, Consumer, Comparator } from "../functions";
 import Optional from "../optional";
 import { Processor } from "../processor";
+import { isParallelizableProcessor } from "../parallel";
 import { expect } from "chai";
 import Stream from "../stream";
+import { IllegalArgumentException } from "../errors";
 
 
 describe('Processor tests', () => {
@@ -82,6 +84,24 @@ describe('Processor tests', () => {
         });
     });
 
+    describe('MapTryProcessor tests', () => {
+        it('should output a Result of applying the Function to each input', () => {
+            const error = new Error('odd');
+            const processor = Processor.mapTryProcessor((n: number) => { if (n % 2 === 1) { throw error; } return n / 2; });
+            processor.add(4);
+            processor.add(3);
+
+            expect(processor.processAndGetNext().get().get()).to.equal(2);
+            expect(processor.processAndGetNext().get().getError()).to.equal(error);
+        });
+
+        it('should not be parallelizable', () => {
+            const processor = Processor.mapTryProcessor((n: number) => n);
+
+            expect(isParallelizableProcessor(processor)).to.equal(false);
+        });
+    });
+
     describe('FilterProcessor tests', () => {
         it('should be a stateless processor', () => {
             const predicate: Predicate<number> = (n: number) => n < 10;
@@ -332,6 +352,46 @@ describe('Processor tests', () => {
             expect(count).to.be.greaterThan(0);
         });
     });
+    describe('HashDistinctProcessor tests', () => {
+        it('should be a stateless processor', () => {
+            const processor: Processor<number, number> = Processor.hashDistinctProcessor(Function.identity<number>());
+
+            expect(processor.isStateless()).to.equal(true);
+            expect(processor.isShortCircuting()).to.equal(false);
+        });
+
+        it('should only return inputs with keys that have not been seen', () => {
+            const processor: Processor<string, string> = Processor.hashDistinctProcessor((s: string) => s.length);
+            processor.add('a');
+            processor.add('b');
+            processor.add('cc');
+
+            expect(processor.processAndGetNext().get()).to.equal('a');
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+            expect(processor.processAndGetNext().get()).to.equal('cc');
+        });
+
+        it('should compare keys with the same hash structurally by default', () => {
+            const processor: Processor<string, string> = Processor.hashDistinctProcessor(Function.identity<string>());
+            processor.add('Aa');
+            processor.add('BB');
+            processor.add('Aa');
+
+            expect(processor.processAndGetNext().get()).to.equal('Aa');
+            expect(processor.processAndGetNext().get()).to.equal('BB');
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+        });
+
+        it('should use the key equality for keys with the same hash', () => {
+            const processor: Processor<object, object> = Processor.hashDistinctProcessor(Function.identity<object>(), (o1, o2) => o1 === o2);
+            processor.add({});
+            processor.add({});
+
+            expect(processor.processAndGetNext().isPresent()).to.equal(true);
+            expect(processor.processAndGetNext().isPresent()).to.equal(true);
+        });
+    });
+
     describe('StreamFlatMapProcessor tests', () => {
         it('should be a stateless processor', () => {
             const Function: Function<string, Stream<string>> = (s: string) => Stream.of(s.split(''));
@@ -766,6 +826,24 @@ describe('Processor tests', () => {
         });
     });
 
+    describe('ReverseProcessor tests', () => {
+        it('should be a stateful processor', () => {
+            const processor: Processor<number, number> = Processor.reverseProcessor<number>();
+
+            expect(processor.isStateless()).to.equal(false);
+        });
+
+        it('should return the inputs in reverse order', () => {
+            const processor: Processor<number, number> = Processor.reverseProcessor<number>();
+            processor.add(1);
+            processor.add(2);
+
+            expect(processor.processAndGetNext().get()).to.equal(2);
+            expect(processor.processAndGetNext().get()).to.equal(1);
+            expect(processor.hasNext()).to.equal(false);
+        });
+    });
+
     describe('LimitProcessor tests', () => {
         it('should not be a stateless processor', () => {
             const processor: Processor<number, number> = Processor.limitProcessor(1);
@@ -823,5 +901,184 @@ describe('Processor tests', () => {
             expect(processor.hasNext()).to.equal(false);
         });
     });
-});
 
+    describe('TakeWhileProcessor tests', () => {
+        it('should be a short circuiting processor', () => {
+            const processor: Processor<number, number> = Processor.takeWhileProcessor((n: number) => n < 2);
+
+            expect(processor.isStateless()).to.equal(true);
+            expect(processor.isShortCircuting()).to.equal(true);
+        });
+
+        it('should stop returning values after the first value that does not match', () => {
+            const processor: Processor<number, number> = Processor.takeWhileProcessor((n: number) => n < 2);
+            processor.add(1);
+            processor.add(2);
+            processor.add(1);
+
+            expect(processor.processAndGetNext().get()).to.equal(1);
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+            expect(processor.hasNext()).to.equal(false);
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+        });
+    });
+
+    describe('DropWhileProcessor tests', () => {
+        it('should be a stateless processor', () => {
+            const processor: Processor<number, number> = Processor.dropWhileProcessor((n: number) => n < 2);
+
+            expect(processor.isStateless()).to.equal(true);
+            expect(processor.isShortCircuting()).to.equal(false);
+        });
+
+        it('should return all values after the first value that does not match', () => {
+            const processor: Processor<number, number> = Processor.dropWhileProcessor((n: number) => n < 2);
+            processor.add(1);
+            processor.add(2);
+            processor.add(1);
+
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+            expect(processor.processAndGetNext().get()).to.equal(2);
+            expect(processor.processAndGetNext().get()).to.equal(1);
+        });
+    });
+
+    describe('MapAsyncProcessor tests', () => {
+        it('should be a stateless, not short circuiting processor', () => {
+            const processor = Processor.mapAsyncProcessor((n: number) => Promise.resolve(n), { concurrency: 2 });
+
+            expect(processor.isStateless()).to.equal(true);
+            expect(processor.isShortCircuting()).to.equal(false);
+        });
+
+        it('should accept inputs up to the concurrency limit', () => {
+            const processor = Processor.mapAsyncProcessor((n: number) => Promise.resolve(n), { concurrency: 2 });
+
+            expect(processor.canAcceptInput()).to.equal(true);
+            processor.add(1);
+            expect(processor.canAcceptInput()).to.equal(true);
+            processor.add(2);
+            expect(processor.canAcceptInput()).to.equal(false);
+        });
+
+        it('should throw an IllegalArgumentException if the concurrency is not a positive integer', () => {
+            const mapper = (n: number) => Promise.resolve(n);
+            [0, -1, 1.5, NaN, <any>undefined, <any>'2'].forEach(concurrency =>
+                expect(() => Processor.mapAsyncProcessor(mapper, { concurrency })).to.throw(IllegalArgumentException)
+            );
+        });
+
+        it('should not run the Function until a value is requested', () => {
+            let count = 0;
+            const processor = Processor.mapAsyncProcessor((n: number) => Promise.resolve(count++), { concurrency: 2 });
+            processor.add(1);
+
+            expect(count).to.equal(0);
+        });
+
+        it('should start all waiting inputs when a value is requested, and stay in flight', async () => {
+            let count = 0;
+            const processor = Processor.mapAsyncProcessor((n: number) => { count++; return Promise.resolve(n * 2); }, { concurrency: 2 });
+            processor.add(1);
+            processor.add(2);
+            const first = processor.processAndGetNext();
+
+            expect(count).to.equal(2);
+            expect(processor.hasNext()).to.equal(true);
+            expect(processor.canAcceptInput()).to.equal(true);
+            expect(await first.get()).to.equal(2);
+            expect(await processor.processAndGetNext().get()).to.equal(4);
+            expect(processor.hasNext()).to.equal(false);
+        });
+
+        it('should return results in completion order when not ordered', async () => {
+            const delays: { [n: number]: number } = { 1: 20, 2: 1 };
+            const mapper = (n: number) => new Promise<number>(resolve => setTimeout(() => resolve(n), delays[n]));
+            const processor = Processor.mapAsyncProcessor(mapper, { concurrency: 2, ordered: false });
+            processor.add(1);
+            processor.add(2);
+
+            expect(await processor.processAndGetNext().get()).to.equal(2);
+            expect(await processor.processAndGetNext().get()).to.equal(1);
+        });
+
+        it('should return each result once when the next values are requested before the first completes', async () => {
+            const mapper = (n: number) => new Promise<number>(resolve => setTimeout(() => resolve(n), n * 10));
+            const processor = Processor.mapAsyncProcessor(mapper, { concurrency: 3, ordered: false });
+            processor.add(1);
+            processor.add(2);
+            processor.add(3);
+            const first = processor.processAndGetNext().get();
+            const second = processor.processAndGetNext().get();
+
+            expect([await first, await second]).to.eql([1, 2]);
+            expect(await processor.processAndGetNext().get()).to.equal(3);
+        });
+
+        it('should return empty when there is no values', () => {
+            const processor = Processor.mapAsyncProcessor((n: number) => Promise.resolve(n), { concurrency: 2 });
+
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+        });
+    });
+
+    describe('ChunkProcessor tests', () => {
+        it('should be a stateless processor', () => {
+            const processor: Processor<number, number[]> = Processor.chunkProcessor(2);
+
+            expect(processor.isStateless()).to.equal(true);
+            expect(processor.isShortCircuting()).to.equal(false);
+        });
+
+        it('should not return a chunk until it is full', () => {
+            const processor: Processor<number, number[]> = Processor.chunkProcessor(2);
+            processor.add(1);
+
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+            expect(processor.hasNext()).to.equal(false);
+
+            processor.add(2);
+            expect(processor.processAndGetNext().get()).to.eql([1, 2]);
+        });
+
+        it('should return the partial chunk at the end of input', () => {
+            const processor: Processor<number, number[]> = Processor.chunkProcessor(2);
+            processor.add(1);
+            processor.add(2);
+            processor.add(3);
+            processor.endOfInput();
+
+            expect(processor.processAndGetNext().get()).to.eql([1, 2]);
+            expect(processor.processAndGetNext().get()).to.eql([3]);
+            expect(processor.hasNext()).to.equal(false);
+        });
+    });
+
+    describe('SlidingProcessor tests', () => {
+        it('should not return the partial window at the end of input', () => {
+            const processor: Processor<number, number[]> = Processor.slidingProcessor(2, 1);
+            processor.add(1);
+            processor.add(2);
+            processor.endOfInput();
+
+            expect(processor.processAndGetNext().get()).to.eql([1, 2]);
+            expect(processor.hasNext()).to.equal(false);
+        });
+    });
+
+    describe('WindowByProcessor tests', () => {
+        it('should start a new window when the predicate matches', () => {
+            const processor: Processor<number, number[]> = Processor.windowByProcessor((n: number) => n === 0);
+            processor.add(1);
+            processor.add(0);
+            processor.add(2);
+
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+            expect(processor.processAndGetNext().get()).to.eql([1]);
+            expect(processor.processAndGetNext().isPresent()).to.equal(false);
+
+            processor.endOfInput();
+            expect(processor.processAndGetNext().get()).to.eql([0, 2]);
+        });
+    });
+});
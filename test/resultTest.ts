@@ -0,0 +1,116 @@
+import Result from "../result";
+import { expect } from "chai";
+import Errors from "../errors";
+
+describe('Result tests', () => {
+    describe('Result.success()', () => {
+        it('should return a successful result holding the value', () => {
+            const result: Result<string> = Result.success('value');
+            expect(result.isSuccess()).to.equal(true);
+            expect(result.isFailure()).to.equal(false);
+            expect(result.get()).to.equal('value');
+        });
+
+        it('should throw "NoSuchElementException" when getting the error', () => {
+            expect(() => Result.success('value').getError()).to.throw(Errors.NoSuchElementException);
+        });
+    });
+
+    describe('Result.failure()', () => {
+        it('should return a failed result holding the error', () => {
+            const error = new Error('failed');
+            const result: Result<string> = Result.failure(error);
+            expect(result.isSuccess()).to.equal(false);
+            expect(result.isFailure()).to.equal(true);
+            expect(result.getError()).to.equal(error);
+        });
+
+        it('should throw the error when getting the value', () => {
+            const error = new Error('failed');
+            expect(() => Result.failure(error).get()).to.throw(error);
+        });
+    });
+
+    describe('Result.attempt()', () => {
+        it('should return a success holding the value returned by the supplier', () => {
+            expect(Result.attempt(() => 1).get()).to.equal(1);
+        });
+
+        it('should return a failure holding the error thrown by the supplier', () => {
+            const error = new Error('failed');
+            const result = Result.attempt(() => { throw error; });
+            expect(result.isFailure()).to.equal(true);
+            expect(result.getError()).to.equal(error);
+        });
+    });
+
+    describe('map(Function: Function<T, U>)', () => {
+        it('should transform the value of a success', () => {
+            expect(Result.success(2).map(v => v * 2).get()).to.equal(4);
+        });
+
+        it('should return the failure without invoking the function', () => {
+            let activated = false;
+            const error = new Error('failed');
+            const result = Result.failure<number>(error).map(v => { activated = true; return v; });
+            expect(result.getError()).to.equal(error);
+            expect(activated).to.equal(false);
+        });
+    });
+
+    describe('flatMap(Function: Function<T, Result<U, E>>)', () => {
+        it('should return the result of the function for a success', () => {
+            const error = new Error('failed');
+            expect(Result.success(2).flatMap(v => Result.success(v * 2)).get()).to.equal(4);
+            expect(Result.success(2).flatMap(v => Result.failure(error)).getError()).to.equal(error);
+        });
+
+        it('should return the failure without invoking the function', () => {
+            const error = new Error('failed');
+            expect(Result.failure<number>(error).flatMap(v => Result.success(v)).getError()).to.equal(error);
+        });
+    });
+
+    describe('mapError(Function: Function<E, F>)', () => {
+        it('should transform the error of a failure', () => {
+            expect(Result.failure<number>(new Error('failed')).mapError(e => e.message).getError()).to.equal('failed');
+        });
+
+        it('should return the success unchanged', () => {
+            expect(Result.success(1).mapError(e => e.message).get()).to.equal(1);
+        });
+    });
+
+    describe('recover(Function: Function<E, T>)', () => {
+        it('should return a success holding the result of the function for a failure', () => {
+            const result = Result.failure<number>(new Error('failed')).recover(e => e.message.length);
+            expect(result.isSuccess()).to.equal(true);
+            expect(result.get()).to.equal(6);
+        });
+
+        it('should return the success unchanged', () => {
+            const result = Result.success(1);
+            expect(result.recover(e => 2)).to.equal(result);
+        });
+    });
+
+    describe('orElse(other: T)', () => {
+        it('should return the value of a success', () => {
+            expect(Result.success(1).orElse(2)).to.equal(1);
+        });
+
+        it('should return other for a failure', () => {
+            expect(Result.failure<number>(new Error('failed')).orElse(2)).to.equal(2);
+        });
+    });
+
+    describe('toOptional()', () => {
+        it('should return an optional of the value of a success', () => {
+            expect(Result.success(1).toOptional().get()).to.equal(1);
+        });
+
+        it('should return an empty optional for a failure', () => {
+            expect(Result.failure(new Error('failed')).toOptional().isPresent()).to.equal(false);
+        });
+    });
+});
@@ -0,0 +1,168 @@
+import { Set, HashSet, TreeSet } from "../set";
+import { Errors } from "../errors";
+import { expect } from "chai";
+
+describe('Set tests', () => {
+    describe('add', () => {
+        it('it should return true only when the value was not present', () => {
+            const set = Set.empty<string>();
+
+            expect(set.add('a')).to.be.true;
+            expect(set.add('a')).to.be.false;
+            expect(set.size()).to.equal(1);
+        });
+
+        it('it should treat structurally equal values as the same value', () => {
+            const set = HashSet.of({ a: 1 }, { a: 1 }, { a: 2 });
+
+            expect(set.size()).to.equal(2);
+            expect(set.contains({ a: 2 })).to.be.true;
+        });
+
+        it('it should keep values with colliding hash codes apart', () => {
+            const set = HashSet.of('Aa', 'BB');
+
+            expect(set.size()).to.equal(2);
+            expect(set.contains('Aa')).to.be.true;
+            expect(set.contains('BB')).to.be.true;
+        });
+
+        it('it should throw NullPointerException for a null value', () => {
+            const set = HashSet.empty<any>();
+
+            expect(() => set.add(null)).to.throw(Errors.NullPointerException);
+        });
+    });
+
+    describe('addAll', () => {
+        it('it should add all values of the other set and return true if the set changed', () => {
+            const set = Set.of(1, 2);
+
+            expect(set.addAll(Set.of(2, 3))).to.be.true;
+            expect(set.addAll(Set.of(1, 3))).to.be.false;
+            expect(set.toArray()).to.have.members([1, 2, 3]);
+        });
+    });
+
+    describe('remove', () => {
+        it('it should return true only when the value was present', () => {
+            const set = Set.of('a', 'b');
+
+            expect(set.remove('a')).to.be.true;
+            expect(set.remove('a')).to.be.false;
+            expect(set.contains('a')).to.be.false;
+            expect(set.contains('b')).to.be.true;
+        });
+
+        it('it should only count the values still in the set', () => {
+            const hashSet = HashSet.of('a', 'b', 'c');
+            const treeSet = TreeSet.copyOf(['a', 'b', 'c']);
+            hashSet.remove('b');
+            treeSet.remove('b');
+
+            expect(hashSet.size()).to.equal(2);
+            expect(treeSet.size()).to.equal(2);
+        });
+    });
+
+    describe('isEmpty and clear', () => {
+        it('it should remove all values', () => {
+            const set = Set.of(1, 2, 3);
+            expect(set.isEmpty()).to.be.false;
+
+            set.clear();
+
+            expect(set.isEmpty()).to.be.true;
+            expect(set.size()).to.equal(0);
+        });
+    });
+
+    describe('union', () => {
+        it('it should return a new set with the values of both sets', () => {
+            const first = Set.of(1, 2);
+            const second = Set.of(2, 3);
+            const union = first.union(second);
+
+            expect(union.toArray()).to.have.members([1, 2, 3]);
+            expect(first.size()).to.equal(2);
+        });
+    });
+
+    describe('intersection', () => {
+        it('it should return a new set with the values in both sets', () => {
+            const intersection = Set.of(1, 2, 3).intersection(Set.of(2, 3, 4));
+
+            expect(intersection.toArray()).to.have.members([2, 3]);
+        });
+    });
+
+    describe('difference', () => {
+        it('it should return a new set with the values not in the other set', () => {
+            const difference = Set.of(1, 2, 3).difference(Set.of(2, 4));
+
+            expect(difference.toArray()).to.have.members([1, 3]);
+        });
+    });
+
+    describe('stream and forEach', () => {
+        it('it should go over every value in the set', () => {
+            const set = Set.of(1, 2, 3);
+            const seen: number[] = [];
+            set.forEach(value => seen.push(value));
+
+            expect(set.stream().reduce((a, b) => a + b).get()).to.equal(6);
+            expect(seen).to.have.members([1, 2, 3]);
+        });
+    });
+
+    describe('TreeSet', () => {
+        it('it should keep values sorted', () => {
+            const set = TreeSet.copyOf([5, 1, 4, 1, 3]);
+
+            expect(set.toArray()).to.eql([1, 3, 4, 5]);
+            expect(set.stream().toArray()).to.eql([1, 3, 4, 5]);
+        });
+
+        it('it should order and compare values with the comparator', () => {
+            const set = TreeSet.empty<string>((a, b) => a.length - b.length);
+            set.add('ccc');
+            set.add('a');
+            set.add('bb');
+
+            expect(set.add('zz')).to.be.false;
+            expect(set.toArray()).to.eql(['a', 'bb', 'ccc']);
+        });
+
+        it('it should return sorted sets of the same comparator from set operations', () => {
+            const descending = (a: number, b: number) => b - a;
+            const set = TreeSet.copyOf([1, 2, 3], descending);
+
+            expect(set.union(Set.of(5, 4)).toArray()).to.eql([5, 4, 3, 2, 1]);
+            expect(set.intersection(Set.of(1, 3)).toArray()).to.eql([3, 1]);
+            expect(set.difference(Set.of(2)).toArray()).to.eql([3, 1]);
+        });
+    });
+
+    describe('copyOf', () => {
+        it('it should return an unmodifiable copy of the set', () => {
+            const original = TreeSet.copyOf([3, 1, 2]);
+            const copy = Set.copyOf(original);
+            original.add(4);
+
+            expect(copy.toArray()).to.eql([1, 2, 3]);
+            expect(() => copy.add(5)).to.throw(Errors.UnsupportedOperationException);
+            expect(() => copy.remove(1)).to.throw(Errors.UnsupportedOperationException);
+            expect(() => copy.clear()).to.throw(Errors.UnsupportedOperationException);
+            expect(() => copy.addAll(Set.of(5))).to.throw(Errors.UnsupportedOperationException);
+        });
+
+        it('it should return new modifiable sets from set operations', () => {
+            const copy = Set.copyOf(Set.of(1, 2));
+            const union = copy.union(Set.of(3));
+            union.add(4);
+
+            expect(union.toArray()).to.have.members([1, 2, 3, 4]);
+            expect(copy.size()).to.equal(2);
+        });
+    });
+});
@@ -1,9 +1,12 @@
 import { expect, use, spy } from "chai";
 import * as spies from "chai-spies";
 import { Function, Supplier } from "../functions";
-import { Source } from "../source";
+import { Source, SplittableSource, ReplayBuffer } from "../source";
 import Stream from "../stream";
 import Optional from "../optional";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 use(spies);
 
 describe('Source tests', () => {
@@ -101,6 +104,14 @@ describe('Source tests', () => {
             expect(source.get()).to.equal(sourceArray[1]);
             expect(source.hasNext()).to.equal(false);
         });
+
+        it('should split the remaining values into chunks', () => {
+            const source = <SplittableSource<number>>Source.arraySource([1, 2, 3, 4, 5]);
+            source.get();
+
+            expect(source.split(3)).to.eql([[2, 3], [4], [5]]);
+            expect(source.hasNext()).to.equal(false);
+        });
     });
 
     describe('Concat Source', () => {
@@ -157,6 +168,38 @@ describe('Source tests', () => {
         });
     });
 
+    describe('Zip Source', () => {
+        it('should not hasNext when either stream has no values', () => {
+            const stream1: Stream<number> = Stream.ofValues(1, 2, 3);
+            const stream2: Stream<number> = Stream.ofValues();
+            const source: Source<Optional<number>> = Source.zipSource(stream1, stream2, (a, b) => a + b);
+
+            expect(source.hasNext()).to.equal(false);
+        });
+
+        it('should return the combined values of both streams', () => {
+            const stream1: Stream<number> = Stream.ofValues(1, 2);
+            const stream2: Stream<number> = Stream.ofValues(3);
+            const source: Source<Optional<number>> = Source.zipSource(stream1, stream2, (a, b) => a + b);
+
+            const first = <Optional<number>>source.get();
+            const second = <Optional<number>>source.get();
+
+            expect(first.get()).to.equal(4);
+            expect(second.isPresent()).to.equal(false);
+        });
+
+        it('should hasNext while either stream has values when zipping longest', () => {
+            const stream1: Stream<number> = Stream.ofValues(1);
+            const stream2: Stream<number> = Stream.ofValues();
+            const source: Source<Optional<number>> = Source.zipLongestSource(stream1, stream2, 0, 10, (a, b) => a + b);
+
+            expect(source.hasNext()).to.equal(true);
+            expect((<Optional<number>>source.get()).get()).to.equal(11);
+            expect(source.hasNext()).to.equal(false);
+        });
+    });
+
     describe('Range Source', () => {
         it('return the start value first', () => {
             const source: Source<number> = Source.rangeSource(0, 4);
@@ -246,5 +289,295 @@ describe('Source tests', () => {
             source.get();
             expect(source.hasNext()).to.equal(false);
         });
+
+        it('should split the remaining values into no more chunks than values', () => {
+            const source = <SplittableSource<number>>Source.rangeSource(0, 6, 2);
+
+            expect(source.split(4)).to.eql([[0], [2], [4]]);
+            expect(source.hasNext()).to.equal(false);
+        });
+    });
+
+    describe('Iterable Source', () => {
+        it('should return values from the iterable in order', () => {
+            const source: Source<number> = Source.iterableSource(new Set([1, 2, 3]));
+
+            expect(source.get()).to.equal(1);
+            expect(source.get()).to.equal(2);
+            expect(source.get()).to.equal(3);
+            expect(source.get()).to.equal(undefined);
+        });
+
+        it('should hasNext only while values remain', () => {
+            const source: Source<number> = Source.iterableSource([1]);
+
+            expect(source.hasNext()).to.equal(true);
+            source.get();
+            expect(source.hasNext()).to.equal(false);
+        });
+
+        it('should not pull from the iterator more than once per value', () => {
+            let pulled = 0;
+            function* generator() {
+                while (true) {
+                    pulled++;
+                    yield pulled;
+                }
+            }
+            const source: Source<number> = Source.iterableSource(generator());
+
+            expect(pulled).to.equal(0);
+            source.hasNext();
+            source.hasNext();
+            expect(pulled).to.equal(1);
+            expect(source.get()).to.equal(1);
+            expect(source.get()).to.equal(2);
+            expect(pulled).to.equal(2);
+        });
+    });
+
+    describe('Iterator Source', () => {
+        it('should return the remaining values of the iterator', () => {
+            const iterator = [1, 2, 3][Symbol.iterator]();
+            iterator.next();
+            const source: Source<number> = Source.fromIterator(iterator);
+
+            expect(source.hasNext()).to.equal(true);
+            expect(source.get()).to.equal(2);
+            expect(source.get()).to.equal(3);
+            expect(source.hasNext()).to.equal(false);
+            expect(source.get()).to.equal(undefined);
+        });
+    });
+
+    describe('Generator Source', () => {
+        it('should not call the generator function until a value is needed', () => {
+            let calls = 0;
+            const source: Source<string> = Source.fromGenerator(function* () {
+                calls++;
+                yield 'a';
+                yield 'b';
+            });
+
+            expect(calls).to.equal(0);
+            expect(source.hasNext()).to.equal(true);
+            expect(source.get()).to.equal('a');
+            expect(source.get()).to.equal('b');
+            expect(source.hasNext()).to.equal(false);
+            expect(calls).to.equal(1);
+        });
+    });
+
+    describe('Unfold Source', () => {
+        it('should return values until the function returns an empty Optional', () => {
+            const source: Source<number> = Source.unfoldSource(1, (n: number) => 
+                n <= 3 ? Optional.of<[number, number]>([n * 10, n + 1]) : Optional.empty<[number, number]>());
+
+            expect(source.get()).to.equal(10);
+            expect(source.get()).to.equal(20);
+            expect(source.hasNext()).to.equal(true);
+            expect(source.get()).to.equal(30);
+            expect(source.hasNext()).to.equal(false);
+            expect(source.get()).to.equal(undefined);
+        });
+
+        it('should only apply the function once per value', () => {
+            let calls = 0;
+            const source: Source<number> = Source.unfoldSource(0, (n: number) => {
+                calls++;
+                return Optional.of<[number, number]>([n, n + 1]);
+            });
+
+            source.hasNext();
+            source.hasNext();
+            expect(calls).to.equal(1);
+            expect(source.get()).to.equal(0);
+            expect(source.get()).to.equal(1);
+            expect(calls).to.equal(2);
+        });
+    });
+
+    describe('Split Source', () => {
+        const parts = (source: Source<string>): string[] => {
+            const values: string[] = [];
+            while (source.hasNext()) {
+                values.push(<string>source.get());
+            }
+            return values;
+        };
+
+        it('should split the text the same way as String.prototype.split', () => {
+            const texts = ['a,b,,c', ',a,', '', 'abc', 'a1b22c'];
+            const separators: (RegExp | string)[] = [',', /\d+/, /,?/, '', /(?:)/];
+
+            texts.forEach(text => separators.forEach(separator => 
+                expect(parts(Source.splitSource(text, separator))).to.eql(text.split(separator))
+            ));
+        });
+
+        it('should match a string separator literally', () => {
+            expect(parts(Source.splitSource('a.b|c.d', '.'))).to.eql(['a', 'b|c', 'd']);
+        });
+
+        it('should step over a surrogate pair after an empty match in unicode mode', () => {
+            expect(parts(Source.splitSource('\ud83d\ude00a', /(?:)/u))).to.eql(['\ud83d\ude00', 'a']);
+        });
+
+        it('should find parts only as they are needed', () => {
+            const separator = /,/;
+            const source = Source.splitSource('a,b', separator);
+
+            expect(source.get()).to.equal('a');
+            expect(source.hasNext()).to.equal(true);
+            expect(source.get()).to.equal('b');
+            expect(source.hasNext()).to.equal(false);
+            expect(separator.lastIndex).to.equal(0);
+        });
+    });
+
+    describe('Lines Source', () => {
+        it('should split the text on every kind of line terminator', () => {
+            const source = Source.linesSource('a\nb\r\nc\rd');
+
+            expect([source.get(), source.get(), source.get(), source.get()]).to.eql(['a', 'b', 'c', 'd']);
+            expect(source.hasNext()).to.equal(false);
+        });
+
+        it('should not return an empty line after a trailing line terminator', () => {
+            const source = Source.linesSource('a\n\n');
+
+            expect(source.get()).to.equal('a');
+            expect(source.get()).to.equal('');
+            expect(source.hasNext()).to.equal(false);
+            expect(Source.linesSource('').hasNext()).to.equal(false);
+        });
+    });
+
+    describe('Match Source', () => {
+        it('should return every match of the expression', () => {
+            const pattern = /(\w)(\d)/;
+            const source = Source.matchSource(pattern, 'a1 b2 c');
+
+            const first = <RegExpExecArray>source.get();
+            expect(first[0]).to.equal('a1');
+            expect(first[2]).to.equal('1');
+            expect(first.index).to.equal(0);
+            expect((<RegExpExecArray>source.get())[1]).to.equal('b');
+            expect(source.hasNext()).to.equal(false);
+            expect(pattern.lastIndex).to.equal(0);
+        });
+
+        it('should move past empty matches', () => {
+            const source = Source.matchSource(/x*/, 'axb');
+            const matches: string[] = [];
+            while (source.hasNext()) {
+                matches.push((<RegExpExecArray>source.get())[0]);
+            }
+
+            expect(matches).to.eql(['', 'x', '', '']);
+        });
+
+        it('should step over a surrogate pair after an empty match in unicode mode', () => {
+            const source = Source.matchSource(/(?:)/u, '\ud83d\ude00a');
+            const indexes: number[] = [];
+            while (source.hasNext()) {
+                indexes.push((<RegExpExecArray>source.get()).index);
+            }
+
+            expect(indexes).to.eql([0, 2, 3]);
+        });
+    });
+
+    describe('File Lines Source', () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fileLinesSource'));
+        const write = (name: string, text: string): string => {
+            const file = path.join(directory, name);
+            fs.writeFileSync(file, text, 'utf8');
+            return file;
+        };
+
+        after(() => {
+            fs.readdirSync(directory).forEach(file => fs.unlinkSync(path.join(directory, file)));
+            fs.rmdirSync(directory);
+        });
+
+        it('should return the lines of the file', () => {
+            const source = Source.fileLinesSource(write('lines.txt', 'first\nsecond\r\n\nlast\n'));
+            const lines: string[] = [];
+            while (source.hasNext()) {
+                lines.push(<string>source.get());
+            }
+
+            expect(lines).to.eql(['first', 'second', '', 'last']);
+        });
+
+        it('should join lines and characters split between chunks', () => {
+            const longLine = 'x'.repeat(64 * 1024 - 1);
+            const text = `${longLine}\r\n${'y'.repeat(64 * 1024 - 1)}\u00e9\nend`;
+            const source = Source.fileLinesSource(write('chunks.txt', text));
+            const lines: string[] = [];
+            while (source.hasNext()) {
+                lines.push(<string>source.get());
+            }
+
+            expect(lines).to.eql(text.split(/\r\n|\n/));
+        });
+
+        it('should join a line spread over many chunks', () => {
+            const longLine = 'x'.repeat(5 * 64 * 1024 + 3);
+            const source = Source.fileLinesSource(write('long.txt', `a\r${longLine}\r\nb`));
+            const lines: string[] = [];
+            while (source.hasNext()) {
+                lines.push(<string>source.get());
+            }
+
+            expect(lines).to.eql(['a', longLine, 'b']);
+        });
+
+        it('should stop returning lines once closed', () => {
+            const source = Source.fileLinesSource(write('closed.txt', 'a\nb\nc'));
+            source.get();
+            source.close();
+            source.close();
+
+            expect(source.hasNext()).to.equal(false);
+        });
+
+        it('should throw when the file does not exist', () => {
+            expect(() => Source.fileLinesSource(path.join(directory, 'missing.txt'))).to.throw(/ENOENT/);
+        });
+    });
+
+    describe('Replay Source', () => {
+        it('should return all the values of the buffer to every source', () => {
+            const buffer = new ReplayBuffer(Stream.ofValues(1, 2, 3).streamIterator());
+            const first = Source.replaySource(buffer);
+            const second = Source.replaySource(buffer);
+
+            expect([first.get(), first.get(), first.get()]).to.eql([1, 2, 3]);
+            expect(first.hasNext()).to.equal(false);
+            expect(first.get()).to.be.undefined;
+            expect([second.get(), second.get(), second.get()]).to.eql([1, 2, 3]);
+            expect(second.hasNext()).to.equal(false);
+        });
+
+        it('should only pull values from the iterator when they are needed', () => {
+            const supplier = spy(() => 1);
+            const buffer = new ReplayBuffer(Stream.generate(supplier).streamIterator());
+            const source = Source.replaySource(buffer);
+            source.get();
+            source.get();
+            Source.replaySource(buffer).get();
+
+            expect(supplier).to.have.been.called.exactly(2);
+        });
+
+        it('should skip values the iterator does not return', () => {
+            const buffer = new ReplayBuffer(Stream.ofValues(1, 2, 3, 4).filter(n => n % 2 === 0).streamIterator());
+            const source = Source.replaySource(buffer);
+
+            expect([source.get(), source.get()]).to.eql([2, 4]);
+            expect(source.hasNext()).to.equal(false);
+        });
     });
-});
\ No newline at end of file
+});
@@ -92,4 +92,53 @@ describe('Stream as StreamIterator', () => {
             expect(consumerSpy).to.not.have.been.called;
         });
     });
+
+    describe('next', () => {
+        it('it should return a not done result with the value if value exists', () => {
+            const value = 1;
+            const streamIterator = Stream.ofValue(value).streamIterator();
+            const result = streamIterator.next();
+
+            expect(result.done).to.be.false;
+            expect(result.value).to.be.eq(value);
+        });
+
+        it('it should return a done result if no value exists', () => {
+            const streamIterator = Stream.empty().streamIterator();
+            const result = streamIterator.next();
+
+            expect(result.done).to.be.true;
+            expect(result.value).to.be.undefined;
+        });
+    });
+
+    describe('Iterable protocol', () => {
+        it('it should be usable in a for...of loop', () => {
+            const result: number[] = [];
+            for (const value of Stream.ofValues(1, 2, 3)) {
+                result.push(value);
+            }
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('it should be usable with spread and Array.from', () => {
+            expect([...Stream.ofValues(1, 2, 3).map(i => i * 2)]).to.eql([2, 4, 6]);
+            expect(Array.from(Stream.ofValues(1, 2, 3))).to.eql([1, 2, 3]);
+        });
+
+        it('it should be usable with destructuring on an infinite stream', () => {
+            const [first, second] = Stream.iterate(1, i => i + 1);
+
+            expect(first).to.be.eq(1);
+            expect(second).to.be.eq(2);
+        });
+
+        it('it should continue from the current position when iterating the StreamIterator', () => {
+            const streamIterator = Stream.ofValues(1, 2, 3).streamIterator();
+            streamIterator.getNext();
+
+            expect(Array.from(streamIterator)).to.eql([2, 3]);
+        });
+    });
 });
\ No newline at end of file
@@ -3,6 +3,13 @@ import Collectors from "../collectors";
 import { use, spy, expect } from "chai";
 import * as spies from "chai-spies";
 import Optional from '../optional';
+import Result from '../result';
+import { Source } from '../source';
+import { Readable, Writable } from 'stream';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Errors, { StreamProcessingError, IllegalStateException } from '../errors';
 import { Supplier, Function, Comparator, Consumer } from '../functions';
 use(spies);
 
@@ -212,6 +219,87 @@ describe('Stream tests', () => {
             expect(result.length).to.equal(2)
             expected.forEach(item => expect(result).to.contain(item));
         });
+
+        it('it should keep the order of first occurrence', () => {
+            const result = Stream.of([3, 1, 3, 2, 1]).distinct().toArray();
+
+            expect(result).to.eql([3, 1, 2]);
+        });
+
+        it('it should compare objects by reference without an equality function', () => {
+            const item = { a: 1 };
+            const result = Stream.of([item, { a: 1 }, item]).distinct().toArray();
+
+            expect(result.length).to.equal(2);
+        });
+
+        it('it should not consider values of different types equal', () => {
+            const result = Stream.ofValues<number | string>(1, '1', 1).distinct().toArray();
+
+            expect(result).to.eql([1, '1']);
+        });
+
+        it('it should use the given equality function', () => {
+            const result = Stream.of(['a', 'A', 'b'])
+                .distinct((s1, s2) => s1.toLowerCase() === s2.toLowerCase())
+                .toArray();
+
+            expect(result).to.eql(['a', 'b']);
+        });
+    });
+
+    describe('distinctBy', () => {
+        it('it should return the first element for each key', () => {
+            const result = Stream.of(['apple', 'avocado', 'banana', 'blueberry', 'cherry'])
+                .distinctBy(word => word.charAt(0))
+                .toArray();
+
+            expect(result).to.eql(['apple', 'banana', 'cherry']);
+        });
+
+        it('it should consider keys with the same contents equal', () => {
+            const result = Stream.of([{ a: 1, b: 1 }, { a: 1, b: 2 }, { a: 2, b: 1 }])
+                .distinctBy(item => ({ a: item.a }))
+                .toArray();
+
+            expect(result).to.eql([{ a: 1, b: 1 }, { a: 2, b: 1 }]);
+        });
+
+        it('it should keep distinct keys with colliding hash codes', () => {
+            const result = Stream.of(['Aa', 'BB', 'Aa']).distinctBy(s => s).toArray();
+
+            expect(result).to.eql(['Aa', 'BB']);
+        });
+
+        it('it should lazily filter an infinite stream', () => {
+            const result = Stream.iterate(0, i => i + 1)
+                .distinctBy(i => i % 3)
+                .limit(3)
+                .toArray();
+
+            expect(result).to.eql([0, 1, 2]);
+        });
+    });
+
+    describe('dropWhile', () => {
+        it('it should drop elements while they match the predicate', () => {
+            const result = Stream.of([1, 2, 3, 1, 2]).dropWhile(i => i < 3).toArray();
+
+            expect(result).to.eql([3, 1, 2]);
+        });
+
+        it('it should drop every element if they all match', () => {
+            const result = Stream.of([1, 2]).dropWhile(i => i < 3).toArray();
+
+            expect(result).to.eql([]);
+        });
+
+        it('it should not evaluate the predicate after the first element that does not match', () => {
+            const predicate = spy((i: number) => i < 2);
+            Stream.of([1, 2, 3, 4]).dropWhile(predicate).toArray();
+
+            expect(predicate).to.have.been.called.exactly(2);
+        });
     });
 
     describe('filter tests', () => {
@@ -285,6 +373,49 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('chunk', () => {
+        it('it should group elements into arrays of the given size, keeping the remainder', () => {
+            const result = Stream.of([1, 2, 3, 4, 5]).chunk(2).toArray();
+
+            expect(result).to.eql([[1, 2], [3, 4], [5]]);
+        });
+
+        it('it should return no arrays for an empty stream', () => {
+            const result = Stream.empty<number>().chunk(2).toArray();
+
+            expect(result).to.eql([]);
+        });
+
+        it('it should lazily chunk an infinite stream', () => {
+            const result = Stream.iterate(1, i => i + 1).chunk(3).limit(2).toArray();
+
+            expect(result).to.eql([[1, 2, 3], [4, 5, 6]]);
+        });
+
+        it('it should keep the remainder of a limited infinite stream', () => {
+            const result = Stream.generate(() => 'a').limit(5).chunk(2).toArray();
+
+            expect(result).to.eql([['a', 'a'], ['a', 'a'], ['a']]);
+        });
+
+        it('it should only pull the elements needed for the chunks requested', () => {
+            const pulled: number[] = [];
+            Stream.range(0, 100).peek(i => pulled.push(i)).chunk(3).findFirst();
+
+            expect(pulled).to.eql([0, 1, 2]);
+        });
+
+        it('it should throw an error if size is less than 1', () => {
+            expect(() => Stream.of([1]).chunk(0)).to.throw(Errors.IllegalArgumentException);
+        });
+
+        it('it should throw an error if size is not an integer', () => {
+            expect(() => Stream.of([1]).chunk(1.5)).to.throw(Errors.IllegalArgumentException);
+            expect(() => Stream.of([1]).chunk(NaN)).to.throw(Errors.IllegalArgumentException);
+            expect(() => Stream.of([1]).chunk(Infinity)).to.throw(Errors.IllegalArgumentException);
+        });
+    });
+
     describe('count', () => {
         it('it should return number of values in the stream', () => {
             const source = [1, 2, 3, 11, 12, 13];
@@ -396,6 +527,46 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('findLast', () => {
+        it('it should return the last element of the stream', () => {
+            const result = Stream.of([1, 2, 3]).findLast();
+
+            expect(result.get()).to.equal(3);
+        });
+
+        it('it should return empty for an empty stream', () => {
+            const result = Stream.empty<number>().findLast();
+
+            expect(result.isPresent()).to.equal(false);
+        });
+    });
+
+    describe('findLastN', () => {
+        it('it should return the last n elements in order', () => {
+            const result = Stream.range(0, 10).findLastN(3);
+
+            expect(result).to.eql([7, 8, 9]);
+        });
+
+        it('it should return all the elements if there are less than n', () => {
+            const result = Stream.of([1, 2]).findLastN(3);
+
+            expect(result).to.eql([1, 2]);
+        });
+
+        it('it should return no elements when n is 0', () => {
+            const result = Stream.of([1, 2]).findLastN(0);
+
+            expect(result).to.eql([]);
+        });
+
+        it('it should throw an error if n is not a non-negative integer', () => {
+            expect(() => Stream.of([1, 2]).findLastN(-1)).to.throw(Errors.IllegalArgumentException);
+            expect(() => Stream.of([1, 2]).findLastN(1.5)).to.throw(Errors.IllegalArgumentException);
+            expect(() => Stream.of([1, 2]).findLastN(NaN)).to.throw(Errors.IllegalArgumentException);
+        });
+    });
+
     describe('flatMap', () => {
         it('it should, flatten a stream of streams', () => {
             const stream1 = Stream.ofValues(1, 2, 3);
@@ -519,6 +690,32 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('mapTry', () => {
+        it('it should return a success for each value the Function returns and a failure for each error it throws', () => {
+            const results: Result<number, Error>[] = Stream.ofValues('1', 'x', '3')
+                .mapTry(str => {
+                    if (isNaN(Number(str))) {
+                        throw new Error(`not a number: ${str}`);
+                    }
+                    return Number(str);
+                })
+                .toArray();
+
+            expect(results.map(r => r.isSuccess())).to.eql([true, false, true]);
+            expect(results[0].get()).to.equal(1);
+            expect(results[1].getError().message).to.equal('not a number: x');
+            expect(results[2].get()).to.equal(3);
+        });
+
+        it('it should lazily transform', () => {
+            const spyTransfomer = spy(Function.identity());
+
+            Stream.ofValues(1, 2, 3).mapTry(spyTransfomer).findFirst();
+
+            expect(spyTransfomer).to.be.called.exactly(1);
+        });
+    });
+
     describe('max', () => {
         it('find the max value based on default comparator', () => {
             const source = [1, 2, 3, 11, 12, 13];
@@ -595,6 +792,103 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('onError', () => {
+        const parse = (str: string): number => {
+            if (isNaN(Number(str))) {
+                throw new Error(`not a number: ${str}`);
+            }
+            return Number(str);
+        };
+
+        it('it should rethrow the error as it was thrown when there is no policy', () => {
+            class ParseError extends Error { }
+            const error = new ParseError('not a number');
+            const parseOrThrow = (str: string): number => {
+                if (isNaN(Number(str))) {
+                    throw error;
+                }
+                return Number(str);
+            };
+
+            expect(() => Stream.ofValues('1', 'x', '3').filter(str => str.length > 0).map(parseOrThrow).toArray()).to.throw(error);
+        });
+
+        it('it should give the policy a StreamProcessingError describing the failure', () => {
+            const errors: StreamProcessingError[] = [];
+            Stream.ofValues('1', 'x', '3').filter(str => str.length > 0).map(parse).onError(error => errors.push(error)).toArray();
+
+            expect(errors[0]).to.be.instanceOf(StreamProcessingError);
+            expect(errors[0].stage).to.equal(2);
+            expect(errors[0].stageName).to.equal('map');
+            expect(errors[0].element).to.equal('x');
+            expect(errors[0].cause.message).to.equal('not a number: x');
+        });
+
+        it('it should drop the failed elements with skip', () => {
+            const result = Stream.ofValues('1', 'x', '3', 'y').map(parse).onError('skip').toArray();
+
+            expect(result).to.eql([1, 3]);
+        });
+
+        it('it should end the stream at the failed element with stop', () => {
+            const result = Stream.ofValues('1', 'x', '3').map(parse).onError('stop').toArray();
+
+            expect(result).to.eql([1]);
+        });
+
+        it('it should give the errors to a handler and drop the failed elements', () => {
+            const errors: StreamProcessingError[] = [];
+            const result = Stream.ofValues('1', 'x', '3', 'y')
+                .map(parse)
+                .onError(error => errors.push(error))
+                .toArray();
+
+            expect(result).to.eql([1, 3]);
+            expect(errors.map(error => error.element)).to.eql(['x', 'y']);
+        });
+
+        it('it should handle errors of earlier operations but not later ones', () => {
+            const handled = Stream.ofValues('1', 'x', '3')
+                .map(parse)
+                .map(n => n * 2)
+                .onError('skip')
+                .toArray();
+            const unhandled = () => Stream.ofValues('1', 'x', '3')
+                .onError('skip')
+                .map(parse)
+                .toArray();
+
+            expect(handled).to.eql([2, 6]);
+            expect(unhandled).to.throw(Error, 'not a number: x');
+            expect(unhandled).not.to.throw(StreamProcessingError);
+        });
+
+        it('it should skip a failed element before a stateful operation', () => {
+            const result = Stream.ofValues('3', 'x', '1', '2')
+                .map(parse)
+                .sorted()
+                .onError('skip')
+                .toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('it should end the stream when a stateful operation fails', () => {
+            const result = Stream.ofValues(3, 1, 2)
+                .sorted(() => { throw new Error('boom'); })
+                .onError('skip')
+                .toArray();
+
+            expect(result).to.eql([]);
+        });
+
+        it('it should describe errors thrown by the source', () => {
+            const stream = Stream.generate<string>(() => { throw new Error('boom'); }).recoverWith(error => error.message);
+
+            expect(stream.findFirst().get()).to.equal('source (stage 0) failed: boom');
+        });
+    });
+
     describe('peek', () => {
         it('it should return the values given', () => {
             const source = [1, 2, 3];
@@ -646,6 +940,155 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('reduceRight', () => {
+        it('it should reduce starting from the last element', () => {
+            const result = Stream.of(['a', 'b', 'c']).reduceRight((s1, s2) => s1 + s2);
+
+            expect(result.get()).to.equal('cba');
+        });
+
+        it('it should start with the initial value', () => {
+            const result = Stream.of(['a', 'b']).reduceRight((s1, s2) => s1 + s2, '>');
+
+            expect(result.get()).to.equal('>ba');
+        });
+
+        it('it should return empty for an empty stream without an initial value', () => {
+            const result = Stream.empty<string>().reduceRight((s1, s2) => s1 + s2);
+
+            expect(result.isPresent()).to.equal(false);
+        });
+    });
+
+    describe('recoverWith', () => {
+        it('it should replace the failed elements with the result of the function', () => {
+            const result = Stream.ofValues(1, 0, 2)
+                .map(n => {
+                    if (n === 0) {
+                        throw new Error('zero');
+                    }
+                    return 2 / n;
+                })
+                .recoverWith(error => -1)
+                .toArray();
+
+            expect(result).to.eql([2, -1, 1]);
+        });
+
+        it('it should pass the recovered values to later operations', () => {
+            const result = Stream.ofValues('a', '', 'c')
+                .map(str => str.toUpperCase())
+                .filter(str => { if (str.length === 0) { throw new Error('empty'); } return true; })
+                .recoverWith(error => '?')
+                .map(str => str + '!')
+                .toArray();
+
+            expect(result).to.eql(['A!', '?!', 'C!']);
+        });
+    });
+
+    describe('replayable', () => {
+        it('it should create streams that each return all the values', () => {
+            const supplier = Stream.ofValues(1, 2, 3).map(n => n * 2).replayable();
+
+            expect(supplier().toArray()).to.eql([2, 4, 6]);
+            expect(supplier().filter(n => n > 2).count()).to.equal(2);
+            expect(supplier().reduce((a, b) => a + b).get()).to.equal(12);
+        });
+
+        it('it should only process the values of the stream once', () => {
+            const mapper = spy((n: number) => n * 2);
+            const supplier = Stream.ofValues(1, 2, 3).map(mapper).replayable();
+            supplier().toArray();
+            supplier().toArray();
+
+            expect(mapper).to.have.been.called.exactly(3);
+        });
+
+        it('it should pull values lazily, allowing infinite streams', () => {
+            const supplier = Stream.iterate(1, n => n + 1).replayable();
+
+            expect(supplier().limit(3).toArray()).to.eql([1, 2, 3]);
+            expect(supplier().limit(5).toArray()).to.eql([1, 2, 3, 4, 5]);
+        });
+
+        it('it should use up the stream it is created from', () => {
+            const stream = Stream.ofValues(1, 2, 3);
+            stream.replayable();
+
+            expect(() => stream.toArray()).to.throw(IllegalStateException);
+        });
+    });
+
+    describe('reuse', () => {
+        it('it should throw an IllegalStateException on a second terminal operation', () => {
+            const stream = Stream.ofValues(1, 2, 3);
+            stream.count();
+
+            expect(() => stream.toArray()).to.throw(IllegalStateException);
+            expect(() => stream.findFirst()).to.throw(IllegalStateException);
+        });
+
+        it('it should throw an IllegalStateException when linking a stream twice', () => {
+            const stream = Stream.ofValues(1, 2, 3);
+            stream.map(n => n * 2);
+
+            expect(() => stream.filter(n => n > 1)).to.throw(IllegalStateException, 'stream has already been operated upon or closed');
+        });
+
+        it('it should throw an IllegalStateException when consuming a stream that has been linked', () => {
+            const stream = Stream.ofValues(1, 2, 3);
+            const mapped = stream.map(n => n * 2);
+
+            expect(() => stream.toArray()).to.throw(IllegalStateException);
+            expect(mapped.toArray()).to.eql([2, 4, 6]);
+        });
+
+        it('it should throw an IllegalStateException when linking a stream that has been consumed', () => {
+            const stream = Stream.ofValues(1, 2, 3);
+            stream.forEach(n => n);
+
+            expect(() => stream.map(n => n * 2)).to.throw(IllegalStateException);
+            expect(() => stream.parallel()).to.throw(IllegalStateException);
+            expect(() => Stream.concat(stream, Stream.empty())).to.throw(IllegalStateException);
+        });
+
+        it('it should allow the stream iterator to be iterated', () => {
+            const iterator = Stream.ofValues(1, 2, 3).streamIterator();
+            const values: number[] = [];
+            for (const value of iterator) {
+                values.push(value);
+            }
+
+            expect(values).to.eql([1, 2, 3]);
+        });
+
+        it('it should allow returning the same stream after parallel, sequential and onError', () => {
+            const stream = Stream.ofValues(1, 2, 3);
+
+            expect(stream.sequential().onError('skip').toArray()).to.eql([1, 2, 3]);
+        });
+    });
+
+    describe('reverse', () => {
+        it('it should reverse the order of the elements', () => {
+            const result = Stream.of([1, 2, 3]).reverse().toArray();
+
+            expect(result).to.eql([3, 2, 1]);
+        });
+
+        it('it should work between other operations', () => {
+            const result = Stream.range(0, 6)
+                .filter(i => i % 2 === 0)
+                .reverse()
+                .map(i => i * 10)
+                .limit(2)
+                .toArray();
+
+            expect(result).to.eql([40, 20]);
+        });
+    });
+
     describe('skip', () => {
         it('it should, remove n number of elements from the stream', () => {
             const stream: Stream<number> = Stream.ofValues(1, 2, 3, 4);
@@ -675,6 +1118,57 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('skipWhile', () => {
+        it('it should drop elements while they match the predicate', () => {
+            const result = Stream.of([1, 2, 3, 1, 2]).skipWhile(i => i < 3).toArray();
+
+            expect(result).to.eql([3, 1, 2]);
+        });
+    });
+
+    describe('sliding', () => {
+        it('it should return overlapping windows stepping by one by default', () => {
+            const result = Stream.of([1, 2, 3, 4]).sliding(2).toArray();
+
+            expect(result).to.eql([[1, 2], [2, 3], [3, 4]]);
+        });
+
+        it('it should start a new window every step elements', () => {
+            const result = Stream.of([1, 2, 3, 4, 5, 6, 7]).sliding(3, 2).toArray();
+
+            expect(result).to.eql([[1, 2, 3], [3, 4, 5], [5, 6, 7]]);
+        });
+
+        it('it should skip elements between windows when step is larger than size', () => {
+            const result = Stream.of([1, 2, 3, 4, 5, 6, 7, 8]).sliding(2, 3).toArray();
+
+            expect(result).to.eql([[1, 2], [4, 5], [7, 8]]);
+        });
+
+        it('it should not return partial windows', () => {
+            const result = Stream.of([1, 2]).sliding(3).toArray();
+
+            expect(result).to.eql([]);
+        });
+
+        it('it should lazily slide over an infinite stream', () => {
+            const result = Stream.iterate(1, i => i + 1).sliding(2).limit(3).toArray();
+
+            expect(result).to.eql([[1, 2], [2, 3], [3, 4]]);
+        });
+
+        it('it should throw an error if size or step is less than 1', () => {
+            expect(() => Stream.of([1]).sliding(0)).to.throw(Errors.IllegalArgumentException);
+            expect(() => Stream.of([1]).sliding(1, 0)).to.throw(Errors.IllegalArgumentException);
+        });
+
+        it('it should throw an error if size or step is not an integer', () => {
+            expect(() => Stream.of([1]).sliding(2.5)).to.throw(Errors.IllegalArgumentException);
+            expect(() => Stream.of([1]).sliding(2, 0.5)).to.throw(Errors.IllegalArgumentException);
+            expect(() => Stream.of([1]).sliding(NaN, 1)).to.throw(Errors.IllegalArgumentException);
+        });
+    });
+
     describe('sorted', () => {
         it('it should, return a sorted stream based on default sort', () => {
             const stream: Stream<number> = Stream.ofValues(2, 1, 4, 3);
@@ -714,6 +1208,36 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('takeWhile', () => {
+        it('it should take elements while they match the predicate', () => {
+            const result = Stream.of([1, 2, 3, 1, 2]).takeWhile(i => i < 3).toArray();
+
+            expect(result).to.eql([1, 2]);
+        });
+
+        it('it should end an infinite stream', () => {
+            const result = Stream.iterate(1, i => i * 2).takeWhile(i => i < 20).toArray();
+
+            expect(result).to.eql([1, 2, 4, 8, 16]);
+        });
+
+        it('it should stop pulling elements once the predicate fails', () => {
+            const pulled: number[] = [];
+            Stream.range(0, 100)
+                .peek(i => pulled.push(i))
+                .takeWhile(i => i < 3)
+                .toArray();
+
+            expect(pulled).to.eql([0, 1, 2, 3]);
+        });
+
+        it('it should return an empty stream if the first element does not match', () => {
+            const result = Stream.of([5, 1]).takeWhile(i => i < 3).toArray();
+
+            expect(result).to.eql([]);
+        });
+    });
+
     describe('toArray', () => {
         it('it should return an array representation of the stream elements', () => {
             const result = Stream.ofValues(1,2).toArray();
@@ -722,6 +1246,104 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('windowBy', () => {
+        it('it should start a new window at each element matching the predicate', () => {
+            const result = Stream.of(['#a', 'b', 'c', '#d', '#e', 'f'])
+                .windowBy(s => s.charAt(0) === '#')
+                .toArray();
+
+            expect(result).to.eql([['#a', 'b', 'c'], ['#d'], ['#e', 'f']]);
+        });
+
+        it('it should not start a new window for a matching first element', () => {
+            const result = Stream.of([0, 1, 2]).windowBy(i => i === 0).toArray();
+
+            expect(result).to.eql([[0, 1, 2]]);
+        });
+
+        it('it should lazily window an infinite stream', () => {
+            const result = Stream.iterate(1, i => i + 1)
+                .windowBy(i => i % 3 === 0)
+                .limit(2)
+                .toArray();
+
+            expect(result).to.eql([[1, 2], [3, 4, 5]]);
+        });
+    });
+
+    describe('zipWith', () => {
+        it('it should combine the elements of both streams pairwise', () => {
+            const result = Stream.of([1, 2, 3])
+                .zipWith(Stream.of(['a', 'b', 'c']), (n, s) => `${n}${s}`)
+                .toArray();
+
+            expect(result).to.eql(['1a', '2b', '3c']);
+        });
+
+        it('it should end at the end of the shorter stream', () => {
+            const result = Stream.of([1, 2, 3])
+                .zipWith(Stream.of(['a']), (n, s) => `${n}${s}`)
+                .toArray();
+
+            expect(result).to.eql(['1a']);
+        });
+
+        it('it should zip with an infinite stream', () => {
+            const result = Stream.of(['a', 'b'])
+                .zipWith(Stream.generate(() => '!'), (s1, s2) => s1 + s2)
+                .toArray();
+
+            expect(result).to.eql(['a!', 'b!']);
+        });
+    });
+
+    describe('zipWithIndex', () => {
+        it('it should pair each element with its index', () => {
+            const result = Stream.of(['a', 'b', 'c'])
+                .zipWithIndex()
+                .map(entry => `${entry.getKey()}:${entry.getValue()}`)
+                .toArray();
+
+            expect(result).to.eql(['0:a', '1:b', '2:c']);
+        });
+
+        it('it should index the elements remaining after filtering', () => {
+            const result = Stream.of([5, 6, 7, 8])
+                .filter(i => i % 2 === 0)
+                .zipWithIndex()
+                .map(entry => entry.getKey())
+                .toArray();
+
+            expect(result).to.eql([0, 1]);
+        });
+    });
+
+    describe('zipLongest', () => {
+        it('it should use the fill value of the shorter stream', () => {
+            const result = Stream.of([1, 2, 3])
+                .zipLongest(Stream.of(['a']), 0, '-', (n, s) => `${n}${s}`)
+                .toArray();
+
+            expect(result).to.eql(['1a', '2-', '3-']);
+        });
+
+        it('it should use the fill value of this stream when it is shorter', () => {
+            const result = Stream.of([1])
+                .zipLongest(Stream.of(['a', 'b']), 0, '-', (n, s) => `${n}${s}`)
+                .toArray();
+
+            expect(result).to.eql(['1a', '0b']);
+        });
+
+        it('it should return an empty stream when both streams are empty', () => {
+            const result = Stream.empty<number>()
+                .zipLongest(Stream.empty<string>(), 0, '-', (n, s) => `${n}${s}`)
+                .toArray();
+
+            expect(result).to.eql([]);
+        });
+    });
+
     describe('of', () => {
         it('it should return a stream of elements from given array', () => {
             const source = [1,2,3];
@@ -797,6 +1419,20 @@ describe('Stream tests', () => {
         });
     });
 
+    describe('zip', () => {
+        it('it should combine the elements of both streams pairwise', () => {
+            const result = Stream.zip(Stream.of([1, 2]), Stream.of([10, 20]), (a, b) => a + b).toArray();
+
+            expect(result).to.eql([11, 22]);
+        });
+
+        it('it should end at the end of the shorter stream', () => {
+            const result = Stream.zip(Stream.iterate(1, i => i + 1), Stream.of([10, 20]), (a, b) => a * b).toArray();
+
+            expect(result).to.eql([10, 40]);
+        });
+    });
+
     describe('range', () => {
         it('it should start with start value', () => {
             const start = 0;
@@ -954,4 +1590,220 @@ describe('Stream tests', () => {
             expect(result.length).to.be.eq(1);
         });
     });
+
+    describe('Stream.ofIterable', () => {
+        it('it should create a stream from a Set', () => {
+            const result = Stream.ofIterable(new Set([1, 2, 2, 3])).toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+
+        it('it should lazily pull from an infinite generator', () => {
+            function* naturals() {
+                let i = 0;
+                while (true) {
+                    yield i++;
+                }
+            }
+            const result = Stream.ofIterable(naturals())
+                .filter(i => i % 2 === 0)
+                .limit(3)
+                .toArray();
+
+            expect(result).to.eql([0, 2, 4]);
+        });
+
+        it('it should handle empty iterable', () => {
+            const result = Stream.ofIterable<number>([]).toArray();
+
+            expect(result.length).to.equal(0);
+        });
+    });
+
+    describe('Stream.ofSource', () => {
+        it('it should create a stream from a generator function source', () => {
+            const pages = [[1, 2], [3], []];
+            const result = Stream.ofSource(Source.fromGenerator(function* () {
+                let page = 0;
+                while (pages[page].length > 0) {
+                    yield* pages[page++];
+                }
+            })).toArray();
+
+            expect(result).to.eql([1, 2, 3]);
+        });
+    });
+
+    describe('Stream.unfold', () => {
+        it('it should create a stream of values until the function returns an empty Optional', () => {
+            const result = Stream.unfold<[number, number], number>([0, 1], ([a, b]) => 
+                a < 20 ? Optional.of<[number, [number, number]]>([a, [b, a + b]]) : Optional.empty<[number, [number, number]]>()
+            ).toArray();
+
+            expect(result).to.eql([0, 1, 1, 2, 3, 5, 8, 13]);
+        });
+
+        it('it should lazily apply the function to an unending seed', () => {
+            let calls = 0;
+            const result = Stream.unfold(1, (n: number) => {
+                calls++;
+                return Optional.of<[string, number]>([`page ${n}`, n + 1]);
+            }).limit(2).toArray();
+
+            expect(result).to.eql(['page 1', 'page 2']);
+            expect(calls).to.be.at.most(3);
+        });
+    });
+
+    describe('Node.js stream adapters', () => {
+        const slowWritable = (written: number[]) => new Writable({
+            objectMode: true,
+            highWaterMark: 1,
+            write: (value: number, encoding: string, callback: () => void) => setTimeout(() => {
+                written.push(value);
+                callback();
+            }, 1),
+        });
+
+        it('it should create an AsyncStream from a Readable', async () => {
+            const result = await Stream.fromReadable<number>(Readable.from([1, 2, 3], { objectMode: true }))
+                .map(n => n * 2)
+                .toArray();
+
+            expect(result).to.eql([2, 4, 6]);
+        });
+
+        it('it should read the stream through toReadable', async () => {
+            const values: number[] = [];
+            for await (const value of Stream.iterate(1, n => n + 1).limit(3).toReadable()) {
+                values.push(value);
+            }
+
+            expect(values).to.eql([1, 2, 3]);
+        });
+
+        it('it should write every element with pipeTo, waiting for the writable to drain', async () => {
+            const written: number[] = [];
+            let pulled = 0;
+            let mostAhead = 0;
+            await Stream.range(0, 50)
+                .peek(() => {
+                    pulled++;
+                    mostAhead = Math.max(mostAhead, pulled - written.length);
+                })
+                .pipeTo(slowWritable(written));
+
+            expect(written).to.eql(Stream.range(0, 50).toArray());
+            expect(mostAhead).to.be.below(50);
+        });
+
+        it('it should reject pipeTo when the stream fails', async () => {
+            const error = new Error('bad value');
+            let caught;
+            try {
+                await Stream.ofValues(1, 2).map(n => { throw error; }).pipeTo(slowWritable([]));
+            } catch (e) {
+                caught = e;
+            }
+
+            expect(caught).to.equal(error);
+        });
+
+        it('it should throw an IllegalStateException when piping an already used stream', () => {
+            const stream = Stream.ofValues(1, 2);
+            stream.toArray();
+
+            expect(() => stream.pipeTo(slowWritable([]))).to.throw(IllegalStateException);
+        });
+    });
+
+    describe('text sources', () => {
+        it('it should create a stream of the lines of a string', () => {
+            const result = Stream.lines('first\r\nsecond\n\nthird\n').toArray();
+
+            expect(result).to.eql(['first', 'second', '', 'third']);
+        });
+
+        it('it should only split as much of the string as is needed', () => {
+            const result = Stream.split('a, b, c, d', /,\s*/).limit(2).toArray();
+
+            expect(result).to.eql(['a', 'b']);
+        });
+
+        it('it should create a stream of the matches of a regular expression', () => {
+            const result = Stream.ofMatches(/(\w+)=(\d+)/, 'a=1; b=22; c=x')
+                .map(match => `${match[1]}:${Number(match[2]) * 2}`)
+                .toArray();
+
+            expect(result).to.eql(['a:2', 'b:44']);
+        });
+
+        it('it should end after empty unicode matches on astral text', () => {
+            expect(Stream.split('\ud83d\ude00a', /(?:)/u).toArray()).to.eql(['\ud83d\ude00', 'a']);
+            expect(Stream.ofMatches(/(?:)/u, '\ud83d\ude00a').map(match => match.index).toArray()).to.eql([0, 2, 3]);
+        });
+    });
+
+    describe('ofFileLines and close', () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ofFileLines'));
+        const file = path.join(directory, 'lines.txt');
+        fs.writeFileSync(file, 'one\ntwo\nthree\n', 'utf8');
+
+        after(() => {
+            fs.unlinkSync(file);
+            fs.rmdirSync(directory);
+        });
+
+        it('it should create a stream of the lines of a file', () => {
+            const result = Stream.ofFileLines(file).map(line => line.toUpperCase()).toArray();
+
+            expect(result).to.eql(['ONE', 'TWO', 'THREE']);
+        });
+
+        it('it should run the close handlers of the stream and the streams it was built from', () => {
+            const closed: string[] = [];
+            const stream = Stream.ofFileLines(file).onClose(() => closed.push('lines'));
+            const first = stream.map(line => line.length).onClose(() => closed.push('lengths'));
+            first.findFirst();
+            first.close();
+            first.close();
+
+            expect(closed).to.eql(['lines', 'lengths']);
+        });
+
+        it('it should stop reading the file once the stream is closed', () => {
+            const stream = Stream.ofFileLines(file);
+            const iterator = stream.streamIterator();
+            iterator.getNext();
+            stream.close();
+
+            expect(iterator.hasNext()).to.equal(false);
+        });
+
+        it('it should throw an IllegalStateException when adding a close handler to a used stream', () => {
+            const stream = Stream.ofValues(1);
+            stream.toArray();
+
+            expect(() => stream.onClose(() => undefined)).to.throw(IllegalStateException);
+            expect(() => stream.close()).not.to.throw();
+        });
+
+        it('it should throw an IllegalStateException when operating on a closed stream', () => {
+            const stream = Stream.ofValues(1, 2);
+            stream.close();
+
+            expect(() => stream.toArray()).to.throw(IllegalStateException, 'closed');
+            expect(() => stream.map(n => n * 2)).to.throw(IllegalStateException);
+            expect(() => stream.onClose(() => undefined)).to.throw(IllegalStateException);
+        });
+
+        it('it should only run the close handlers once when closed again', () => {
+            let closed = 0;
+            const stream = Stream.ofValues(1).onClose(() => closed++);
+            stream.close();
+            stream.close();
+
+            expect(closed).to.equal(1);
+        });
+    });
 });
\ No newline at end of file
@@ -0,0 +1,175 @@
+import { Map, TreeMap } from "../map";
+import { Errors } from "../errors";
+import { Comparator } from "../functions";
+import Stream from "../stream";
+import { expect } from "chai";
+
+const treeMapOf = (...keys: number[]): TreeMap<number, string> => {
+    const map = TreeMap.empty<number, string>();
+    keys.forEach(key => map.put(key, `${key}`));
+    return map;
+}
+
+describe('TreeMap tests', () => {
+    describe('empty', () => {
+        it('it should create an empty map', () => {
+            const map = TreeMap.empty<number, string>();
+
+            expect(map.isEmpty()).to.be.true;
+            expect(map.keySet()).to.eql([]);
+        });
+
+        it('it should order keys by the given comparator', () => {
+            const map = TreeMap.empty<string, number>((a, b) => Comparator.default<string>()(b, a));
+            map.put('a', 1);
+            map.put('c', 3);
+            map.put('b', 2);
+
+            expect(map.keySet()).to.eql(['c', 'b', 'a']);
+        });
+    });
+
+    describe('copyOf', () => {
+        it('it should copy all entries of the map in sorted order', () => {
+            const map = TreeMap.copyOf(Map.of('b', 2, 'c', 3, 'a', 1));
+
+            expect(map.keySet()).to.eql(['a', 'b', 'c']);
+            expect(map.values()).to.eql([1, 2, 3]);
+        });
+    });
+
+    describe('put', () => {
+        it('it should return null when the key is new and the previous value otherwise', () => {
+            const map = TreeMap.empty<number, string>();
+
+            expect(map.put(1, 'a')).to.be.null;
+            expect(map.put(1, 'b')).to.equal('a');
+            expect(map.get(1)).to.equal('b');
+        });
+
+        it('it should throw NullPointerException for a null key', () => {
+            const map = TreeMap.empty<any, string>();
+
+            expect(() => map.put(null, 'a')).to.throw(Errors.NullPointerException);
+        });
+
+        it('it should keep keys sorted regardless of insertion order', () => {
+            const keys = Stream.range(0, 500).map(n => (n * 7919) % 500).toArray();
+            const map = treeMapOf(...keys);
+
+            expect(map.keySet()).to.eql(Stream.range(0, 500).toArray());
+        });
+    });
+
+    describe('get and containsKey', () => {
+        it('it should find keys equal by the comparator', () => {
+            const map = TreeMap.empty<string, number>((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+            map.put('Key', 1);
+
+            expect(map.containsKey('KEY')).to.be.true;
+            expect(map.get('key')).to.equal(1);
+            expect(map.get('other')).to.be.null;
+        });
+    });
+
+    describe('remove', () => {
+        it('it should remove the key and return its value', () => {
+            const map = treeMapOf(5, 3, 8, 1, 4, 7, 9);
+
+            expect(map.remove(5)).to.equal('5');
+            expect(map.remove(5)).to.be.null;
+            expect(map.keySet()).to.eql([1, 3, 4, 7, 8, 9]);
+        });
+
+        it('it should stay sorted after many removals', () => {
+            const map = treeMapOf(...Stream.range(0, 200).toArray());
+            Stream.range(0, 200).filter(n => n % 3 !== 0).forEach(n => map.remove(n));
+
+            expect(map.keySet()).to.eql(Stream.range(0, 200).filter(n => n % 3 === 0).toArray());
+        });
+    });
+
+    describe('firstKey and lastKey', () => {
+        it('it should return the smallest and largest keys', () => {
+            const map = treeMapOf(5, 3, 8);
+
+            expect(map.firstKey().get()).to.equal(3);
+            expect(map.lastKey().get()).to.equal(8);
+        });
+
+        it('it should return empty for an empty map', () => {
+            const map = TreeMap.empty<number, string>();
+
+            expect(map.firstKey().isPresent()).to.be.false;
+            expect(map.lastKey().isPresent()).to.be.false;
+        });
+    });
+
+    describe('floorEntry', () => {
+        it('it should return the entry with the largest key less than or equal to the key', () => {
+            const map = treeMapOf(10, 20, 30);
+
+            expect(map.floorEntry(20).get().getKey()).to.equal(20);
+            expect(map.floorEntry(25).get().getKey()).to.equal(20);
+            expect(map.floorEntry(35).get().getValue()).to.equal('30');
+            expect(map.floorEntry(5).isPresent()).to.be.false;
+        });
+    });
+
+    describe('ceilingEntry', () => {
+        it('it should return the entry with the smallest key greater than or equal to the key', () => {
+            const map = treeMapOf(10, 20, 30);
+
+            expect(map.ceilingEntry(20).get().getKey()).to.equal(20);
+            expect(map.ceilingEntry(15).get().getKey()).to.equal(20);
+            expect(map.ceilingEntry(5).get().getValue()).to.equal('10');
+            expect(map.ceilingEntry(35).isPresent()).to.be.false;
+        });
+    });
+
+    describe('headMap', () => {
+        it('it should return the entries with keys less than the key', () => {
+            const map = treeMapOf(1, 2, 3, 4, 5);
+
+            expect(map.headMap(3).keySet()).to.eql([1, 2]);
+            expect(map.headMap(3, true).keySet()).to.eql([1, 2, 3]);
+        });
+
+        it('it should return a copy that does not affect the original map', () => {
+            const map = treeMapOf(1, 2, 3);
+            const head = map.headMap(3);
+            head.put(0, '0');
+            head.remove(1);
+
+            expect(map.keySet()).to.eql([1, 2, 3]);
+        });
+    });
+
+    describe('tailMap', () => {
+        it('it should return the entries with keys greater than or equal to the key', () => {
+            const map = treeMapOf(1, 2, 3, 4, 5);
+
+            expect(map.tailMap(3).keySet()).to.eql([3, 4, 5]);
+            expect(map.tailMap(3, false).keySet()).to.eql([4, 5]);
+        });
+    });
+
+    describe('subMap', () => {
+        it('it should return the entries with keys in the range', () => {
+            const map = treeMapOf(...Stream.range(0, 50).toArray());
+
+            expect(map.subMap(10, 15).keySet()).to.eql([10, 11, 12, 13, 14]);
+            expect(map.subMap(10, 15, false, true).keySet()).to.eql([11, 12, 13, 14, 15]);
+            expect(map.subMap(15, 10).isEmpty()).to.be.true;
+        });
+    });
+
+    describe('streams', () => {
+        it('it should stream keys and entries in sorted order', () => {
+            const map = treeMapOf(3, 1, 2);
+
+            expect(map.keyStream().toArray()).to.eql([1, 2, 3]);
+            expect(map.entryStream().map(e => e.getValue()).toArray()).to.eql(['1', '2', '3']);
+        });
+    });
+});